@@ -193,10 +193,18 @@ run_ok dash-cli -- list --json
 assert_json "$(output)" 'data.shortcuts.length === 1 && data.shortcuts[0].trigger === "test"'
 pass "remove command"
 
-printf "%s\n" "$PROJECTS_DIR" | dash-cli --setup bash --alias >"$LAST_OUTPUT_FILE" 2>&1
+run_ok dash-cli -- completions bash
+assert_contains "$(output)" "complete -F _dash_complete dash d dash-cli"
+
+run_fail dash-cli -- completions tcsh
+assert_contains "$(output)" "Usage: dash -- completions"
+pass "completions command"
+
+printf "%s\n" "$PROJECTS_DIR" | dash-cli --setup bash --alias --completions >"$LAST_OUTPUT_FILE" 2>&1
 assert_file_contains "$HOME_DIR/.bashrc" "dash-cli"
 assert_file_contains "$HOME_DIR/.bashrc" "alias d=dash"
-assert_json_file "$CONFIG_DIR/settings.json" 'data.projectsDir === "/tmp/dash-projects"'
+assert_file_contains "$HOME_DIR/.bashrc" "_dash_complete() {"
+assert_json_file "$CONFIG_DIR/settings.json" 'data.roots.length === 1 && data.roots[0].path === "/tmp/dash-projects"'
 
 run_ok dash-cli --uninstall bash
 assert_not_contains_file "$HOME_DIR/.bashrc" "# Dash CLI:"
@@ -212,8 +220,32 @@ run_ok dash-cli --uninstall powershell
 assert_not_contains_file "$PS_PROFILE" "# Dash CLI:"
 pass "powershell profile setup and uninstall"
 
-run_fail dash-cli --uninstall fish
-assert_contains "$(output)" "Unknown shell: fish"
+printf "%s\n" "$PROJECTS_DIR" | dash-cli --setup zsh --alias >"$LAST_OUTPUT_FILE" 2>&1
+assert_file_contains "$HOME_DIR/.zshrc" "dash() {"
+assert_file_contains "$HOME_DIR/.zshrc" "alias d=dash"
+zsh -c ". $HOME_DIR/.zshrc && whence -w dash d" >"$LAST_OUTPUT_FILE" 2>&1 || fail "zsh could not load the wrapper"
+assert_contains "$(output)" "dash: function"
+
+run_ok dash-cli --uninstall zsh
+assert_not_contains_file "$HOME_DIR/.zshrc" "# Dash CLI:"
+pass "zsh setup and uninstall"
+
+FISH_DIR="$HOME_DIR/.config/fish"
+printf "%s\n" "$PROJECTS_DIR" | dash-cli --setup fish --alias --completions >"$LAST_OUTPUT_FILE" 2>&1
+assert_file_contains "$FISH_DIR/functions/dash.fish" "function dash"
+assert_file_contains "$FISH_DIR/functions/d.fish" "function d --wraps dash"
+fish -c "functions -q dash d" >"$LAST_OUTPUT_FILE" 2>&1 || fail "fish could not autoload the functions"
+fish -c 'complete -C "dash -- sh"' >"$LAST_OUTPUT_FILE" 2>&1 || fail "fish completion failed"
+assert_contains "$(output)" "show"
+
+run_ok dash-cli --uninstall fish
+[ ! -f "$FISH_DIR/functions/dash.fish" ] || fail "expected fish dash function to be removed"
+[ ! -f "$FISH_DIR/functions/d.fish" ] || fail "expected fish d alias to be removed"
+[ ! -f "$FISH_DIR/completions/dash.fish" ] || fail "expected fish completions to be removed"
+pass "fish setup and uninstall"
+
+run_fail dash-cli --uninstall tcsh
+assert_contains "$(output)" "Unknown shell: tcsh"
 pass "setup argument errors"
 
 echo "All Docker e2e checks passed."
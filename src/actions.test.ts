@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { copyToClipboard, expandTemplate, getActionCommands } from "./actions.js";
+
+const execFileSync = vi.hoisted(() => vi.fn());
+
+vi.mock("node:child_process", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("node:child_process")>()),
+  execFileSync,
+}));
+
+const values = { path: "/work/it's here", name: "it's here" };
+
+afterEach(() => {
+  execFileSync.mockReset();
+});
+
+describe("actions", () => {
+  it("fills in {path} and {name} quoted for the target shell", () => {
+    expect(expandTemplate("code {path} # {name}", values, "posix")).toBe("code '/work/it'\\''s here' # 'it'\\''s here'");
+    expect(expandTemplate("ii {path}", values, "powershell")).toBe("ii '/work/it''s here'");
+    // Inside quotes the value becomes part of the quoted text
+    expect(expandTemplate('code "{path}"', values, "posix")).toBe(`code "/work/it's here"`);
+    expect(expandTemplate("echo '{name}!'", values, "posix")).toBe("echo 'it'\\''s here!'");
+    expect(expandTemplate('code "{path}"', { path: '/work/"$app"', name: "app" }, "powershell")).toBe('code "/work/`"`$app`""');
+    // Shell expansions and unknown placeholders are left alone
+    expect(expandTemplate("echo ${name} {branch}", values, "posix")).toBe("echo ${name} {branch}");
+  });
+
+  it("builds editor and command actions", () => {
+    expect(getActionCommands({ type: "editor", label: "Edit" }, values, { EDITOR: "vim" }, "posix"))
+      .toEqual(["cd '/work/it'\\''s here'", "vim '/work/it'\\''s here'"]);
+    expect(getActionCommands({ type: "editor", label: "Edit" }, values, { VISUAL: "code -n", EDITOR: "vim" }, "fish"))
+      .toEqual(["cd '/work/it\\'s here'", "code -n '/work/it\\'s here'"]);
+    expect(getActionCommands({ type: "editor", label: "Edit" }, values, {}, "posix")).toMatch(/\$EDITOR/);
+    expect(getActionCommands({ type: "editor", label: "Idea", command: "idea {path}" }, values, {}, "posix"))
+      .toEqual(["idea '/work/it'\\''s here'"]);
+
+    expect(getActionCommands({ type: "command", label: "Test", command: "cd {path} && npm test" }, values, {}, "posix"))
+      .toEqual(["cd '/work/it'\\''s here' && npm test"]);
+    expect(getActionCommands({ type: "command", label: "Empty", command: " " }, values, {}, "posix"))
+      .toBe('"Empty" has no command');
+  });
+
+  it("copies with a clipboard tool, or through the terminal when there is none", () => {
+    const write = vi.fn();
+
+    copyToClipboard("/work/app", write);
+    expect(execFileSync).toHaveBeenCalledWith(expect.any(String), expect.any(Array), expect.objectContaining({ input: "/work/app" }));
+    expect(write).not.toHaveBeenCalled();
+
+    execFileSync.mockImplementation(() => {
+      throw new Error("not found");
+    });
+    copyToClipboard("/work/app", write);
+    expect(write).toHaveBeenCalledWith(`\u001B]52;c;${Buffer.from("/work/app").toString("base64")}\u0007`);
+  });
+});
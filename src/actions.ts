@@ -0,0 +1,88 @@
+import { execFileSync } from "node:child_process";
+import type { ProjectAction, ProjectActionType } from "./types.js";
+import {
+  cdCommand,
+  detectCommandShell,
+  escapeInDoubleQuotes,
+  quoteArg,
+  quoteContextAt,
+  type CommandShell,
+} from "./quoting.js";
+
+// {path} and {name}, but not shell expansions like ${name}
+const TEMPLATE_PATTERN = /(?<!\$)\{(path|name)\}/g;
+
+export const ACTION_TYPE_LABELS: Record<ProjectActionType, string> = {
+  cd: "Go to project",
+  editor: "Open in editor",
+  reveal: "Open in file manager",
+  copy: "Copy path",
+  runShortcut: "Run a shortcut",
+  addShortcut: "Create shortcut",
+  command: "Run command",
+};
+
+/**
+ * Fills {path} and {name} into a command template, quoted for the shell that will run it.
+ * Inside quotes ("{path}") the value becomes part of the quoted text.
+ */
+export function expandTemplate(
+  template: string,
+  values: { path: string; name: string },
+  shell: CommandShell = detectCommandShell()
+): string {
+  return template.replace(TEMPLATE_PATTERN, (_, key: "path" | "name", offset: number) => {
+    switch (quoteContextAt(template, offset, shell)) {
+      case "single":
+        return quoteArg(values[key], shell).slice(1, -1);
+      case "double":
+        return escapeInDoubleQuotes(values[key], shell);
+      case "none":
+        return quoteArg(values[key], shell);
+    }
+  });
+}
+
+/**
+ * The commands an "editor" or "command" action leaves for the shell to run, or an
+ * error message when there is nothing to run.
+ */
+export function getActionCommands(
+  action: ProjectAction,
+  values: { path: string; name: string },
+  env: NodeJS.ProcessEnv = process.env,
+  shell: CommandShell = detectCommandShell(env)
+): string[] | string {
+  if (action.type === "editor" && !action.command) {
+    const editor = env.VISUAL || env.EDITOR;
+    if (!editor) return "Set $VISUAL or $EDITOR, or give the editor action a command";
+    // Editors get the project as their working directory as well as their argument
+    return [cdCommand(values.path, shell), `${editor} ${quoteArg(values.path, shell)}`];
+  }
+
+  if (!action.command?.trim()) return `"${action.label}" has no command`;
+  return [expandTemplate(action.command, values, shell)];
+}
+
+// Platform clipboard tools, tried in order
+const CLIPBOARD_TOOLS: Partial<Record<NodeJS.Platform, [string, string[]][]>> = {
+  darwin: [["pbcopy", []]],
+  win32: [["clip", []]],
+  linux: [["wl-copy", []], ["xclip", ["-selection", "clipboard"]], ["xsel", ["--clipboard", "--input"]]],
+};
+
+/**
+ * Copies text with the platform's clipboard tool. Without one (e.g. over SSH), falls
+ * back to the OSC 52 escape sequence, which most terminals forward to the clipboard.
+ */
+export function copyToClipboard(text: string, write: (data: string) => void): void {
+  for (const [tool, args] of CLIPBOARD_TOOLS[process.platform] ?? []) {
+    try {
+      execFileSync(tool, args, { input: text, stdio: ["pipe", "ignore", "ignore"], timeout: 2000, windowsHide: true });
+      return;
+    } catch {
+      // Not installed or no display; try the next one
+    }
+  }
+  write(`\u001B]52;c;${Buffer.from(text).toString("base64")}\u0007`);
+}
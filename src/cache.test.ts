@@ -2,7 +2,7 @@ import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "nod
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, describe, expect, it, vi } from "vitest";
-import type { Project } from "./types.js";
+import type { Project, ProjectRoot } from "./types.js";
 
 let home: string | null = null;
 
@@ -27,35 +27,71 @@ afterEach(() => {
 
 describe("cache", () => {
   const projects: Project[] = [
-    { name: "app", path: "/work/app", isGitRepo: true },
+    { name: "app", path: "/work/app", kind: "git" },
   ];
+  const roots: ProjectRoot[] = [
+    { path: "/work", maxDepth: 4, skipDirs: "node_modules" },
+    { path: "/oss", label: "Open source", maxDepth: 2, skipDirs: "" },
+  ];
+  const config = { roots, projectMarkers: ".git,package.json" };
 
   it("returns null when cache is missing", async () => {
     const cache = await importCache();
 
-    expect(cache.loadCache("/work", 4, "node_modules")).toBeNull();
-    await expect(cache.loadCacheAsync("/work", 4, "node_modules")).resolves.toBeNull();
+    expect(cache.loadCache(config)).toBeNull();
+    await expect(cache.loadCacheAsync(config)).resolves.toBeNull();
   });
 
   it("saves and loads cache entries for matching settings", async () => {
     const cache = await importCache();
     mkdirSync(join(home!, ".dash-cli"), { recursive: true });
 
-    cache.saveCache(projects, "/work", 4, "node_modules");
+    cache.saveCache(projects, config);
 
-    expect(cache.loadCache("/work", 4, "node_modules")).toEqual(projects);
-    await expect(cache.loadCacheAsync("/work", 4, "node_modules")).resolves.toEqual(projects);
+    expect(cache.loadCache(config)).toEqual(projects);
+    await expect(cache.loadCacheAsync(config)).resolves.toEqual(projects);
   });
 
   it("rejects cache entries for different settings", async () => {
     const cache = await importCache();
     mkdirSync(join(home!, ".dash-cli"), { recursive: true });
 
-    cache.saveCache(projects, "/work", 4, "node_modules");
+    cache.saveCache(projects, config);
+
+    expect(cache.loadCache({ ...config, roots: [roots[0]] })).toBeNull();
+    expect(cache.loadCache({ ...config, roots: [{ ...roots[0], maxDepth: 5 }, roots[1]] })).toBeNull();
+    expect(cache.loadCache({ ...config, roots: [roots[0], { ...roots[1], label: "OSS" }] })).toBeNull();
+    expect(cache.loadCache({ ...config, projectMarkers: ".git" })).toBeNull();
+    await expect(cache.loadCacheAsync({ ...config, roots: [roots[0], { ...roots[1], skipDirs: "dist" }] })).resolves.toBeNull();
+  });
+
+  it("keeps the scan index apart from the cache, for matching settings only", async () => {
+    const cache = await importCache();
+    mkdirSync(join(home!, ".dash-cli"), { recursive: true });
+    const index = { "/work": { "/work": { mtime: 1, markers: [], dirs: ["app"] } } };
+
+    await expect(cache.loadScanIndexAsync(config)).resolves.toEqual({});
+    cache.saveScanIndex(index, config);
 
-    expect(cache.loadCache("/other", 4, "node_modules")).toBeNull();
-    expect(cache.loadCache("/work", 5, "node_modules")).toBeNull();
-    await expect(cache.loadCacheAsync("/work", 4, "dist")).resolves.toBeNull();
+    await expect(cache.loadScanIndexAsync(config)).resolves.toEqual(index);
+    await expect(cache.loadScanIndexAsync({ ...config, projectMarkers: ".git" })).resolves.toEqual({});
+    cache.clearCache();
+    await expect(cache.loadScanIndexAsync(config)).resolves.toEqual({});
+  });
+
+  it("ignores caches written before multiple roots", async () => {
+    const cache = await importCache();
+    const configDir = join(home!, ".dash-cli");
+    mkdirSync(configDir, { recursive: true });
+    writeFileSync(join(configDir, "cache.json"), JSON.stringify({
+      projects,
+      projectsDir: "/work",
+      maxDepth: 4,
+      skipDirs: "node_modules",
+      timestamp: 1,
+    }));
+
+    expect(cache.loadCache({ ...config, roots: [roots[0]] })).toBeNull();
   });
 
   it("returns null for invalid cache JSON", async () => {
@@ -64,19 +100,19 @@ describe("cache", () => {
     mkdirSync(configDir, { recursive: true });
     writeFileSync(join(configDir, "cache.json"), "{not-json");
 
-    expect(cache.loadCache("/work", 4, "node_modules")).toBeNull();
-    await expect(cache.loadCacheAsync("/work", 4, "node_modules")).resolves.toBeNull();
+    expect(cache.loadCache(config)).toBeNull();
+    await expect(cache.loadCacheAsync(config)).resolves.toBeNull();
   });
 
   it("clears existing cache data", async () => {
     const cache = await importCache();
     const configDir = join(home!, ".dash-cli");
     mkdirSync(configDir, { recursive: true });
-    cache.saveCache(projects, "/work", 4, "node_modules");
+    cache.saveCache(projects, config);
 
     cache.clearCache();
 
     expect(readFileSync(join(configDir, "cache.json"), "utf-8")).toBe("{}");
-    expect(cache.loadCache("/work", 4, "node_modules")).toBeNull();
+    expect(cache.loadCache(config)).toBeNull();
   });
 });
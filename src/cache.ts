@@ -1,25 +1,50 @@
-import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import { readFile, access, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { Project } from "./types.js";
+import type { Project, ProjectRoot, Settings } from "./types.js";
+import type { ScanIndex } from "./scanner.js";
 import { log } from "./logger.js";
+import { writeFileAtomic } from "./storage.js";
 
 const CONFIG_DIR = join(homedir(), ".dash-cli");
 const CACHE_FILE = join(CONFIG_DIR, "cache.json");
+// Kept apart from the cache so showing cached projects on startup doesn't parse it
+const SCAN_INDEX_FILE = join(CONFIG_DIR, "scan-index.json");
+// Bumped when directory records change, so records missing new fields aren't reused
+const SCAN_INDEX_VERSION = 2;
+
+// The settings a scan depends on
+type ScanConfig = Pick<Settings, "roots" | "projectMarkers">;
 
 interface CacheData {
   projects: Project[];
-  projectsDir: string;
-  maxDepth: number;
-  skipDirs: string;
+  roots: ProjectRoot[];
+  projectMarkers: string;
   timestamp: number;
 }
 
+interface ScanIndexData {
+  version?: number;  // Missing on indexes from before repo shortcut files were recorded
+  index: ScanIndex;
+  roots: ProjectRoot[];
+  projectMarkers: string;
+}
+
+/**
+ * A cache is only valid for the roots it was scanned with (paths, labels, depths and skip rules)
+ * and the same project markers. Caches from older versions lack one or the other and never match.
+ */
+function matchesConfig(cache: Pick<CacheData, "roots" | "projectMarkers">, config: ScanConfig): boolean {
+  return Array.isArray(cache.roots)
+    && JSON.stringify(cache.roots) === JSON.stringify(config.roots)
+    && cache.projectMarkers === config.projectMarkers;
+}
+
 /**
  * Load cached scan results if available
  */
-export function loadCache(projectsDir: string, maxDepth: number, skipDirs: string): Project[] | null {
+export function loadCache(config: ScanConfig): Project[] | null {
   log(`loadCache: checking if cache exists at ${CACHE_FILE}`);
   if (!existsSync(CACHE_FILE)) {
     log("loadCache: no cache file");
@@ -34,11 +59,7 @@ export function loadCache(projectsDir: string, maxDepth: number, skipDirs: strin
     log("loadCache: parsed successfully");
 
     // Validate cache matches current settings
-    if (
-      cache.projectsDir !== projectsDir ||
-      cache.maxDepth !== maxDepth ||
-      cache.skipDirs !== skipDirs
-    ) {
+    if (!matchesConfig(cache, config)) {
       log("loadCache: cache settings mismatch");
       return null;
     }
@@ -63,7 +84,7 @@ async function pathExists(path: string): Promise<boolean> {
 /**
  * Load cached scan results (async version)
  */
-export async function loadCacheAsync(projectsDir: string, maxDepth: number, skipDirs: string): Promise<Project[] | null> {
+export async function loadCacheAsync(config: ScanConfig): Promise<Project[] | null> {
   log(`loadCacheAsync: checking if cache exists at ${CACHE_FILE}`);
   if (!await pathExists(CACHE_FILE)) {
     log("loadCacheAsync: no cache file");
@@ -78,15 +99,10 @@ export async function loadCacheAsync(projectsDir: string, maxDepth: number, skip
     log("loadCacheAsync: parsed successfully");
 
     // Validate cache matches current settings
-    if (
-      cache.projectsDir !== projectsDir ||
-      cache.maxDepth !== maxDepth ||
-      cache.skipDirs !== skipDirs
-    ) {
+    if (!matchesConfig(cache, config)) {
       log(`loadCacheAsync: cache settings mismatch`);
-      log(`  cached: dir=${cache.projectsDir}, depth=${cache.maxDepth}`);
-      log(`  current: dir=${projectsDir}, depth=${maxDepth}`);
-      log(`  skipDirs match: ${cache.skipDirs === skipDirs}`);
+      log(`  cached: ${JSON.stringify(cache.roots?.map((root) => root.path))} markers=${cache.projectMarkers}`);
+      log(`  current: ${JSON.stringify(config.roots.map((root) => root.path))} markers=${config.projectMarkers}`);
       return null;
     }
 
@@ -101,23 +117,17 @@ export async function loadCacheAsync(projectsDir: string, maxDepth: number, skip
 /**
  * Save scan results to cache
  */
-export function saveCache(
-  projects: Project[],
-  projectsDir: string,
-  maxDepth: number,
-  skipDirs: string
-): void {
+export function saveCache(projects: Project[], config: ScanConfig): void {
   log(`saveCache: saving ${projects.length} projects to cache`);
   const cache: CacheData = {
     projects,
-    projectsDir,
-    maxDepth,
-    skipDirs,
+    roots: config.roots,
+    projectMarkers: config.projectMarkers,
     timestamp: Date.now(),
   };
 
   try {
-    writeFileSync(CACHE_FILE, JSON.stringify(cache));
+    writeFileAtomic(CACHE_FILE, JSON.stringify(cache));
     log("saveCache: cache saved successfully");
   } catch (e) {
     log(`saveCache: error - ${e}`);
@@ -125,14 +135,46 @@ export function saveCache(
 }
 
 /**
- * Clear the cache
+ * Load the directory index of the last scan, or an empty one when it was made with
+ * other settings
  */
-export function clearCache(): void {
+export async function loadScanIndexAsync(config: ScanConfig): Promise<ScanIndex> {
   try {
-    if (existsSync(CACHE_FILE)) {
-      writeFileSync(CACHE_FILE, "{}");
+    const data: ScanIndexData = JSON.parse(await readFile(SCAN_INDEX_FILE, "utf-8"));
+    if (matchesConfig(data, config) && data.version === SCAN_INDEX_VERSION && data.index) {
+      return data.index;
+    }
+    log("loadScanIndexAsync: index settings mismatch");
+  } catch (e) {
+    log(`loadScanIndexAsync: no index - ${e}`);
+  }
+  return {};
+}
+
+/**
+ * Save the directory index for the next scan to start from
+ */
+export function saveScanIndex(index: ScanIndex, config: ScanConfig): void {
+  const data: ScanIndexData = { version: SCAN_INDEX_VERSION, index, roots: config.roots, projectMarkers: config.projectMarkers };
+
+  try {
+    writeFileAtomic(SCAN_INDEX_FILE, JSON.stringify(data));
+  } catch (e) {
+    log(`saveScanIndex: error - ${e}`);
+  }
+}
+
+/**
+ * Clear the cache, and the scan index so the next scan reads every directory
+ */
+export function clearCache(): void {
+  for (const file of [CACHE_FILE, SCAN_INDEX_FILE]) {
+    try {
+      if (existsSync(file)) {
+        writeFileAtomic(file, "{}");
+      }
+    } catch {
+      // Ignore
     }
-  } catch {
-    // Ignore
   }
 }
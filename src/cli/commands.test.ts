@@ -1,4 +1,4 @@
-import { mkdtempSync, rmSync } from "node:fs";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
@@ -68,6 +68,262 @@ describe("CLI shortcut commands", () => {
     expect(JSON.parse(logs.at(-1)!)).toEqual({ deleted: true, trigger: "app" });
   });
 
+  it("reports parameters declared by command placeholders", async () => {
+    const { dispatch } = await importCli();
+
+    await dispatch(["add", "deploy", "./deploy.sh {env} {*}", "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({
+      params: [{ name: "env", required: true }, { name: "*", rest: true }],
+    });
+
+    await dispatch(["show", "deploy"]);
+    expect(logs.join("\n")).toContain("Params:   <env> [args...]");
+  });
+
+  it("groups shortcuts and filters them by tag", async () => {
+    const { dispatch } = await importCli();
+
+    await dispatch(["add", "api", "cd /work/api", "--group", "Work", "--tag", "#backend, go"]);
+    await dispatch(["add", "web", "cd /work/web", "--group", "Work", "--tag", "frontend"]);
+    await dispatch(["add", "notes", "code ~/notes"]);
+
+    await dispatch(["list", "--tag", "BACKEND", "--json"]);
+    expect(JSON.parse(logs.at(-1)!).shortcuts).toEqual([
+      expect.objectContaining({ trigger: "api", group: "Work", tags: ["backend", "go"] }),
+    ]);
+
+    logs = [];
+    await dispatch(["list"]);
+    expect(logs.join("\n")).toMatch(/notes[^\n]*\nWork:\n\s+api[^\n]*#backend #go\n\s+web/);
+
+    await dispatch(["edit", "api", "--group", "--tag", "--json"]);
+    expect(JSON.parse(logs.at(-1)!).shortcut).not.toHaveProperty("group");
+    expect(JSON.parse(logs.at(-1)!).shortcut).not.toHaveProperty("tags");
+  });
+
+  it("runs shortcuts by alias and shows their aliases", async () => {
+    const { dispatch } = await importCli();
+
+    await dispatch(["add", "api", "cd /work/api", "--alias", "a, backend"]);
+
+    await dispatch(["show", "BACKEND"]);
+    expect(logs.join("\n")).toContain("Trigger:  api");
+    expect(logs.join("\n")).toContain("Aliases:  a, backend");
+
+    await dispatch(["list"]);
+    expect(logs.at(-1)).toMatch(/^\s+api, a, backend\s+api\s+cd \/work\/api$/);
+
+    await dispatch(["edit", "a", "--alias", "--json"]);
+    expect(JSON.parse(logs.at(-1)!).shortcut).not.toHaveProperty("aliases");
+  });
+
+  it("shows expanded references and follows them through edits and removals", async () => {
+    const { dispatch } = await importCli();
+
+    await dispatch(["add", "build", "npm run build -- --env {env?}"]);
+    await dispatch(["add", "release", "@build {env}", "npm publish"]);
+
+    await dispatch(["show", "release"]);
+    expect(logs.join("\n")).toContain("  Expands to:\n    npm run build -- --env '{env}'\n    npm publish");
+
+    await dispatch(["edit", "build", "--trigger", "compile"]);
+    expect(logs.at(-1)).toBe("  References updated in: release");
+
+    await dispatch(["show", "release", "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({ shortcut: { command: ["@compile {env}", "npm publish"] } });
+
+    await dispatch(["rm", "compile"]);
+    expect(logs.at(-1)).toContain("Warning: still referenced by release");
+
+    await dispatch(["show", "release", "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({ expandError: 'Shortcut not found: compile (referenced by "release")' });
+  });
+
+  it("exports shortcuts and imports them with a conflict strategy", async () => {
+    const { dispatch } = await importCli();
+    const file = join(home!, "shared.json");
+
+    await dispatch(["add", "api", "cd /work/api", "--tag", "work"]);
+    await dispatch(["add", "notes", "code ~/notes"]);
+    await dispatch(["export", "--tag", "work", "--file", file, "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toEqual({ exported: 1, file });
+    expect(JSON.parse(readFileSync(file, "utf-8")).shortcuts).toEqual([
+      expect.objectContaining({ trigger: "api", command: ["cd /work/api"], tags: ["work"] }),
+    ]);
+
+    await dispatch(["import", file, "--on-conflict", "rename", "--dry-run", "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({
+      dryRun: true,
+      added: ["api-2"],
+      commands: [{ trigger: "api-2", command: ["cd /work/api"] }],
+      renamed: [{ from: "api", to: "api-2" }],
+    });
+    await dispatch(["list", "--json"]);
+    expect(JSON.parse(logs.at(-1)!).shortcuts).toHaveLength(2);
+
+    // The imported commands are only saved after a review
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    await expect(dispatch(["import", file, "--replace", "--on-conflict", "skip"])).rejects.toThrow("exit");
+    expect(errors.at(-1)).toContain("Not importing commands without review");
+    logs = [];
+    await dispatch(["import", file, "--replace", "--dry-run"]);
+    expect(logs.slice(0, 3)).toEqual(["Commands to import:", "  api", "    cd /work/api"]);
+    await dispatch(["list", "--json"]);
+    expect(JSON.parse(logs.at(-1)!).shortcuts).toHaveLength(2);
+
+    logs = [];
+    await dispatch(["import", file, "--replace", "--on-conflict", "skip", "--yes"]);
+    expect(logs).toEqual(["✓ Imported 1 shortcut(s)", "  removed:  api, notes", "  added:    api"]);
+    await dispatch(["list", "--json"]);
+    expect(JSON.parse(logs.at(-1)!).shortcuts.map((s: { trigger: string }) => s.trigger)).toEqual(["api"]);
+  });
+
+  it("tracks visits to the project containing a directory", async () => {
+    const { dispatch } = await importCli();
+    const projectsDir = join(home!, "projects");
+    mkdirSync(join(projectsDir, "work", "api", ".git"), { recursive: true });
+    mkdirSync(join(projectsDir, "work", "api", "src"));
+    mkdirSync(join(home!, ".dash-cli"));
+    writeFileSync(join(home!, ".dash-cli", "settings.json"), JSON.stringify({ projectsDir }));
+
+    await dispatch(["track", join(projectsDir, "work", "api", "src"), "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toEqual({ tracked: true, path: join(projectsDir, "work", "api") });
+
+    await dispatch(["track", join(projectsDir, "work", "api"), "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({ tracked: false });
+
+    await dispatch(["track", home!, "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toEqual({ tracked: false });
+
+    const history = JSON.parse(readFileSync(join(home!, ".dash-cli", "history.json"), "utf-8"));
+    expect(history.recent).toMatchObject([{ path: join(projectsDir, "work", "api"), displayName: "work/api", visits: 1 }]);
+  });
+
+  it("never fails the shell hook when the history can't be written", async () => {
+    const { dispatch } = await importCli();
+    const projectsDir = join(home!, "projects");
+    mkdirSync(join(projectsDir, "api", ".git"), { recursive: true });
+    mkdirSync(join(home!, ".dash-cli"));
+    writeFileSync(join(home!, ".dash-cli", "settings.json"), JSON.stringify({ projectsDir }));
+    // A corrupt history is set aside, and nothing is written until doctor has looked at it
+    writeFileSync(join(home!, ".dash-cli", "history.json"), "{");
+
+    await dispatch(["track", join(projectsDir, "api"), "--json"]);
+
+    expect(JSON.parse(logs.at(-1)!)).toEqual({ tracked: false, path: join(projectsDir, "api") });
+    expect(errors).toEqual([expect.stringContaining("history.json is corrupt")]);
+  });
+
+  it("prints completion scripts covering the command registry", async () => {
+    const { dispatch } = await importCli();
+    const write = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+
+    await dispatch(["completions", "bash"]);
+
+    const script = String(write.mock.calls.at(-1)?.[0]);
+    expect(script).toContain("add list show edit rm export import track completions doctor trust help");
+    expect(script).toContain("edit) COMPREPLY=($(compgen -W \"$(command dash-cli -- completions --list --user 2>/dev/null) --name --trigger --alias --command --case-sensitive --group --tag --json\"");
+  });
+
+  it("lists triggers, aliases and repo triggers for completion", async () => {
+    const { dispatch } = await importCli();
+    const { saveCache } = await import("../cache.js");
+    const { loadSettings } = await import("../settings.js");
+    const project = join(home!, "api");
+    mkdirSync(project);
+    writeFileSync(join(project, ".dash.json"), JSON.stringify({ shortcuts: [{ trigger: "test", aliases: ["t"], command: "npm test" }] }));
+    saveCache([{ name: "api", path: project, shortcutsFile: join(project, ".dash.json") }], loadSettings());
+    await dispatch(["add", "web", "cd /work/web", "--alias", "w"]);
+
+    logs = [];
+    await dispatch(["completions", "--list"]);
+    expect(logs).toEqual(["web", "w", "api:test", "api:t"]);
+
+    // show, edit and rm only work on the user's own shortcuts
+    logs = [];
+    await dispatch(["completions", "--list", "--user"]);
+    expect(logs).toEqual(["web", "w"]);
+  });
+
+  it("trusts repo shortcut files, lists them and revokes trust", async () => {
+    const { dispatch } = await importCli();
+    const project = join(home!, "api");
+    const file = join(project, ".dash.json");
+    mkdirSync(project, { recursive: true });
+    writeFileSync(file, JSON.stringify({ shortcuts: [{ trigger: "test", command: "npm test" }] }));
+
+    await dispatch(["trust", "allow", file]);
+    expect(logs).toEqual([`${file} defines:\n  api:test\n    npm test`, `✓ Trusted ${file}`]);
+    await dispatch(["trust", "--json"]);
+    expect(JSON.parse(logs.at(-1)!).trusted).toEqual([
+      { file, hash: expect.stringMatching(/^[0-9a-f]{64}$/), trustedAt: expect.any(Number) },
+    ]);
+
+    await dispatch(["trust", "revoke", file, "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({ success: true, file });
+    await dispatch(["trust", "list"]);
+    expect(logs.at(-1)).toBe("No trusted shortcut files");
+
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    await expect(dispatch(["trust", "revoke", file])).rejects.toThrow("exit");
+    expect(errors.at(-1)).toBe(`Error: Not trusted: ${file}`);
+    await expect(dispatch(["trust", "allow"])).rejects.toThrow("exit");
+    expect(errors.at(-1)).toMatch(/^Error: Usage: dash -- trust/);
+  });
+
+  it("diagnoses corrupt config files and repairs them with --fix", async () => {
+    const { dispatch } = await importCli();
+    const dir = join(home!, ".dash-cli");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "shortcuts.json"), "{bad");
+    writeFileSync(join(dir, "history.json"), JSON.stringify({ recent: [] }));
+
+    await dispatch(["doctor", "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({
+      stores: [
+        { name: "shortcuts.json", status: "corrupt", detail: expect.stringContaining("invalid JSON") },
+        { name: "history.json", status: "ok" },
+        { name: "settings.json", status: "missing" },
+        { name: "trust.json", status: "missing" },
+      ],
+      repaired: [],
+    });
+
+    // A store that was quarantined while loading stays blocked until repaired
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    await expect(dispatch(["add", "proj", "cd /work/proj"])).rejects.toThrow("exit");
+    expect(errors.at(-1)).toMatch(/^Error: Not writing shortcuts\.json/);
+    await dispatch(["doctor"]);
+    expect(logs.join("\n")).toContain("✗ shortcuts.json: blocked");
+
+    await dispatch(["doctor", "--fix", "--json"]);
+    const report = JSON.parse(logs.at(-1)!);
+    expect(report.repaired).toEqual([expect.stringMatching(/^shortcuts\.json: started fresh/)]);
+    expect(report.stores[0]).toMatchObject({ status: "ok", corruptCopies: [expect.stringMatching(/\.corrupt$/)] });
+
+    await dispatch(["add", "proj", "cd /work/proj", "--json"]);
+    expect(JSON.parse(logs.at(-1)!)).toMatchObject({ success: true });
+  });
+
+  it("restores a quarantined copy that was fixed by hand", async () => {
+    const { dispatch } = await importCli();
+    const dir = join(home!, ".dash-cli");
+    mkdirSync(dir, { recursive: true });
+    const copy = join(dir, "shortcuts.json.2026-01-01T00-00-00-000Z.corrupt");
+    writeFileSync(copy, JSON.stringify({ shortcuts: [] }));
+
+    await dispatch(["doctor", "--fix"]);
+
+    expect(logs[0]).toBe(`✓ Repaired shortcuts.json: restored from ${copy}`);
+    expect(JSON.parse(readFileSync(join(dir, "shortcuts.json"), "utf-8"))).toEqual({ shortcuts: [] });
+  });
+
   it("shows help for missing or help commands", async () => {
     const { dispatch } = await importCli();
 
@@ -1,25 +1,84 @@
 import type { CommandHandler, OutputFormatter, ShortcutRow } from "./types.js";
-import type { Shortcut } from "../types.js";
+import type { Shortcut, ShortcutUpdate } from "../types.js";
 import {
   getShortcuts,
   getShortcutByTrigger,
+  findReferencing,
+  groupShortcuts,
+  hasTag,
+  shortcutTriggers,
   addShortcut,
+  importShortcuts,
   updateShortcut,
   removeShortcut,
   validateTriggerFormat,
   validateTrigger,
 } from "../shortcuts.js";
+import { expandShortcut, getShortcutParams, formatParams, parseReference, type ShortcutParam } from "../params.js";
+import { basename, dirname, resolve } from "node:path";
+import { writeFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import { loadSettings } from "../settings.js";
+import { loadCache } from "../cache.js";
+import { addRecent, loadHistory } from "../history.js";
+import { findContainingProject, getDisplayName } from "../scanner.js";
+import { getCompletionScript, parseCompletionShell, type CompletionCommand } from "../completions.js";
+import { checkStores, repairStores } from "../doctor.js";
+import { loadAllRepoShortcuts, parseRepoShortcuts } from "../repoShortcuts.js";
+import { describeSource, getTrusted, hashContent, revokeTrust, trustSource } from "../trust.js";
+import { log } from "../logger.js";
+import {
+  CONFLICT_STRATEGIES,
+  exportShortcuts,
+  parseImportFile,
+  planImport,
+  type ConflictStrategy,
+  type ImportReport,
+} from "../transfer.js";
 
 // ============================================================================
 // Command Handlers
 // ============================================================================
 
+// "--alias a,b" sets aliases, "--tag a,b" tags and "--group name" the group; any of them
+// given without a value clears it
+function aliasFlag(flags: Record<string, string | boolean>): string[] | undefined {
+  if (flags.alias === undefined) return undefined;
+  return typeof flags.alias === "string" ? flags.alias.split(",").map((a) => a.trim()).filter(Boolean) : [];
+}
+
+function tagFlag(flags: Record<string, string | boolean>): string[] | undefined {
+  if (flags.tag === undefined) return undefined;
+  return typeof flags.tag === "string" ? [flags.tag] : [];
+}
+
+function groupFlag(flags: Record<string, string | boolean>): string | undefined {
+  if (flags.group === undefined) return undefined;
+  return typeof flags.group === "string" ? flags.group : "";
+}
+
+function formatTags(tags: string[]): string {
+  return tags.map((tag) => `#${tag}`).join(" ");
+}
+
+// Arguments that fill each parameter with its own placeholder, so expanded commands keep them
+function placeholderArgs(params: ShortcutParam[]): string[] {
+  return params.map((p) => (p.rest ? "{*}" : `{${p.name}${p.required ? "" : "?"}}`));
+}
+
+// Triggers of the other shortcuts that reference one, for warnings after changing it
+function formatReferencing(shortcut: Shortcut): string | null {
+  const referencing = findReferencing(shortcut, getShortcuts());
+  return referencing.length > 0 ? referencing.map((s) => s.trigger).join(", ") : null;
+}
+
 /**
- * dash -- add <trigger> <cmd...> [--name "Name"] [--case-sensitive]
+ * dash -- add <trigger> <cmd...> [--name "Name"] [--alias a,b] [--case-sensitive] [--group name] [--tag a,b]
  */
 const handleAdd: CommandHandler = async (args, flags, fmt) => {
   if (args.length < 2) {
-    fmt.error("Usage: dash -- add <trigger> <command...> [--name \"Name\"] [--case-sensitive]");
+    fmt.error("Usage: dash -- add <trigger> <command...> [--name \"Name\"] [--alias a,b] [--case-sensitive] [--group name] [--tag a,b]");
   }
 
   const trigger = args[0];
@@ -44,14 +103,22 @@ const handleAdd: CommandHandler = async (args, flags, fmt) => {
     const shortcut = addShortcut({
       name,
       trigger,
+      aliases: aliasFlag(flags),
       caseSensitive,
       command: commands,
+      group: groupFlag(flags),
+      tags: tagFlag(flags),
     });
 
+    const params = getShortcutParams(shortcut.command);
+
     if (flags.json) {
-      fmt.json({ success: true, shortcut });
+      fmt.json({ success: true, shortcut, params });
     } else {
       fmt.success(`Added: ${shortcut.trigger}`);
+      if (params.length > 0) {
+        console.log(`  Params:   ${formatParams(params)}`);
+      }
     }
   } catch (err) {
     fmt.error(err instanceof Error ? err.message : "Failed to add shortcut");
@@ -59,21 +126,28 @@ const handleAdd: CommandHandler = async (args, flags, fmt) => {
 };
 
 /**
- * dash -- list [--json]
+ * dash -- list [--tag tag] [--json]
  */
 const handleList: CommandHandler = async (_args, flags, fmt) => {
-  const shortcuts = getShortcuts();
+  if (flags.tag === true) {
+    fmt.error("Usage: dash -- list [--tag tag]");
+  }
+
+  const tag = flags.tag;
+  const shortcuts = getShortcuts().filter((s) => typeof tag !== "string" || hasTag(s, tag));
 
   if (flags.json) {
     fmt.json({ shortcuts });
     return;
   }
 
-  const rows: ShortcutRow[] = shortcuts.map((s) => ({
-    trigger: s.trigger,
+  const rows: ShortcutRow[] = groupShortcuts(shortcuts).flatMap((group) => group.shortcuts.map((s) => ({
+    trigger: shortcutTriggers(s).join(", "),
     name: s.name,
     commands: s.command.join(", "),
-  }));
+    ...(group.name !== null ? { group: group.name } : {}),
+    ...(s.tags ? { tags: formatTags(s.tags) } : {}),
+  })));
 
   fmt.table(rows);
 };
@@ -90,30 +164,57 @@ const handleShow: CommandHandler = async (args, flags, fmt) => {
   const shortcut = getShortcutByTrigger(trigger);
 
   if (!shortcut) {
-    fmt.error(`Shortcut not found: ${trigger}`);
+    return fmt.error(`Shortcut not found: ${trigger}`);
   }
 
+  const params = getShortcutParams(shortcut.command);
+  // "@trigger" lines are shown expanded into the commands they stand for
+  const expansion = await expandShortcut(shortcut, placeholderArgs(params), async (t) => getShortcutByTrigger(t))
+    .then(({ commands }) => ({ expanded: commands }), (err: Error) => ({ expandError: err.message }));
+
   if (flags.json) {
-    fmt.json({ shortcut });
+    fmt.json({ shortcut, params, ...expansion });
     return;
   }
 
   // Human-readable detailed view
   console.log(`  Trigger:  ${shortcut.trigger}`);
+  if (shortcut.aliases) {
+    console.log(`  Aliases:  ${shortcut.aliases.join(", ")}`);
+  }
   console.log(`  Name:     ${shortcut.name}`);
   console.log(`  Case:     ${shortcut.caseSensitive ? "sensitive" : "insensitive"}`);
+  if (shortcut.group) {
+    console.log(`  Group:    ${shortcut.group}`);
+  }
+  if (shortcut.tags) {
+    console.log(`  Tags:     ${formatTags(shortcut.tags)}`);
+  }
+  if (params.length > 0) {
+    console.log(`  Params:   ${formatParams(params)}`);
+  }
   console.log(`  Commands:`);
   for (const cmd of shortcut.command) {
     console.log(`    ${cmd}`);
   }
+  if (shortcut.command.some((cmd) => parseReference(cmd))) {
+    console.log(`  Expands to:`);
+    if ("expandError" in expansion) {
+      console.log(`    (${expansion.expandError})`);
+    } else {
+      for (const cmd of expansion.expanded) {
+        console.log(`    ${cmd}`);
+      }
+    }
+  }
 };
 
 /**
- * dash -- edit <trigger> [--name] [--trigger] [--command] [--case-sensitive] [--json]
+ * dash -- edit <trigger> [--name] [--trigger] [--alias] [--command] [--case-sensitive] [--group] [--tag] [--json]
  */
 const handleEdit: CommandHandler = async (args, flags, fmt) => {
   if (args.length < 1) {
-    fmt.error("Usage: dash -- edit <trigger> [--name \"Name\"] [--trigger new] [--command \"cmd1\" --command \"cmd2\"] [--case-sensitive]");
+    fmt.error("Usage: dash -- edit <trigger> [--name \"Name\"] [--trigger new] [--alias a,b] [--command \"cmd1\" --command \"cmd2\"] [--case-sensitive] [--group name] [--tag a,b]");
   }
 
   const trigger = args[0];
@@ -124,12 +225,7 @@ const handleEdit: CommandHandler = async (args, flags, fmt) => {
   }
 
   // Build update object from flags
-  const updates: Partial<{
-    name: string;
-    trigger: string;
-    caseSensitive: boolean;
-    command: string[];
-  }> = {};
+  const updates: ShortcutUpdate = {};
 
   if (typeof flags.name === "string") {
     updates.name = flags.name;
@@ -152,6 +248,11 @@ const handleEdit: CommandHandler = async (args, flags, fmt) => {
     updates.trigger = flags.trigger;
   }
 
+  const aliases = aliasFlag(flags);
+  if (aliases !== undefined) {
+    updates.aliases = aliases;
+  }
+
   if (flags["case-sensitive"] !== undefined) {
     updates.caseSensitive = flags["case-sensitive"] === true;
   }
@@ -163,18 +264,38 @@ const handleEdit: CommandHandler = async (args, flags, fmt) => {
       : [flags.command];
   }
 
+  const group = groupFlag(flags);
+  if (group !== undefined) {
+    updates.group = group;
+  }
+
+  const tags = tagFlag(flags);
+  if (tags !== undefined) {
+    updates.tags = tags;
+  }
+
   // Check if any updates provided
   if (Object.keys(updates).length === 0) {
-    fmt.error("No updates provided. Use --name, --trigger, --command, or --case-sensitive");
+    fmt.error("No updates provided. Use --name, --trigger, --alias, --command, --case-sensitive, --group or --tag");
   }
 
   try {
     const updated = updateShortcut(shortcut.id, updates);
+    const params = getShortcutParams(updated.command);
+
+    // References to a trigger it lost were renamed along with it
+    const referencedBy = updated.trigger !== shortcut.trigger ? formatReferencing(updated) : null;
 
     if (flags.json) {
-      fmt.json({ success: true, shortcut: updated });
+      fmt.json({ success: true, shortcut: updated, params });
     } else {
       fmt.success(`Updated: ${updated.trigger}`);
+      if (params.length > 0) {
+        console.log(`  Params:   ${formatParams(params)}`);
+      }
+      if (referencedBy) {
+        console.log(`  References updated in: ${referencedBy}`);
+      }
     }
   } catch (err) {
     fmt.error(err instanceof Error ? err.message : "Failed to update shortcut");
@@ -193,10 +314,15 @@ const handleRm: CommandHandler = async (args, flags, fmt) => {
   const shortcut = getShortcutByTrigger(trigger);
 
   if (!shortcut) {
-    fmt.error(`Shortcut not found: ${trigger}`);
+    return fmt.error(`Shortcut not found: ${trigger}`);
   }
 
-  const deleted = removeShortcut(shortcut.id);
+  let deleted = false;
+  try {
+    deleted = removeShortcut(shortcut.id);
+  } catch (err) {
+    fmt.error(err instanceof Error ? err.message : "Failed to remove shortcut");
+  }
 
   if (!deleted) {
     fmt.error("Failed to remove shortcut");
@@ -206,6 +332,276 @@ const handleRm: CommandHandler = async (args, flags, fmt) => {
     fmt.json({ deleted: true, trigger: shortcut.trigger });
   } else {
     fmt.success(`Removed shortcut: ${shortcut.trigger}`);
+    const referencedBy = formatReferencing(shortcut);
+    if (referencedBy) {
+      console.log(`  Warning: still referenced by ${referencedBy}; those shortcuts will fail until you edit them`);
+    }
+  }
+};
+
+/**
+ * dash -- export [--tag tag] [--file path] [--json]
+ * Prints the shortcuts as JSON for import elsewhere, or writes them to a file.
+ */
+const handleExport: CommandHandler = async (_args, flags, fmt) => {
+  if (flags.tag === true || flags.file === true) {
+    fmt.error("Usage: dash -- export [--tag tag] [--file path]");
+  }
+
+  const data = exportShortcuts(typeof flags.tag === "string" ? flags.tag : undefined);
+  const content = `${JSON.stringify(data, null, 2)}\n`;
+
+  if (typeof flags.file !== "string") {
+    process.stdout.write(content);
+    return;
+  }
+
+  const file = resolve(flags.file);
+  try {
+    writeFileSync(file, content);
+  } catch (err) {
+    fmt.error(`Can't write ${file}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  if (flags.json) {
+    fmt.json({ exported: data.shortcuts.length, file });
+  } else {
+    fmt.success(`Exported ${data.shortcuts.length} shortcut(s) to ${file}`);
+  }
+};
+
+// Imported commands come from someone else's file, so they are shown before they are saved
+function printImportCommands(report: ImportReport): void {
+  console.log("Commands to import:");
+  for (const { trigger, command } of report.commands) {
+    console.log(`  ${trigger}`);
+    for (const line of command) {
+      console.log(`    ${line}`);
+    }
+  }
+}
+
+function printImportReport(report: ImportReport, dryRun: boolean): void {
+  console.log(dryRun
+    ? `Would import ${report.added.length} shortcut(s) (dry run, nothing changed)`
+    : `✓ Imported ${report.added.length} shortcut(s)`);
+  if (report.removed.length > 0) {
+    console.log(`  removed:  ${report.removed.join(", ")}`);
+  }
+  if (report.added.length > 0) {
+    console.log(`  added:    ${report.added.join(", ")}`);
+  }
+  for (const { from, to } of report.renamed) {
+    console.log(`  renamed:  ${from} → ${to}`);
+  }
+  for (const { trigger, reason } of report.skipped) {
+    console.log(`  skipped:  ${trigger} (${reason})`);
+  }
+  for (const { entry, error } of report.invalid) {
+    console.log(`  invalid:  entry ${entry} (${error})`);
+  }
+}
+
+/**
+ * dash -- import <file> [--merge|--replace] [--on-conflict prompt|skip|rename] [--dry-run] [--yes] [--json]
+ * Adds the shortcuts of an export file to the existing ones (--merge, the default) or
+ * instead of them (--replace). Colliding entries are asked about in a terminal and
+ * skipped otherwise, unless --on-conflict says what to do. The imported commands are
+ * shown for confirmation first; outside a terminal --yes is needed to save them.
+ */
+const handleImport: CommandHandler = async (args, flags, fmt) => {
+  const usage = "Usage: dash -- import <file> [--merge|--replace] [--on-conflict prompt|skip|rename] [--dry-run] [--yes]";
+  const strategy = flags["on-conflict"] ?? (process.stdin.isTTY && !flags.json ? "prompt" : "skip");
+  if (args.length < 1 || (flags.merge && flags.replace) || !CONFLICT_STRATEGIES.includes(strategy as ConflictStrategy)) {
+    fmt.error(usage);
+  }
+
+  const file = resolve(args[0]);
+  const entries = await readFile(file, "utf-8")
+    .then(parseImportFile)
+    .catch((err) => fmt.error(`Can't import ${file}: ${err instanceof Error ? err.message : err}`));
+
+  const rl = strategy === "prompt" ? createInterface({ input: process.stdin, output: process.stdout }) : null;
+  const replace = flags.replace === true;
+  const plan = await planImport(entries, {
+    replace,
+    resolveConflict: async (_input, error) => {
+      if (!rl) return strategy === "rename" ? "rename" : "skip";
+      const answer = await new Promise<string>((res) => rl.question(`${error}. [s]kip or [r]ename? `, res));
+      return answer.trim().toLowerCase().startsWith("r") ? "rename" : "skip";
+    },
+  }).finally(() => rl?.close());
+
+  const dryRun = flags["dry-run"] === true;
+  if (!dryRun && plan.inputs.length > 0 && flags.yes !== true) {
+    if (!process.stdin.isTTY || flags.json) {
+      fmt.error("Not importing commands without review. Check them with --dry-run, then import with --yes");
+    }
+    printImportCommands(plan.report);
+    const confirm = createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await new Promise<string>((res) => confirm.question("Save these commands as shortcuts? [y/N] ", res))
+      .finally(() => confirm.close());
+    if (!answer.trim().toLowerCase().startsWith("y")) {
+      console.log("Nothing imported");
+      return;
+    }
+  }
+  if (!dryRun) {
+    try {
+      importShortcuts(plan.inputs, replace);
+    } catch (err) {
+      fmt.error(err instanceof Error ? err.message : "Failed to import shortcuts");
+    }
+  }
+
+  if (flags.json) {
+    fmt.json({ dryRun, ...plan.report });
+  } else {
+    if (dryRun && plan.inputs.length > 0) printImportCommands(plan.report);
+    printImportReport(plan.report, dryRun);
+  }
+};
+
+/**
+ * dash -- track <path> [--json]
+ * Called by the shell hook on directory changes; records the containing project.
+ */
+const handleTrack: CommandHandler = async (args, flags, fmt) => {
+  if (args.length < 1) {
+    fmt.error("Usage: dash -- track <path>");
+  }
+
+  const settings = loadSettings();
+  const cached = loadCache(settings);
+  const projectPath = findContainingProject(resolve(args[0]), settings, cached);
+
+  if (!projectPath) {
+    if (flags.json) {
+      fmt.json({ tracked: false });
+    }
+    return;
+  }
+
+  // Moving around inside the project you were already in is not a new visit
+  let tracked = false;
+  try {
+    if (loadHistory().recent[0]?.path !== projectPath) {
+      addRecent(projectPath, getDisplayName(projectPath, settings.roots));
+      tracked = true;
+    }
+  } catch (err) {
+    // The shell hook runs this on every cd, so a history that can't be written is only logged
+    log(`track: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (flags.json) {
+    fmt.json({ tracked, path: projectPath });
+  }
+};
+
+// Triggers and aliases to complete: the user's own, then those of the cached projects'
+// repo shortcut files unless only the user's are wanted (show, edit and rm)
+function completionTriggers(userOnly: boolean): string[] {
+  const own = getShortcuts().flatMap(shortcutTriggers);
+  if (userOnly) return own;
+  const repo = loadAllRepoShortcuts(loadCache(loadSettings()) ?? []).flatMap(shortcutTriggers);
+  return [...new Set([...own, ...repo])];
+}
+
+/**
+ * dash -- completions <bash|zsh|fish|powershell>
+ * dash -- completions --list [--user]
+ * Prints the tab completion script for the shell, or the triggers it completes, one per line.
+ */
+const handleCompletions: CommandHandler = async (args, flags, fmt) => {
+  if (flags.list) {
+    for (const trigger of completionTriggers(flags.user === true)) {
+      console.log(trigger);
+    }
+    return;
+  }
+
+  const shell = parseCompletionShell(args[0]) ?? fmt.error("Usage: dash -- completions <bash|zsh|fish|powershell>");
+
+  process.stdout.write(getCompletionScript(shell, getCompletionCommands()));
+};
+
+/**
+ * dash -- doctor [--fix] [--json]
+ * Checks the config stores for corruption; --fix restores or resets them.
+ */
+const handleDoctor: CommandHandler = async (_args, flags, fmt) => {
+  const repaired = flags.fix === true ? repairStores() : [];
+  const stores = checkStores();
+
+  if (flags.json) {
+    fmt.json({ stores, repaired });
+    return;
+  }
+
+  for (const action of repaired) {
+    fmt.success(`Repaired ${action}`);
+  }
+  for (const store of stores) {
+    const mark = store.status === "ok" || store.status === "missing" ? "✓" : "✗";
+    console.log(`${mark} ${store.name}: ${store.status}${store.detail ? ` (${store.detail})` : ""}`);
+    for (const copy of store.corruptCopies) {
+      console.log(`    corrupt copy: ${copy}`);
+    }
+  }
+  if (stores.some((store) => store.status === "corrupt" || store.status === "blocked")) {
+    console.log('\nRun "dash-cli -- doctor --fix" to repair. Fix a corrupt copy by hand first to have it restored.');
+  }
+};
+
+/**
+ * dash -- trust [list | allow <file> | revoke <file>] [--json]
+ * Lists the shortcut files trusted to run, trusts a file as it is now after showing what
+ * it defines, or revokes trust so the file needs a review again.
+ */
+const handleTrust: CommandHandler = async (args, flags, fmt) => {
+  const [action = "list", fileArg] = args;
+
+  if (action === "list") {
+    const trusted = getTrusted();
+    if (flags.json) {
+      fmt.json({ trusted });
+    } else if (trusted.length === 0) {
+      console.log("No trusted shortcut files");
+    } else {
+      for (const entry of trusted) {
+        console.log(`${entry.file}  (trusted ${new Date(entry.trustedAt).toLocaleString()}, sha256 ${entry.hash.slice(0, 12)})`);
+      }
+    }
+    return;
+  }
+
+  if ((action !== "allow" && action !== "revoke") || fileArg === undefined) {
+    return fmt.error("Usage: dash -- trust [list | allow <file> | revoke <file>]");
+  }
+  const file = resolve(fileArg);
+
+  if (action === "revoke") {
+    let revoked = false;
+    try {
+      revoked = revokeTrust(file);
+    } catch (err) {
+      fmt.error(err instanceof Error ? err.message : "Failed to revoke trust");
+    }
+    if (!revoked) fmt.error(`Not trusted: ${file}`);
+    fmt.success(`Revoked trust in ${file}`, { file });
+    return;
+  }
+
+  const content = await readFile(file, "utf-8")
+    .catch((err) => fmt.error(`Can't read ${file}: ${err instanceof Error ? err.message : err}`));
+  const shortcuts = parseRepoShortcuts(content, { name: basename(dirname(file)), path: dirname(file) }, file);
+  try {
+    const entry = trustSource({ file, hash: hashContent(content) });
+    if (!flags.json) console.log(describeSource(file, shortcuts).join("\n"));
+    fmt.success(`Trusted ${file}`, { trusted: entry, triggers: shortcuts.map((s) => s.trigger) });
+  } catch (err) {
+    fmt.error(err instanceof Error ? err.message : "Failed to trust file");
   }
 };
 
@@ -219,29 +615,89 @@ export const commands: Record<string, CommandHandler> = {
   show: handleShow,
   edit: handleEdit,
   rm: handleRm,
+  export: handleExport,
+  import: handleImport,
+  track: handleTrack,
+  completions: handleCompletions,
+  doctor: handleDoctor,
+  trust: handleTrust,
 };
 
+/**
+ * Flags each command accepts, and whether its first argument is a trigger.
+ * Keep in sync with the handlers above; shell completion is generated from it.
+ */
+const commandArgs: Record<string, { flags: string[]; trigger?: boolean }> = {
+  add: { flags: ["--name", "--alias", "--case-sensitive", "--group", "--tag", "--json"] },
+  list: { flags: ["--tag", "--json"] },
+  show: { flags: ["--json"], trigger: true },
+  edit: { flags: ["--name", "--trigger", "--alias", "--command", "--case-sensitive", "--group", "--tag", "--json"], trigger: true },
+  rm: { flags: ["--json"], trigger: true },
+  export: { flags: ["--tag", "--file", "--json"] },
+  import: { flags: ["--merge", "--replace", "--on-conflict", "--dry-run", "--yes", "--json"] },
+  track: { flags: ["--json"] },
+  completions: { flags: ["--list", "--user"] },
+  doctor: { flags: ["--fix", "--json"] },
+  trust: { flags: ["--json"] },
+};
+
+export function getCompletionCommands(): CompletionCommand[] {
+  return [...Object.keys(commands), "help"].map((name) => ({
+    name,
+    flags: commandArgs[name]?.flags ?? [],
+    trigger: commandArgs[name]?.trigger ?? false,
+  }));
+}
+
 export function showHelp(fmt: OutputFormatter): void {
   console.log(`Usage: dash -- <command> [args] [flags]
 
 Commands:
-  add <trigger> <cmd...>  Add shortcut (--name, --case-sensitive)
-  list                    List all shortcuts (--json)
+  add <trigger> <cmd...>  Add shortcut (--name, --alias, --case-sensitive, --group, --tag)
+  list                    List all shortcuts by group (--tag, --json)
   show <trigger>          Show shortcut details (--json)
-  edit <trigger>          Edit shortcut (--name, --trigger, --command, --case-sensitive, --json)
+  edit <trigger>          Edit shortcut (--name, --trigger, --alias, --command, --case-sensitive, --group, --tag, --json)
   rm <trigger>            Remove shortcut (--json)
+  export                  Print shortcuts as JSON to share (--tag, --file)
+  import <file>           Import exported shortcuts (--merge, --replace, --on-conflict, --dry-run, --yes, --json)
+  track <path>            Record the project containing <path> as recent (used by the shell hook)
+  completions <shell>     Print the tab completion script (bash, zsh, fish, powershell; --list prints the triggers)
+  doctor                  Check config files for corruption (--fix to repair, --json)
+  trust [list]            List shortcut files trusted to run (--json)
+  trust allow <file>      Review and trust a project's .dash.json as it is now
+  trust revoke <file>     Stop trusting a shortcut file
 
 Flags:
   --json                  Output in JSON format
   --name "Name"           Set display name
   --case-sensitive        Make trigger case-sensitive
   --command "cmd"         Set command(s)
+  --alias a,b             Other triggers for the shortcut (no value: none)
+  --group "Group"         Put the shortcut in a group (no value: ungrouped)
+  --tag a,b               Set tags; with list, show only shortcuts tagged "a" (no value: no tags)
+  --fix                   Repair corrupt config files (doctor)
+  --file path             Write the export to a file instead of printing it
+  --merge / --replace     Add imported shortcuts to the existing ones (default) or replace them all
+  --on-conflict mode      What to do with imported triggers that are taken: prompt, skip or rename
+                          (default: prompt in a terminal, otherwise skip)
+  --dry-run               Report what import would change without saving
+  --yes                   Save imported commands without asking (needed outside a terminal)
+
+Parameters:
+  Commands may contain placeholders filled from extra trigger arguments:
+  {1}, {2}  positional    {name}  named    {name?}  optional    {*}  all remaining
 
 Examples:
   dash -- add proj "cd /projects/myproj" "code ."
+  dash -- add deploy "./deploy.sh {env} {*}"
   dash -- add proj "cd /foo" --name "My Project"
   dash -- list --json
+  dash -- add api "cd /work/api" --group Work --tag backend,go
+  dash -- list --tag backend
   dash -- show proj
   dash -- edit proj --name "New Name" --case-sensitive
-  dash -- rm proj`);
+  dash -- rm proj
+  dash -- export --tag work --file work-shortcuts.json
+  dash -- import work-shortcuts.json --on-conflict rename --dry-run
+  dash -- trust allow ~/work/api/.dash.json`);
 }
@@ -21,10 +21,15 @@ export class HumanFormatter implements OutputFormatter {
     const nameWidth = Math.max(4, ...rows.map((r) => r.name.length));
 
     console.log("Shortcuts:");
+    let group: string | undefined;
     for (const row of rows) {
+      if (row.group !== group) {
+        group = row.group;
+        console.log(`${group}:`);
+      }
       const trigger = row.trigger.padEnd(triggerWidth);
       const name = row.name.padEnd(nameWidth);
-      console.log(`  ${trigger}  ${name}  ${row.commands}`);
+      console.log(`  ${trigger}  ${name}  ${row.commands}${row.tags ? `  ${row.tags}` : ""}`);
     }
   }
 
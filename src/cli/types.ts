@@ -17,6 +17,8 @@ export interface ShortcutRow {
   trigger: string;
   name: string;
   commands: string;
+  group?: string;  // Rows of a group follow each other, under its name
+  tags?: string;
 }
 
 export type CommandHandler = (
@@ -0,0 +1,56 @@
+import { spawnSync } from "node:child_process";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { getCompletionScript, parseCompletionShell, type CompletionCommand } from "./completions.js";
+
+const commands: CompletionCommand[] = [
+  { name: "add", flags: ["--name", "--json"], trigger: false },
+  { name: "show", flags: ["--json"], trigger: true },
+  { name: "help", flags: [], trigger: false },
+];
+
+describe("completions", () => {
+  it("parses shell names", () => {
+    expect(parseCompletionShell("zsh")).toBe("zsh");
+    expect(parseCompletionShell("pwsh")).toBe("powershell");
+    expect(parseCompletionShell("tcsh")).toBeNull();
+    expect(parseCompletionShell(undefined)).toBeNull();
+  });
+
+  it("bakes in subcommands and flags and asks dash-cli for triggers", () => {
+    for (const shell of ["bash", "zsh", "fish", "powershell"] as const) {
+      const script = getCompletionScript(shell, commands);
+      expect(script.startsWith("# Dash CLI: tab completion")).toBe(true);
+      expect(script).toContain("completions --list --user");
+      expect(script).toMatch(/add\W+list|add\W+show/);
+      expect(script).toContain("--name");
+    }
+
+    const bash = getCompletionScript("bash", commands);
+    expect(bash).toContain('show) COMPREPLY=($(compgen -W "$(command dash-cli -- completions --list --user 2>/dev/null) --json" -- "$cur")) ;;');
+    expect(bash).not.toContain("help)");
+    expect(bash.trimEnd().split("\n").at(-1)).toBe("complete -F _dash_complete dash d dash-cli");
+  });
+
+  it("completes aliases and repo triggers in bash", () => {
+    const bin = mkdtempSync(join(tmpdir(), "dash-completions-"));
+    try {
+      // Stands in for dash-cli, listing what the real one would
+      writeFileSync(join(bin, "dash-cli"), '#!/bin/sh\n[ "$4" = "--user" ] && echo "web w" || echo "web w api:test api:t"\n');
+      chmodSync(join(bin, "dash-cli"), 0o755);
+      const complete = (...words: string[]) => spawnSync("bash", ["-c", [
+        getCompletionScript("bash", commands),
+        `COMP_WORDS=(${words.map((word) => `'${word}'`).join(" ")}); COMP_CWORD=${words.length - 1}`,
+        '_dash_complete; printf "%s\\n" "${COMPREPLY[@]}"',
+      ].join("\n")], { encoding: "utf-8", env: { ...process.env, PATH: `${bin}${delimiter}${process.env.PATH}` } }).stdout.trim().split("\n");
+
+      expect(complete("dash", "w")).toEqual(["web", "w"]);
+      expect(complete("dash", "a")).toEqual(["api:test", "api:t"]);
+      expect(complete("dash", "--", "show", "")).toEqual(["web", "w", "--json"]);
+    } finally {
+      rmSync(bin, { recursive: true, force: true });
+    }
+  });
+});
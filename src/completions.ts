@@ -0,0 +1,177 @@
+// Tab completion scripts for the dash wrapper.
+// Triggers (with aliases and repo triggers) come from "dash-cli -- completions --list" when
+// completing; subcommands and flags are baked in when the script is generated.
+
+export type CompletionShell = "bash" | "zsh" | "fish" | "powershell";
+
+export interface CompletionCommand {
+  name: string;
+  flags: string[];
+  trigger: boolean;  // First argument is an existing trigger (show, edit, rm)
+}
+
+export const COMPLETION_MARKER = "# Dash CLI: tab completion";
+
+// dash-cli arguments that list the triggers to complete: every runnable one, or only the
+// user's own for show, edit and rm
+const LIST_TRIGGERS = "completions --list";
+const LIST_USER_TRIGGERS = "completions --list --user";
+
+export function parseCompletionShell(shell: string | undefined): CompletionShell | null {
+  if (shell === "bash" || shell === "zsh" || shell === "fish" || shell === "powershell") {
+    return shell;
+  }
+  if (shell === "pwsh") {
+    return "powershell";
+  }
+  return null;
+}
+
+function getBashCompletion(commands: CompletionCommand[]): string {
+  const cases = commands
+    .filter((command) => command.flags.length > 0 || command.trigger)
+    .map((command) => {
+      const triggers = command.trigger ? [`$(command dash-cli -- ${LIST_USER_TRIGGERS} 2>/dev/null)`] : [];
+      const words = [...triggers, ...command.flags].join(" ");
+      return `            ${command.name}) COMPREPLY=($(compgen -W "${words}" -- "$cur")) ;;`;
+    });
+
+  return [
+    COMPLETION_MARKER,
+    "_dash_complete() {",
+    '    local cur="${COMP_WORDS[COMP_CWORD]}"',
+    "    # bash splits words at the colon of repo triggers (api:test); bash-completion can rejoin them",
+    "    type _get_comp_words_by_ref &>/dev/null && _get_comp_words_by_ref -n : cur",
+    "    COMPREPLY=()",
+    '    if [ "$COMP_CWORD" -ge 2 ] && [ "${COMP_WORDS[1]}" = "--" ]; then',
+    '        if [ "$COMP_CWORD" -eq 2 ]; then',
+    `            COMPREPLY=($(compgen -W "${commands.map((command) => command.name).join(" ")}" -- "$cur"))`,
+    "            return",
+    "        fi",
+    '        case "${COMP_WORDS[2]}" in',
+    ...cases,
+    "        esac",
+    "        return",
+    "    fi",
+    `    COMPREPLY=($(compgen -W "$(command dash-cli -- ${LIST_TRIGGERS} 2>/dev/null)" -- "$cur"))`,
+    '    type __ltrim_colon_completions &>/dev/null && __ltrim_colon_completions "$cur"',
+    "}",
+    "complete -F _dash_complete dash d dash-cli",
+    "",
+  ].join("\n");
+}
+
+function getZshCompletion(commands: CompletionCommand[]): string {
+  const cases = commands
+    .filter((command) => command.flags.length > 0 || command.trigger)
+    .map((command) => {
+      const triggers = command.trigger ? [`\${(f)"$(command dash-cli -- ${LIST_USER_TRIGGERS} 2>/dev/null)"}`] : [];
+      const words = [...triggers, ...command.flags].join(" ");
+      return `            ${command.name}) compadd -- ${words} ;;`;
+    });
+
+  return [
+    COMPLETION_MARKER,
+    "_dash_complete() {",
+    '    if (( CURRENT > 2 )) && [[ "${words[2]}" == "--" ]]; then',
+    "        if (( CURRENT == 3 )); then",
+    `            compadd -- ${commands.map((command) => command.name).join(" ")}`,
+    "            return",
+    "        fi",
+    '        case "${words[3]}" in',
+    ...cases,
+    "        esac",
+    "        return",
+    "    fi",
+    `    compadd -- \${(f)"$(command dash-cli -- ${LIST_TRIGGERS} 2>/dev/null)"}`,
+    "}",
+    "(( $+functions[compdef] )) && compdef _dash_complete dash d dash-cli",
+    "",
+  ].join("\n");
+}
+
+function getFishCompletion(commands: CompletionCommand[]): string {
+  const cases = commands
+    .filter((command) => command.flags.length > 0 || command.trigger)
+    .flatMap((command) => [
+      `            case ${command.name}`,
+      `                printf '%s\\n' ${[
+        ...(command.trigger ? [`(command dash-cli -- ${LIST_USER_TRIGGERS} 2>/dev/null)`] : []),
+        ...command.flags,
+      ].join(" ")}`,
+    ]);
+
+  return [
+    COMPLETION_MARKER,
+    "function __dash_complete",
+    "    set -l tokens (commandline -opc)",
+    '    if test (count $tokens) -ge 2; and test "$tokens[2]" = "--"',
+    "        if test (count $tokens) -eq 2",
+    `            printf '%s\\n' ${commands.map((command) => command.name).join(" ")}`,
+    "            return",
+    "        end",
+    "        switch $tokens[3]",
+    ...cases,
+    "        end",
+    "        return",
+    "    end",
+    `    command dash-cli -- ${LIST_TRIGGERS} 2>/dev/null`,
+    "end",
+    "complete -c dash -f -a '(__dash_complete)'",
+    "complete -c dash-cli -f -a '(__dash_complete)'",
+    "",
+  ].join("\n");
+}
+
+function getPowerShellCompletion(commands: CompletionCommand[]): string {
+  const cases = commands
+    .filter((command) => command.flags.length > 0 || command.trigger)
+    .map((command) => {
+      const words = command.flags.map((flag) => `'${flag}'`).join(", ");
+      const triggers = `@(& dash-cli '--' ${LIST_USER_TRIGGERS} 2>$null)`;
+      const candidates = command.trigger ? (words ? `${triggers} + @(${words})` : triggers) : `@(${words})`;
+      return `            '${command.name}' { $candidates = ${candidates} }`;
+    });
+
+  return [
+    COMPLETION_MARKER,
+    "Register-ArgumentCompleter -Native -CommandName dash, d, dash-cli -ScriptBlock {",
+    "    param($wordToComplete, $commandAst, $cursorPosition)",
+    "    $words = @($commandAst.CommandElements | ForEach-Object { $_.ToString() })",
+    "    if ($wordToComplete) { $words = @($words | Select-Object -SkipLast 1) }",
+    "    if ($words.Count -ge 2 -and $words[1] -eq '--') {",
+    "        $candidates = @()",
+    "        if ($words.Count -eq 2) {",
+    `            $candidates = @(${commands.map((command) => `'${command.name}'`).join(", ")})`,
+    "        } else {",
+    "            switch ($words[2]) {",
+    ...cases.map((line) => `    ${line}`),
+    "            }",
+    "        }",
+    "    } else {",
+    `        $candidates = @(& dash-cli '--' ${LIST_TRIGGERS} 2>$null)`,
+    "    }",
+    "    $candidates | Where-Object { $_ -like \"$wordToComplete*\" } | ForEach-Object {",
+    "        [System.Management.Automation.CompletionResult]::new($_, $_, 'ParameterValue', $_)",
+    "    }",
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Returns the completion script for a shell. Each script is a single function (or script block)
+ * followed by its registration lines, the shape setup knows how to strip again.
+ */
+export function getCompletionScript(shell: CompletionShell, commands: CompletionCommand[]): string {
+  switch (shell) {
+    case "bash":
+      return getBashCompletion(commands);
+    case "zsh":
+      return getZshCompletion(commands);
+    case "fish":
+      return getFishCompletion(commands);
+    case "powershell":
+      return getPowerShellCompletion(commands);
+  }
+}
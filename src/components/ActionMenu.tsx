@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { Box, Text, useInput } from "ink";
+import TextInput from "./TextInput.js";
+import type { ProjectAction, Shortcut } from "../types.js";
+
+interface ActionMenuProps {
+  title: string;
+  path: string;
+  actions: ProjectAction[];
+  shortcuts: Shortcut[];
+  message: string | null;  // Result of the last action that kept the menu open, or an error
+  onAction: (action: ProjectAction) => void;
+  onRunShortcut: (shortcut: Shortcut) => void;
+  onAddShortcut: (trigger: string) => void;
+  review: string[] | null;  // What an untrusted shortcut file defines, while asking to trust it
+  onTrust: () => void;
+  onCancelReview: () => void;
+  onClose: () => void;
+  selectedColor: string;
+  tabBar: React.ReactNode;
+}
+
+type MenuMode = "actions" | "shortcuts" | "trigger";
+
+export function ActionMenu({
+  title,
+  path,
+  actions,
+  shortcuts,
+  message,
+  onAction,
+  onRunShortcut,
+  onAddShortcut,
+  review,
+  onTrust,
+  onCancelReview,
+  onClose,
+  selectedColor,
+  tabBar,
+}: ActionMenuProps) {
+  const [mode, setMode] = useState<MenuMode>("actions");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [shortcutIndex, setShortcutIndex] = useState(0);
+  const [trigger, setTrigger] = useState("");
+
+  const listLength = mode === "shortcuts" ? shortcuts.length : actions.length;
+  const setIndex = mode === "shortcuts" ? setShortcutIndex : setSelectedIndex;
+
+  useInput((input, key) => {
+    // Reviewing a shortcut file: y trusts it and runs the shortcut, anything else goes back
+    if (review) {
+      if (input === "y" || input === "Y") {
+        onTrust();
+      } else if (input === "n" || input === "N" || key.escape) {
+        onCancelReview();
+      }
+      return;
+    }
+
+    // Typing a trigger: TextInput handles everything except escape
+    if (mode === "trigger") {
+      if (key.escape) setMode("actions");
+      return;
+    }
+
+    if (key.escape) {
+      if (mode === "shortcuts") {
+        setMode("actions");
+      } else {
+        onClose();
+      }
+      return;
+    }
+
+    if (key.upArrow) {
+      setIndex((prev) => (prev > 0 ? prev - 1 : Math.max(0, listLength - 1)));
+      return;
+    }
+
+    if (key.downArrow) {
+      setIndex((prev) => (prev < listLength - 1 ? prev + 1 : 0));
+      return;
+    }
+
+    if (key.return) {
+      if (mode === "shortcuts") {
+        const shortcut = shortcuts[shortcutIndex];
+        if (shortcut) onRunShortcut(shortcut);
+        return;
+      }
+
+      const action = actions[selectedIndex];
+      if (action?.type === "runShortcut") {
+        setShortcutIndex(0);
+        setMode("shortcuts");
+      } else if (action?.type === "addShortcut") {
+        setTrigger("");
+        setMode("trigger");
+      } else if (action) {
+        onAction(action);
+      }
+    }
+  });
+
+  const renderRow = (label: string, isSelected: boolean, detail?: string, key?: string) => (
+    <Box key={key}>
+      <Text color={isSelected ? selectedColor : undefined} bold={isSelected}>
+        {isSelected ? "> " : "  "}
+        {label}
+      </Text>
+      {detail && <Text dimColor> {detail}</Text>}
+    </Box>
+  );
+
+  return (
+    <Box flexDirection="column">
+      {tabBar}
+
+      <Box>
+        <Text dimColor>{"  "}── {title} ──────────────────</Text>
+      </Box>
+      <Box>
+        <Text dimColor wrap="truncate-middle">{"  "}{path}</Text>
+      </Box>
+
+      <Box flexDirection="column" marginTop={1}>
+        {review ? (
+          <>
+            <Text color="yellow">{"  "}This shortcut comes from a file you haven't trusted yet:</Text>
+            {review.map((line, idx) => (
+              <Text key={idx} wrap="truncate-end">{"  "}{line}</Text>
+            ))}
+          </>
+        ) : mode === "shortcuts" ? (
+          shortcuts.length === 0 ? (
+            <Text dimColor>{"  "}No shortcuts yet</Text>
+          ) : (
+            shortcuts.map((sc, idx) => renderRow(sc.name, idx === shortcutIndex, `[${sc.trigger}]`, sc.id))
+          )
+        ) : actions.length === 0 ? (
+          <Text dimColor>{"  "}No actions configured (see Project Actions in Settings)</Text>
+        ) : (
+          actions.map((action, idx) => renderRow(action.label, idx === selectedIndex, action.command, String(idx)))
+        )}
+      </Box>
+
+      {mode === "trigger" && (
+        <Box marginTop={1}>
+          <Text>{"  "}Trigger: </Text>
+          <TextInput value={trigger} onChange={setTrigger} onSubmit={() => onAddShortcut(trigger.trim())} focus={true} />
+        </Box>
+      )}
+
+      {message && (
+        <Box marginTop={1}>
+          <Text color="yellow">{"  "}{message}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          {review
+            ? "  y trust file & run • n/esc back"
+            : mode === "trigger"
+              ? "  enter create • esc cancel"
+              : mode === "shortcuts"
+                ? "  ↑↓ select • enter run here • esc back"
+                : "  ↑↓ select • enter run • esc close"}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
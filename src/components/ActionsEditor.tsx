@@ -0,0 +1,233 @@
+import React, { useState } from "react";
+import { Box, Text, useInput } from "ink";
+import TextInput from "./TextInput.js";
+import type { ProjectAction } from "../types.js";
+import { ACTION_TYPES } from "../settings.js";
+import { ACTION_TYPE_LABELS } from "../actions.js";
+
+interface ActionsEditorProps {
+  actions: ProjectAction[];
+  onChange: (actions: ProjectAction[]) => void;
+  onBack: () => void;
+  selectedColor: string;
+  tabBar: React.ReactNode;
+}
+
+type ActionFieldKey = "label" | "type" | "command";
+
+const ACTION_FIELDS: { key: ActionFieldKey; label: string; description: string }[] = [
+  { key: "label", label: "Label", description: "Name shown in the action menu" },
+  { key: "type", label: "Type", description: "What the action does (enter cycles through the types)" },
+  { key: "command", label: "Command", description: "Runs after dash exits; {path} and {name} are filled in (editor: defaults to $EDITOR)" },
+];
+
+function truncate(value: string): string {
+  return value.length > 35 ? value.slice(0, 32) + "..." : value;
+}
+
+// Only "command" and "editor" actions use a command
+function usesCommand(action: ProjectAction): boolean {
+  return action.type === "command" || action.type === "editor";
+}
+
+export function ActionsEditor({ actions, onChange, onBack, selectedColor, tabBar }: ActionsEditorProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [fieldIndex, setFieldIndex] = useState(0);
+  const [editingField, setEditingField] = useState<"label" | "command" | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const openAction = openIndex !== null ? actions[openIndex] : undefined;
+  const isOnAdd = selectedIndex === actions.length;
+  const fields = openAction ? ACTION_FIELDS.filter((f) => f.key !== "command" || usesCommand(openAction)) : [];
+  // Changing the type can hide the command field the cursor was on
+  const currentField = fields[Math.min(fieldIndex, fields.length - 1)];
+
+  const updateAction = (index: number, action: ProjectAction) => {
+    onChange(actions.map((existing, i) => (i === index ? action : existing)));
+  };
+
+  const commitEdit = () => {
+    if (openIndex === null || !editingField || !openAction) return;
+
+    if (editingField === "label") {
+      updateAction(openIndex, { ...openAction, label: editValue.trim() });
+    } else {
+      // An empty command is dropped so an editor action falls back to $EDITOR
+      const { command: _command, ...rest } = openAction;
+      updateAction(openIndex, editValue.trim() ? { ...rest, command: editValue } : rest);
+    }
+    setEditingField(null);
+    setEditValue("");
+  };
+
+  // Leaving an action without a label (e.g. a cancelled add) drops it
+  const closeAction = () => {
+    if (openIndex !== null && openAction && openAction.label.trim() === "") {
+      onChange(actions.filter((_, i) => i !== openIndex));
+      setSelectedIndex(Math.max(0, Math.min(selectedIndex, actions.length - 1)));
+    }
+    setOpenIndex(null);
+    setFieldIndex(0);
+  };
+
+  useInput((input, key) => {
+    // Editing a field: TextInput handles everything except escape
+    if (editingField) {
+      if (key.escape) {
+        setEditingField(null);
+        setEditValue("");
+      }
+      return;
+    }
+
+    // Editing a single action
+    if (openIndex !== null && openAction) {
+      if (key.upArrow) {
+        setFieldIndex((prev) => (prev > 0 ? prev - 1 : fields.length - 1));
+      } else if (key.downArrow) {
+        setFieldIndex((prev) => (prev < fields.length - 1 ? prev + 1 : 0));
+      } else if (key.return) {
+        const field = currentField.key;
+        if (field === "type") {
+          const next = ACTION_TYPES[(ACTION_TYPES.indexOf(openAction.type) + 1) % ACTION_TYPES.length];
+          updateAction(openIndex, { ...openAction, type: next });
+        } else {
+          setEditingField(field);
+          setEditValue(openAction[field] ?? "");
+        }
+      } else if (key.escape) {
+        closeAction();
+      }
+      return;
+    }
+
+    if (confirmDelete) {
+      if (input === "y" || input === "Y") {
+        onChange(actions.filter((_, i) => i !== selectedIndex));
+        setSelectedIndex((prev) => Math.max(0, Math.min(prev, actions.length - 2)));
+      }
+      setConfirmDelete(false);
+      return;
+    }
+
+    // Action list
+    if (key.upArrow) {
+      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : actions.length));
+      return;
+    }
+
+    if (key.downArrow) {
+      setSelectedIndex((prev) => (prev < actions.length ? prev + 1 : 0));
+      return;
+    }
+
+    if (key.return) {
+      if (isOnAdd) {
+        // New actions are commands, opened straight into editing their label
+        onChange([...actions, { type: "command", label: "", command: "" }]);
+        setOpenIndex(actions.length);
+        setEditingField("label");
+        setEditValue("");
+      } else {
+        setOpenIndex(selectedIndex);
+      }
+      setFieldIndex(0);
+      return;
+    }
+
+    // Ctrl+D - remove action
+    if (key.ctrl && input === "d" && !isOnAdd) {
+      setConfirmDelete(true);
+      return;
+    }
+
+    if (key.escape) {
+      onBack();
+    }
+  });
+
+  if (openIndex !== null && openAction) {
+    return (
+      <Box flexDirection="column">
+        {tabBar}
+
+        <Box>
+          <Text dimColor>{"  "}── {openAction.label || "New action"} ──────────────────</Text>
+        </Box>
+
+        {fields.map((field) => {
+          const isSelected = field === currentField;
+          const isFieldEditing = editingField === field.key;
+          const value = field.key === "type" ? ACTION_TYPE_LABELS[openAction.type] : openAction[field.key] ?? "";
+
+          return (
+            <Box key={field.key} flexDirection="row">
+              <Text color={isSelected ? selectedColor : undefined} bold={isSelected}>
+                {isSelected ? "> " : "  "}
+                {field.label.padEnd(20)}
+              </Text>
+              {isFieldEditing ? (
+                <TextInput value={editValue} onChange={setEditValue} onSubmit={commitEdit} focus={true} />
+              ) : (
+                <Text color={isSelected ? selectedColor : "gray"}>{truncate(value)}</Text>
+              )}
+            </Box>
+          );
+        })}
+
+        <Box marginTop={1}>
+          <Text dimColor>{"  "}{currentField.description}</Text>
+        </Box>
+
+        <Box marginTop={1}>
+          <Text dimColor>
+            {editingField ? "  ←→ cursor • enter save • esc cancel" : "  ↑↓ navigate • enter edit • esc back"}
+          </Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {tabBar}
+
+      <Box>
+        <Text dimColor>{"  "}── Project Actions ──────────────────</Text>
+      </Box>
+
+      {actions.length === 0 && (
+        <Box>
+          <Text dimColor>{"  "}No actions yet</Text>
+        </Box>
+      )}
+
+      {actions.map((action, idx) => {
+        const isSelected = idx === selectedIndex;
+
+        return (
+          <Box key={idx}>
+            <Text color={isSelected ? selectedColor : undefined} bold={isSelected}>
+              {isSelected ? "> " : "  "}
+              {action.label}
+            </Text>
+            <Text dimColor> {action.command ? truncate(action.command) : ACTION_TYPE_LABELS[action.type]}</Text>
+            {isSelected && confirmDelete && <Text color="red"> Remove? (y/n)</Text>}
+          </Box>
+        );
+      })}
+
+      <Box>
+        <Text color={isOnAdd ? selectedColor : "cyan"} bold={isOnAdd}>
+          {isOnAdd ? "> " : "  "}[Add action]
+        </Text>
+      </Box>
+
+      <Box marginTop={1}>
+        <Text dimColor>{"  "}↑↓ navigate • enter edit • ctrl+d remove • esc back</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -1,14 +1,16 @@
 import React from "react";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { App } from "./App.js";
-import { DEFAULT_SETTINGS } from "../settings.js";
-import type { HistoryEntry, Project, Shortcut } from "../types.js";
+import { DEFAULT_SETTINGS, createRoot } from "../settings.js";
+import type { HistoryEntry, Project, Shortcut, ShortcutSource } from "../types.js";
 import { renderInk, waitForInk, waitForOutput } from "../test/ink.js";
 
 const mocks = vi.hoisted(() => ({
   scanProjectsAsync: vi.fn(),
   loadCacheAsync: vi.fn(),
   saveCache: vi.fn(),
+  loadScanIndexAsync: vi.fn(async () => ({})),
+  saveScanIndex: vi.fn(),
   addShortcut: vi.fn(),
   removeShortcut: vi.fn(),
   findShortcutByPath: vi.fn(),
@@ -17,45 +19,86 @@ const mocks = vi.hoisted(() => ({
   updateShortcut: vi.fn(),
   validateTrigger: vi.fn(() => ({ valid: true })),
   writeLastCommand: vi.fn(),
+  getRecentAsync: vi.fn(),
+  readGitStatuses: vi.fn(async () => new Map()),
+  loadPreview: vi.fn(),
+  createProjectWatcher: vi.fn(),
+  loadRepoShortcutsAsync: vi.fn(async (_project: Project) => [] as Shortcut[]),
+  untrustedSources: vi.fn(() => [] as ShortcutSource[]),
+  trustSource: vi.fn(),
 }));
 
-vi.mock("../scanner.js", () => ({
+vi.mock("../scanner.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../scanner.js")>()),
   scanProjectsAsync: mocks.scanProjectsAsync,
 }));
 
+vi.mock("../gitStatus.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../gitStatus.js")>()),
+  readGitStatuses: mocks.readGitStatuses,
+}));
+
+vi.mock("../preview.js", () => ({
+  loadPreview: mocks.loadPreview,
+}));
+
+vi.mock("../watcher.js", () => ({
+  createProjectWatcher: mocks.createProjectWatcher,
+}));
+
 vi.mock("../cache.js", () => ({
   loadCacheAsync: mocks.loadCacheAsync,
   saveCache: mocks.saveCache,
+  loadScanIndexAsync: mocks.loadScanIndexAsync,
+  saveScanIndex: mocks.saveScanIndex,
+}));
+
+vi.mock("../shortcuts.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../shortcuts.js")>();
+  return {
+    groupShortcuts: actual.groupShortcuts,
+    matchesTrigger: actual.matchesTrigger,
+    renameReferences: actual.renameReferences,
+    addShortcut: mocks.addShortcut,
+    removeShortcut: mocks.removeShortcut,
+    findShortcutByPath: mocks.findShortcutByPath,
+    generateCommand: mocks.generateCommand,
+    generateUniqueTrigger: mocks.generateUniqueTrigger,
+    updateShortcut: mocks.updateShortcut,
+    validateTrigger: mocks.validateTrigger,
+  };
+});
+
+vi.mock("../repoShortcuts.js", async (importOriginal) => ({
+  findRepoShortcut: () => undefined,
+  loadRepoShortcutsAsync: mocks.loadRepoShortcutsAsync,
+  pickRepoShortcut: (await importOriginal<typeof import("../repoShortcuts.js")>()).pickRepoShortcut,
 }));
 
-vi.mock("../shortcuts.js", () => ({
-  addShortcut: mocks.addShortcut,
-  removeShortcut: mocks.removeShortcut,
-  findShortcutByPath: mocks.findShortcutByPath,
-  generateCommand: mocks.generateCommand,
-  generateUniqueTrigger: mocks.generateUniqueTrigger,
-  updateShortcut: mocks.updateShortcut,
-  validateTrigger: mocks.validateTrigger,
+vi.mock("../trust.js", async (importOriginal) => ({
+  describeSource: (await importOriginal<typeof import("../trust.js")>()).describeSource,
+  untrustedSources: mocks.untrustedSources,
+  trustSource: mocks.trustSource,
 }));
 
 vi.mock("../history.js", () => ({
   writeLastCommand: mocks.writeLastCommand,
+  getRecentAsync: mocks.getRecentAsync,
 }));
 
 const settings = {
   ...DEFAULT_SETTINGS,
-  projectsDir: "/work",
+  roots: [createRoot("/work")],
 };
 
 const projects: Project[] = [
-  { name: "alpha", path: "/work/alpha", isGitRepo: true },
+  { name: "alpha", path: "/work/alpha", kind: "git" },
   {
     name: "group",
     path: "/work/group",
-    isGitRepo: false,
     hasNestedProjects: true,
     nestedProjects: [
-      { name: "child", path: "/work/group/child", isGitRepo: true },
+      { name: "child", path: "/work/group/child", kind: "git" },
     ],
   },
 ];
@@ -108,7 +151,102 @@ describe("App", () => {
     await app.input("\r");
 
     expect(mocks.writeLastCommand).toHaveBeenCalledWith(shortcut.command);
-    expect(mocks.saveCache).toHaveBeenCalledWith(projects, "/work", settings.maxDepth, settings.skipDirs);
+    expect(mocks.saveCache).toHaveBeenCalledWith(projects, settings);
+    expect(mocks.scanProjectsAsync).toHaveBeenCalledWith(settings, expect.objectContaining({ index: {} }));
+    expect(mocks.saveScanIndex).toHaveBeenCalledWith({}, settings);
+    app.cleanup();
+  });
+
+  it("toggles a preview pane for the highlighted project", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    mocks.loadPreview.mockResolvedValue({ readme: ["Alpha does things"], language: "TypeScript", gitLog: ["abc1234 Initial commit"] });
+    const onSettingsSave = vi.fn();
+
+    const { app } = renderApp({ shortcutEntries: [], recentEntries: [], onSettingsSave });
+
+    await waitForOutput(app, "alpha");
+    expect(app.output()).not.toContain("/work/alpha");
+
+    await app.input("\x10");
+    await waitForOutput(app, "Alpha does things");
+    expect(onSettingsSave).toHaveBeenCalledWith(expect.objectContaining({ showPreview: true }));
+    expect(mocks.loadPreview).toHaveBeenCalledWith("/work/alpha");
+    expect(app.output()).toContain("/work/alpha");
+    expect(app.output()).toContain("TypeScript");
+    expect(app.output()).toContain("abc1234 Initial commit");
+
+    await app.input("\x10");
+    expect(onSettingsSave).toHaveBeenLastCalledWith(expect.objectContaining({ showPreview: false }));
+    app.cleanup();
+  });
+
+  it("previews the commands a highlighted shortcut would run", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    mocks.loadPreview.mockResolvedValue({ readme: [], gitLog: [] });
+    const deploy: Shortcut = { ...shortcut, id: "deploy", name: "Deploy", trigger: "deploy", command: ["./deploy.sh {env} {tag?}"], order: 1 };
+
+    const { app } = renderApp({
+      initialSettings: { ...settings, showPreview: true },
+      shortcutEntries: [shortcut, deploy],
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "Runs");
+    expect(app.output()).toContain('  cd "/work/alpha"');
+    expect(app.output()).toContain("  npm test");
+
+    await app.input("\x1b[B");
+    await waitForOutput(app, "Needs arguments: dash deploy <env> [tag]");
+    expect(app.output()).toContain("  ./deploy.sh {env} {tag?}");
+    expect(mocks.writeLastCommand).not.toHaveBeenCalled();
+    app.cleanup();
+  });
+
+  it("expands references to other shortcuts and refuses to run cycles", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    mocks.loadPreview.mockResolvedValue({ readme: [], gitLog: [] });
+    const release: Shortcut = { ...shortcut, id: "release", name: "Release", trigger: "release", command: ["@A", "npm publish"], order: 1 };
+    const loop: Shortcut = { ...shortcut, id: "loop", name: "Loop", trigger: "loop", command: ["@loop"], order: 2 };
+
+    const { app } = renderApp({
+      initialSettings: { ...settings, showPreview: true },
+      shortcutEntries: [shortcut, release, loop],
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "Runs");
+    await app.input("\x1b[B");
+    await waitForOutput(app, "  npm publish");
+    expect(app.output()).toContain('  cd "/work/alpha"');
+
+    await app.input("\x1b[B");
+    await waitForOutput(app, "Shortcut reference cycle: loop → loop");
+    await app.input("\r");
+    expect(mocks.writeLastCommand).not.toHaveBeenCalled();
+
+    await app.input("\x1b[A");
+    await app.input("\r");
+    await vi.waitFor(() => expect(mocks.writeLastCommand).toHaveBeenCalledWith(['cd "/work/alpha"', "npm test", "npm publish"]));
+    app.cleanup();
+  });
+
+  it("shows git status badges once the background pass finishes and caches them", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(null);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    mocks.readGitStatuses.mockResolvedValueOnce(new Map([
+      ["/work/alpha", { branch: "main", dirty: true, ahead: 2, behind: 0 }],
+    ]));
+
+    const { app } = renderApp({ shortcutEntries: [], recentEntries: [] });
+
+    await waitForOutput(app, "main* ↑2");
+    expect(mocks.saveCache).toHaveBeenLastCalledWith(
+      [{ ...projects[0], git: { branch: "main", dirty: true, ahead: 2, behind: 0 } }, projects[1]],
+      settings
+    );
     app.cleanup();
   });
 
@@ -124,6 +262,7 @@ describe("App", () => {
     });
 
     await waitForOutput(app, "alpha");
+    expect(app.output()).toContain("alpha git");
     await app.input("alp");
     await waitForOutput(app, "alp");
     await app.input("\r");
@@ -135,6 +274,92 @@ describe("App", () => {
     app.cleanup();
   });
 
+  it("fuzzy-matches and ranks search results within sections", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(null);
+    mocks.scanProjectsAsync.mockResolvedValue([
+      { name: "abdcx", path: "/work/abdcx", kind: "git" },
+      { name: "dash-cli", path: "/work/dash-cli", kind: "git" },
+      { name: "other", path: "/work/other", kind: "git" },
+    ]);
+    const onSelect = vi.fn();
+
+    const { app } = renderApp({
+      shortcutEntries: [],
+      recentEntries: [],
+      onSelect,
+    });
+
+    await waitForOutput(app, "dash-cli");
+    await app.input("d");
+    await app.input("c");
+    await waitForOutput(app, "> dash-cli");
+    await app.input("\r");
+
+    expect(onSelect).toHaveBeenCalledWith("/work/dash-cli", "dash-cli");
+    app.cleanup();
+  });
+
+  it("searches nested projects from the root and selects them directly", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    const onSelect = vi.fn();
+
+    const { app } = renderApp({
+      shortcutEntries: [],
+      recentEntries: [],
+      onSelect,
+    });
+
+    await waitForOutput(app, "group");
+    for (const char of "chi") {
+      await app.input(char);
+    }
+    await waitForOutput(app, "> group/child");
+    await app.input("\r");
+
+    expect(onSelect).toHaveBeenCalledWith("/work/group/child", "group/child");
+    app.cleanup();
+  });
+
+  it("filters shortcuts by tag when the search starts with #", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    const tagged: Shortcut = { ...shortcut, id: "tagged", name: "Deploy", trigger: "d", command: ["./deploy.sh"], tags: ["work"] };
+
+    const { app } = renderApp({
+      shortcutEntries: [shortcut, tagged],
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "Deploy");
+    for (const char of "#wo") {
+      await app.input(char);
+    }
+    await waitForOutput(app, "#wo");
+    await app.input("\r");
+
+    expect(mocks.writeLastCommand).toHaveBeenCalledWith(["./deploy.sh"]);
+    app.cleanup();
+  });
+
+  it("limits search to the current level when configured", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+
+    const { app } = renderApp({
+      initialSettings: { ...settings, searchScope: "level" },
+      shortcutEntries: [],
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "group");
+    for (const char of "chi") {
+      await app.input(char);
+    }
+    await waitForOutput(app, 'No matches for "chi"');
+    app.cleanup();
+  });
+
   it("drills into nested projects and returns to the root list", async () => {
     mocks.loadCacheAsync.mockResolvedValue(projects);
     mocks.scanProjectsAsync.mockResolvedValue(projects);
@@ -156,6 +381,98 @@ describe("App", () => {
     app.cleanup();
   });
 
+  it("shows scan progress while refreshing", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockImplementation((_settings, { onProgress }) => {
+      onProgress({ directories: 12, projects: 3 });
+      return new Promise(() => {});
+    });
+
+    const { app } = renderApp();
+
+    await waitForOutput(app, "Scanning... 12 folders, 3 projects");
+    app.cleanup();
+  });
+
+  it("adds projects the watcher finds without leaving the current level", async () => {
+    let onChange = () => {};
+    const watcher = { update: vi.fn(), close: vi.fn() };
+    mocks.createProjectWatcher.mockImplementation((_roots: unknown, _markers: string[], callback: () => void) => {
+      onChange = callback;
+      return watcher;
+    });
+    mocks.loadCacheAsync.mockResolvedValue(null);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+
+    const { app } = renderApp({
+      initialSettings: { ...settings, watchProjects: true },
+      shortcutEntries: [],
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "group");
+    await vi.waitFor(() => expect(watcher.update).toHaveBeenCalled());
+    await app.input("\x1b[B");
+    await app.input("\x1b[C");
+    await waitForOutput(app, "child");
+
+    const group = projects[1];
+    mocks.scanProjectsAsync.mockResolvedValue([
+      projects[0],
+      { ...group, nestedProjects: [...group.nestedProjects!, { name: "cloned", path: "/work/group/cloned", kind: "git" }] },
+    ]);
+    onChange();
+
+    await waitForOutput(app, "cloned");
+    expect(mocks.scanProjectsAsync).toHaveBeenCalledTimes(2);
+    expect(mocks.saveCache).toHaveBeenLastCalledWith(expect.arrayContaining([projects[0]]), expect.anything());
+
+    app.cleanup();
+    await vi.waitFor(() => expect(watcher.close).toHaveBeenCalled());
+  });
+
+  it("stops the previous watched rescan when the watcher fires again", async () => {
+    let onChange = () => {};
+    mocks.createProjectWatcher.mockImplementation((_roots: unknown, _markers: string[], callback: () => void) => {
+      onChange = callback;
+      return { update: vi.fn(), close: vi.fn() };
+    });
+    mocks.loadCacheAsync.mockResolvedValue(null);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+
+    const { app } = renderApp({
+      initialSettings: { ...settings, watchProjects: true },
+      shortcutEntries: [],
+      recentEntries: [],
+    });
+    await waitForOutput(app, "group");
+
+    const signals: AbortSignal[] = [];
+    const stale = [...projects, { name: "stale", path: "/work/stale", kind: "git" as const }];
+    let finishFirst = (_scanned: Project[]) => {};
+    mocks.scanProjectsAsync
+      .mockImplementationOnce((_settings: unknown, { signal }: { signal: AbortSignal }) => {
+        signals.push(signal);
+        return new Promise<Project[]>((resolve) => { finishFirst = resolve; });
+      })
+      .mockImplementationOnce(async (_settings: unknown, { signal }: { signal: AbortSignal }) => {
+        signals.push(signal);
+        return [...projects, { name: "cloned", path: "/work/cloned", kind: "git" as const }];
+      });
+    onChange();
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    onChange();
+
+    await waitForOutput(app, "cloned");
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+    finishFirst(stale);
+    await waitForInk();
+    expect(app.output()).not.toContain("stale");
+
+    app.cleanup();
+  });
+
   it("adds a shortcut from the projects list", async () => {
     const newShortcut = {
       ...shortcut,
@@ -187,6 +504,160 @@ describe("App", () => {
     app.cleanup();
   });
 
+  it("runs project actions from the action menu", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    const { app } = renderApp({
+      initialSettings: {
+        ...settings,
+        actions: [
+          { type: "runShortcut", label: "Run a shortcut here" },
+          { type: "command", label: "Run tests", command: "cd {path} && npm test" },
+        ],
+      },
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "alpha");
+    // Skip the shortcuts section to the project row
+    await app.input("\x1b[B");
+    await app.input("\x01");
+    await waitForOutput(app, "Run tests");
+
+    // Run the Alpha shortcut inside the project
+    await app.input("\r");
+    await waitForOutput(app, "Alpha shortcut");
+    await app.input("\r");
+    expect(mocks.writeLastCommand).toHaveBeenLastCalledWith(["cd '/work/alpha'", ...shortcut.command]);
+
+    app.cleanup();
+
+    const second = renderApp({
+      initialSettings: { ...settings, actions: [{ type: "command", label: "Run tests", command: "cd {path} && npm test" }] },
+      shortcutEntries: [],
+      recentEntries: [],
+    });
+    await waitForOutput(second.app, "alpha");
+    await second.app.input("\x01");
+    await waitForOutput(second.app, "Run tests");
+    await second.app.input("\r");
+    expect(mocks.writeLastCommand).toHaveBeenLastCalledWith(["cd '/work/alpha' && npm test"]);
+    second.app.cleanup();
+  });
+
+  it("asks to trust a repo shortcut's file before running it", async () => {
+    const source = { file: "/work/alpha/.dash.json", hash: "abc" };
+    const repoShortcut: Shortcut = {
+      id: "/work/alpha/.dash.json#test",
+      name: "test",
+      trigger: "alpha:test",
+      caseSensitive: false,
+      command: ["npm test"],
+      repo: "/work/alpha",
+      source,
+      createdAt: 0,
+    };
+    const withFile = [{ ...projects[0], shortcutsFile: source.file }, projects[1]];
+    mocks.loadCacheAsync.mockResolvedValue(withFile);
+    mocks.scanProjectsAsync.mockResolvedValue(withFile);
+    mocks.loadRepoShortcutsAsync.mockImplementation(async (project: Project) =>
+      project.shortcutsFile ? [repoShortcut] : []);
+    mocks.untrustedSources.mockReturnValueOnce([source]);
+    mocks.trustSource.mockReturnValue({ ...source, trustedAt: 1 });
+
+    const { app } = renderApp({
+      initialSettings: { ...settings, actions: [{ type: "runShortcut", label: "Run a shortcut here" }] },
+      shortcutEntries: [],
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "alpha");
+    await app.input("\x01");
+    await app.input("\r");
+    await waitForOutput(app, "[alpha:test]");
+    await app.input("\r");
+    await waitForOutput(app, "haven't trusted");
+    expect(app.output()).toContain("/work/alpha/.dash.json defines:");
+    expect(mocks.writeLastCommand).not.toHaveBeenCalled();
+
+    await app.input("y");
+    expect(mocks.trustSource).toHaveBeenCalledWith(source);
+    expect(mocks.writeLastCommand).toHaveBeenCalledWith(["cd '/work/alpha'", "npm test"]);
+    app.cleanup();
+  });
+
+  it("trusts the file of a referenced repo shortcut from the review", async () => {
+    const source = { file: "/work/alpha/.dash.json", hash: "abc" };
+    const repoShortcut: Shortcut = {
+      id: "/work/alpha/.dash.json#test",
+      name: "test",
+      trigger: "alpha:test",
+      caseSensitive: false,
+      command: ["npm test"],
+      repo: "/work/alpha",
+      source,
+      createdAt: 0,
+    };
+    const ci: Shortcut = { id: "ci", name: "CI", trigger: "ci", caseSensitive: false, command: ["@alpha:test"], createdAt: 1 };
+    const withFile = [{ ...projects[0], shortcutsFile: source.file }, projects[1]];
+    mocks.loadCacheAsync.mockResolvedValue(withFile);
+    mocks.scanProjectsAsync.mockResolvedValue(withFile);
+    mocks.loadRepoShortcutsAsync.mockImplementation(async (project: Project) =>
+      project.shortcutsFile ? [repoShortcut] : []);
+    mocks.untrustedSources.mockReturnValueOnce([source]);
+    mocks.trustSource.mockReturnValue({ ...source, trustedAt: 1 });
+
+    const { app } = renderApp({
+      initialSettings: { ...settings, actions: [{ type: "runShortcut", label: "Run a shortcut here" }] },
+      shortcutEntries: [ci],
+      recentEntries: [],
+    });
+
+    await waitForOutput(app, "alpha");
+    await app.input("\x1b[B");
+    await app.input("\x01");
+    await app.input("\r");
+    await waitForOutput(app, "[alpha:test]");
+    await app.input("\x1b[B");
+    await app.input("\r");
+    await waitForOutput(app, "haven't trusted");
+    expect(app.output()).toContain("/work/alpha/.dash.json defines:");
+
+    await app.input("y");
+    expect(mocks.trustSource).toHaveBeenCalledWith(source);
+    expect(mocks.writeLastCommand).toHaveBeenCalledWith([
+      "cd '/work/alpha'",
+      "pushd '/work/alpha' > /dev/null",
+      "npm test",
+      "popd > /dev/null",
+    ]);
+    app.cleanup();
+  });
+
+  it("creates a shortcut with a custom trigger from the action menu", async () => {
+    mocks.loadCacheAsync.mockResolvedValue(projects);
+    mocks.scanProjectsAsync.mockResolvedValue(projects);
+    mocks.addShortcut.mockImplementation((input) => ({ ...input, id: "new", createdAt: 2 }));
+    const { app } = renderApp({ shortcutEntries: [], recentEntries: [] });
+
+    await waitForOutput(app, "alpha");
+    await app.input("\x01");
+    await waitForOutput(app, "Create shortcut");
+    for (let i = 0; i < 5; i++) {
+      await app.input("\x1b[B");
+    }
+    await app.input("\r");
+    for (const char of "al") {
+      await app.input(char);
+    }
+    await app.input("\r");
+
+    expect(mocks.validateTrigger).toHaveBeenCalledWith("al", false);
+    expect(mocks.addShortcut).toHaveBeenCalledWith(expect.objectContaining({ name: "alpha", trigger: "al" }));
+    await waitForOutput(app, "[al]");
+    app.cleanup();
+  });
+
   it("opens the shortcuts tab and edits a shortcut", async () => {
     mocks.loadCacheAsync.mockResolvedValue(projects);
     mocks.scanProjectsAsync.mockResolvedValue(projects);
@@ -219,11 +690,11 @@ describe("App", () => {
     await waitForOutput(app, "Alpha shortcut");
     await app.input("\t");
     await app.input("\t");
-    await waitForOutput(app, "Projects Directory");
+    await waitForOutput(app, "Project Roots");
     await app.input("\x1b");
 
     expect(onSettingsSave).toHaveBeenCalledWith(expect.objectContaining({
-      projectsDir: "/work",
+      roots: settings.roots,
     }));
     app.cleanup();
   });
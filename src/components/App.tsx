@@ -1,25 +1,44 @@
 import React, { useState, useMemo, useEffect, useRef } from "react";
-import { Box, Text, useInput, useApp } from "ink";
+import { Box, Text, useInput, useApp, useStdout } from "ink";
 import Spinner from "ink-spinner";
-import type { Project, HistoryEntry, Shortcut, Settings } from "../types.js";
-import { basename, relative } from "node:path";
+import open from "open";
+import type { Project, HistoryEntry, Shortcut, Settings, GitStatus, ProjectAction, ShortcutSource } from "../types.js";
+import { basename } from "node:path";
 import { SettingsScreen } from "./Settings.js";
 import { ShortcutsEditor } from "./ShortcutsEditor.js";
 import { ShortcutEdit } from "./ShortcutEdit.js";
-import { scanProjectsAsync, ScanAbortSignal } from "../scanner.js";
-import { loadCacheAsync, saveCache } from "../cache.js";
+import { PreviewPane, type ShortcutRun } from "./PreviewPane.js";
+import { ActionMenu } from "./ActionMenu.js";
+import { scanProjectsAsync, getDisplayName, findProjectByPath, parseProjectMarkers, type ScanProgress } from "../scanner.js";
+import { createProjectWatcher, type ProjectWatcher } from "../watcher.js";
+import { loadCacheAsync, loadScanIndexAsync, saveCache, saveScanIndex } from "../cache.js";
+import { applyGitStatuses, collectGitStatuses, formatGitStatus, readGitStatuses } from "../gitStatus.js";
 import {
   addShortcut,
   removeShortcut,
   findShortcutByPath,
   generateCommand,
   generateUniqueTrigger,
+  matchesTrigger,
+  renameReferences,
+  validateTrigger,
 } from "../shortcuts.js";
-import { writeLastCommand } from "../history.js";
+import { writeLastCommand, getRecentAsync } from "../history.js";
+import { getStorageWarnings } from "../storage.js";
+import { getShortcutParams, expandShortcut, formatUsage } from "../params.js";
+import { fuzzyMatch } from "../fuzzy.js";
+import { cdCommand, detectCommandShell, parseCdCommand } from "../quoting.js";
+import { copyToClipboard, getActionCommands } from "../actions.js";
+import { findRepoShortcut, loadRepoShortcutsAsync, pickRepoShortcut } from "../repoShortcuts.js";
+import { describeSource, trustSource, untrustedSources } from "../trust.js";
 import { log } from "../logger.js";
 
 const PAGE_SIZE = 10;
 
+// Terminals at least this wide show the preview pane beside the list, taking this share of the width
+const PREVIEW_BESIDE_MIN_WIDTH = 100;
+const PREVIEW_BESIDE_RATIO = 0.4;
+
 interface AppProps {
   initialSettings: Settings;
   recentEntries: HistoryEntry[];
@@ -44,7 +63,9 @@ interface ListItem {
   isShortcut?: boolean;
   isRecent?: boolean;
   triggers?: string[];  // All shortcut triggers for this path
+  tags?: string[];  // Tags of a shortcut item, matched by "#tag" searches
   shortcutId?: string;  // Shortcut ID (for shortcuts section items)
+  matchPositions?: number[];  // Label indices matched by the search term (for highlighting)
 }
 
 interface NavLevel {
@@ -55,19 +76,42 @@ interface NavLevel {
   savedSelectedKey: string | null;  // Selection by key, not index
 }
 
-// Get display name for a path (relative to projects dir)
-function getDisplayName(path: string, projectsDir: string): string {
-  const rel = relative(projectsDir, path);
-  // Convert backslashes to forward slashes for consistent display
-  return rel.replace(/\\/g, "/") || basename(path);
+// Render a label with fuzzy-matched characters highlighted (runs grouped to limit nodes)
+function renderLabel(label: string, positions?: number[]): React.ReactNode {
+  if (!positions || positions.length === 0) return label;
+
+  const matched = new Set(positions);
+  const parts: React.ReactNode[] = [];
+  let run = "";
+  let runMatched = false;
+
+  const flush = () => {
+    if (!run) return;
+    parts.push(runMatched
+      ? <Text key={parts.length} underline>{run}</Text>
+      : run);
+    run = "";
+  };
+
+  for (let i = 0; i < label.length; i++) {
+    const isMatch = matched.has(i);
+    if (isMatch !== runMatched) {
+      flush();
+      runMatched = isMatch;
+    }
+    run += label[i];
+  }
+  flush();
+
+  return parts;
 }
 
-// Collect all nested git projects (flattened) from a project tree
-function collectNestedGitProjects(project: Project, basePath: string): Project[] {
+// Collect all nested projects (flattened) from a project tree
+function collectNestedProjects(project: Project, basePath: string): Project[] {
   const results: Project[] = [];
 
   function traverse(p: Project, relativePath: string) {
-    if (p.isGitRepo) {
+    if (p.kind) {
       results.push({
         ...p,
         name: relativePath,
@@ -93,6 +137,17 @@ function collectNestedGitProjects(project: Project, basePath: string): Project[]
   return results;
 }
 
+// Re-derive each level's list from a changed tree, up to the first level whose project is gone
+function rebuildNavStack(stack: NavLevel[], projects: Project[]): NavLevel[] {
+  const rebuilt: NavLevel[] = [{ ...stack[0], projects }];
+  for (const level of stack.slice(1)) {
+    const parent = level.parentPath ? findProjectByPath(projects, level.parentPath) : undefined;
+    if (!parent?.hasNestedProjects) break;
+    rebuilt.push({ ...level, projects: collectNestedProjects(parent, parent.path) });
+  }
+  return rebuilt;
+}
+
 export function App({ initialSettings, recentEntries: initialRecentEntries, shortcutEntries: initialShortcutEntries, onSelect, onSettingsSave }: AppProps) {
   log("App component function called");
   const { exit } = useApp();
@@ -114,20 +169,85 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
   // Projects and settings state
   const [projects, setProjects] = useState<Project[] | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
   const [settings, setSettings] = useState(initialSettings);
   const [recentEntries, setRecentEntries] = useState(initialRecentEntries);
   const [shortcutEntries, setShortcutEntries] = useState(initialShortcutEntries);
 
+  // Get terminal width for placing the preview pane
+  const { stdout } = useStdout();
+  const terminalWidth = stdout.columns || 80;
+
+  // Corrupt config files found while loading, and writes refused because of them
+  const [storageMessages, setStorageMessages] = useState<string[]>(() => getStorageWarnings());
+
+  // Runs a config write, reporting failures in the banner instead of crashing the TUI
+  const tryWrite = <T,>(write: () => T): T | null => {
+    try {
+      return write();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setStorageMessages(prev => prev.includes(message) ? prev : [...prev, message]);
+      return null;
+    }
+  };
+
   // Delete confirmation state for shortcuts on main screen
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
 
-  // Abort signal for cancelling scans early (e.g., when user selects before scan completes)
-  const scanAbortSignal = useRef<ScanAbortSignal>({ aborted: false });
+  // Why a selected shortcut can't run, e.g. it needs arguments (shown on its row)
+  const [rowHint, setRowHint] = useState<{ id: string; message: string } | null>(null);
+
+  // Project the action menu is open on, and the outcome of the last action that kept it open
+  const [actionTarget, setActionTarget] = useState<{ path: string; title: string } | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  // Shortcut waiting for a repo file it runs from to be trusted, with what the file defines
+  const [trustReview, setTrustReview] = useState<{ shortcut: Shortcut; source: ShortcutSource; lines: string[] } | null>(null);
+
+  // Cancels the running scan and git status pass early (e.g., when user selects before scan completes)
+  const scanAbort = useRef(new AbortController());
+
+  // Git status by project path: seeded from the cache, then replaced by the background pass after each scan
+  const [gitStatuses, setGitStatuses] = useState<Map<string, GitStatus>>(() => new Map());
+
+  // Read git status for a fresh scan without blocking the list, then cache the enriched tree
+  const enrichProjects = (scanned: Project[], scanSettings: Settings) => {
+    const signal = scanAbort.current.signal;
+    readGitStatuses(scanned, signal).then((statuses) => {
+      if (signal.aborted) return;
+      setGitStatuses(statuses);
+      saveCache(applyGitStatuses(scanned, statuses), scanSettings);
+    });
+  };
+
+  // Watches the scanned directories for new and removed projects, when enabled
+  const projectWatcher = useRef<ProjectWatcher | null>(null);
+
+  // Set when the next change to projects comes from the watcher and keeps the user's place
+  const keepNavigation = useRef(false);
+
+  // Scan from the last scan's directory index, so only changed directories are read again
+  const scanProjects = async (scanSettings: Settings, signal: AbortSignal): Promise<Project[]> => {
+    setScanProgress(null);
+    const index = await loadScanIndexAsync(scanSettings);
+    const scanned = await scanProjectsAsync(scanSettings, {
+      signal,
+      index,
+      onProgress: (progress) => {
+        if (!signal.aborted) setScanProgress(progress);
+      },
+    });
+    if (!signal.aborted) {
+      saveScanIndex(index, scanSettings);
+      projectWatcher.current?.update(index);
+    }
+    return scanned;
+  };
 
   // Load from cache and/or scan on mount
   useEffect(() => {
     log("useEffect: mount - starting cache/scan");
-    scanAbortSignal.current = { aborted: false };
+    scanAbort.current = new AbortController();
     setIsRefreshing(true);
 
     // Load cache and scan in parallel - show whichever finishes first
@@ -137,29 +257,31 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     let hasShownResults = false;
 
     // Load cache (async)
-    loadCacheAsync(settings.projectsDir, settings.maxDepth, settings.skipDirs).then((cached) => {
+    loadCacheAsync(settings).then((cached) => {
       log(`useEffect: cache loaded, ${cached ? cached.length + " projects" : "no cache"}`);
-      if (cached && !scanAbortSignal.current.aborted && !hasShownResults) {
+      if (cached && !scanAbort.current.signal.aborted && !hasShownResults) {
         setProjects(cached);
+        setGitStatuses(collectGitStatuses(cached));
         hasShownResults = true;
         log("useEffect: showing cached projects");
       }
     });
 
     // Scan (async)
-    scanProjectsAsync(settings, scanAbortSignal.current).then((scanned) => {
+    scanProjects(settings, scanAbort.current.signal).then((scanned) => {
       log(`useEffect: scan complete, ${scanned.length} projects`);
-      if (!scanAbortSignal.current.aborted) {
+      if (!scanAbort.current.signal.aborted) {
         setProjects(scanned);
         setIsRefreshing(false);
         hasShownResults = true;
-        saveCache(scanned, settings.projectsDir, settings.maxDepth, settings.skipDirs);
+        saveCache(scanned, settings);
         log("useEffect: projects updated and cache saved");
+        enrichProjects(scanned, settings);
       }
     });
 
     return () => {
-      scanAbortSignal.current.aborted = true;
+      scanAbort.current.abort();
     };
   }, []);
 
@@ -174,11 +296,22 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     { projects: [], parentPath: null, savedScrollOffset: 0, savedSelectedKey: null }
   ]);
 
-  // Update nav stack when projects finish loading
+  // Update nav stack when projects finish loading; changes seen by the watcher keep the user's place
   useEffect(() => {
-    if (projects) {
-      setNavStack([{ projects, parentPath: null, savedScrollOffset: 0, savedSelectedKey: null }]);
+    if (!projects) return;
+    if (keepNavigation.current) {
+      keepNavigation.current = false;
+      const rebuilt = rebuildNavStack(navStack, projects);
+      if (rebuilt.length < navStack.length) {
+        // The level being viewed is gone; go back to where the user left the one above
+        setScrollOffset(rebuilt[rebuilt.length - 1].savedScrollOffset);
+        setSelectedKey(rebuilt[rebuilt.length - 1].savedSelectedKey);
+      }
+      setNavStack(rebuilt);
+      setNestedCache(new Map());
+      return;
     }
+    setNavStack([{ projects, parentPath: null, savedScrollOffset: 0, savedSelectedKey: null }]);
   }, [projects]);
 
   const currentLevel = navStack[navStack.length - 1];
@@ -190,12 +323,11 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
   const exactShortcutPaths = useMemo(() => {
     const paths = new Set<string>();
     for (const sc of shortcutEntries) {
-      // Only exact match: single command that is just cd "/path"
+      // Only exact match: single command that is just a cd to the path
       if (sc.command.length === 1) {
-        const cmd = sc.command[0];
-        const pathMatch = cmd.match(/^cd\s+"([^"]+)"$/);
-        if (pathMatch) {
-          paths.add(pathMatch[1]);
+        const path = parseCdCommand(sc.command[0], sc.shell);
+        if (path) {
+          paths.add(path);
         }
       }
     }
@@ -221,21 +353,55 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     return map;
   }, [projects]);
 
+  // Shortcuts from the projects' .dash.json files, read again whenever the Shortcuts tab
+  // or the action menu opens so that edits to the files show up
+  const [repoShortcuts, setRepoShortcuts] = useState<Shortcut[]>([]);
+  const needsRepoShortcuts = currentTab === TAB_SHORTCUTS || actionTarget !== null;
+  useEffect(() => {
+    if (!needsRepoShortcuts) return;
+    let cancelled = false;
+    const withFile = [...allProjectsMap.values()].filter((project) => project.shortcutsFile);
+    Promise.all(withFile.map(loadRepoShortcutsAsync)).then((loaded) => {
+      if (!cancelled) setRepoShortcuts(loaded.flat());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsRepoShortcuts, allProjectsMap]);
+
+  // Finds the shortcut an "@trigger" line refers to. Repo shortcuts that aren't loaded yet
+  // are read from their project's file.
+  const lookupShortcut = async (trigger: string) =>
+    shortcutEntries.find((s) => matchesTrigger(s, trigger))
+    ?? pickRepoShortcut(trigger, repoShortcuts.filter((s) => matchesTrigger(s, trigger)))
+    ?? findRepoShortcut(trigger, [...allProjectsMap.values()]);
+
+  // Search the whole tree from the root (instead of only the current level) when enabled
+  const isGlobalSearch = isAtRoot && searchTerm !== "" && settings.searchScope === "tree";
+
+  // Flattened searchable projects: every repo plus the root-level entries, labelled by relative path
+  const globalSearchProjects = useMemo(() => {
+    if (!isGlobalSearch || !projects) return [];
+    const rootPaths = new Set(projects.map((p) => p.path));
+    const list: Project[] = [];
+    for (const project of allProjectsMap.values()) {
+      if (!project.kind && !rootPaths.has(project.path)) continue;
+      list.push({ ...project, name: getDisplayName(project.path, settings.roots) });
+    }
+    return list;
+  }, [isGlobalSearch, projects, allProjectsMap, settings.roots]);
+
   // Build triggers lookup by path (for showing [trigger] tags on projects)
   // A project can have multiple shortcuts pointing to it
   const triggersByPath = useMemo(() => {
     const map = new Map<string, string[]>();
     for (const sc of shortcutEntries) {
       // Only associate if the first command is a cd to this path
-      const firstCmd = sc.command[0];
-      if (firstCmd?.startsWith('cd ')) {
-        const pathMatch = firstCmd.match(/^cd\s+"?([^"]+)"?$/);
-        if (pathMatch) {
-          const path = pathMatch[1];
-          const existing = map.get(path) || [];
-          existing.push(sc.trigger);
-          map.set(path, existing);
-        }
+      const path = sc.command[0] ? parseCdCommand(sc.command[0], sc.shell) : null;
+      if (path) {
+        const existing = map.get(path) || [];
+        existing.push(sc.trigger);
+        map.set(path, existing);
       }
     }
     return map;
@@ -252,9 +418,7 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
       list.push({ type: "header", label: "Shortcuts" });
       for (const sc of shortcutEntries.filter(s => s.pinned !== false)) {
         // Extract path from cd command
-        const cdCmd = sc.command.find(c => c.startsWith('cd '));
-        const pathMatch = cdCmd?.match(/^cd\s+"?([^"]+)"?$/);
-        const scPath = pathMatch?.[1] || "";
+        const scPath = sc.command.map(c => parseCdCommand(c, sc.shell)).find(Boolean) || "";
         const project = scPath ? allProjectsMap.get(scPath) : undefined;
         const selectionKey = `sc-${sc.id}`;
         const idx = list.length;
@@ -265,10 +429,10 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
           selectionKey,
           triggers: [sc.trigger],
           shortcutId: sc.id,
+          tags: sc.tags,
           project: project ?? {
             name: sc.name,
             path: scPath,
-            isGitRepo: true,
           },
           isShortcut: true,
           isRecent: false,
@@ -299,7 +463,6 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
           project: project ?? {
             name: basename(entry.path),
             path: entry.path,
-            isGitRepo: true,
           },
           isShortcut: false,
           isRecent: true,
@@ -309,10 +472,10 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     }
 
     // Current level projects
-    const sectionLabel = isAtRoot ? "All Projects" : getDisplayName(currentLevel.parentPath || "", settings.projectsDir);
+    const sectionLabel = isAtRoot ? "All Projects" : getDisplayName(currentLevel.parentPath || "", settings.roots);
     list.push({ type: "header", label: sectionLabel });
 
-    for (const project of currentProjects) {
+    for (const project of isGlobalSearch ? globalSearchProjects : currentProjects) {
       const triggers = triggersByPath.get(project.path);
       const isSc = triggers && triggers.length > 0;
       const isRec = recentPaths.has(project.path) && !isSc;
@@ -339,7 +502,7 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     }
 
     return { unfilteredItems: list, unfilteredKeyToIndex: keyMap };
-  }, [currentProjects, recentEntries, shortcutEntries, isAtRoot, recentPaths, exactShortcutPaths, triggersByPath, allProjectsMap, currentLevel.parentPath, settings.projectsDir, settings.showShortcuts, settings.showRecent]);
+  }, [currentProjects, isGlobalSearch, globalSearchProjects, recentEntries, shortcutEntries, isAtRoot, recentPaths, exactShortcutPaths, triggersByPath, allProjectsMap, currentLevel.parentPath, settings.roots, settings.showShortcuts, settings.showRecent]);
 
   // Filter items based on search term, also build keyToIndex map
   const { items, keyToIndex } = useMemo(() => {
@@ -347,31 +510,56 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
       return { items: unfilteredItems, keyToIndex: unfilteredKeyToIndex };
     }
 
-    const lowerSearch = searchTerm.toLowerCase();
-    const filtered: ListItem[] = [];
-    const keyMap = new Map<string, number>();
-    let currentHeader: ListItem | null = null;
-    let headerAdded = false;
+    // "#tag" narrows the list to shortcuts with a tag starting with the text
+    const tagFilter = searchTerm.startsWith("#") ? searchTerm.slice(1).toLowerCase() : null;
+
+    // Group matches by section so headers still group results, then rank within each section
+    const sections: { header: ListItem | null; matches: { item: ListItem; score: number; order: number }[] }[] = [];
     let backItem: ListItem | null = null;
 
     for (const item of unfilteredItems) {
       if (item.type === "header") {
-        currentHeader = item;
-        headerAdded = false;
+        sections.push({ header: item, matches: [] });
       } else if (item.type === "back") {
         backItem = item;
       } else {
-        if (item.label.toLowerCase().includes(lowerSearch)) {
-          // Add header before first matching item in this section
-          if (currentHeader && !headerAdded) {
-            filtered.push(currentHeader);
-            headerAdded = true;
-          }
-          const idx = filtered.length;
-          filtered.push(item);
-          if (item.selectionKey) {
-            keyMap.set(item.selectionKey, idx);
-          }
+        const match = tagFilter !== null
+          ? item.tags?.some((tag) => tag.toLowerCase().startsWith(tagFilter)) ? { score: 0, positions: [] } : null
+          : fuzzyMatch(searchTerm, item.label);
+        if (!match) continue;
+        if (sections.length === 0) {
+          sections.push({ header: null, matches: [] });
+        }
+        const section = sections[sections.length - 1];
+        section.matches.push({
+          item: { ...item, matchPositions: match.positions },
+          score: match.score,
+          order: section.matches.length,
+        });
+      }
+    }
+
+    const filtered: ListItem[] = [];
+    const keyMap = new Map<string, number>();
+
+    for (const section of sections) {
+      if (section.matches.length === 0) continue;
+      if (section.header) {
+        filtered.push(section.header);
+      }
+
+      // Best score first; shorter labels break ties, then original list order
+      section.matches.sort((a, b) =>
+        b.score - a.score ||
+        a.item.label.length - b.item.label.length ||
+        a.order - b.order
+      );
+
+      for (const { item } of section.matches) {
+        const idx = filtered.length;
+        filtered.push(item);
+        if (item.selectionKey) {
+          keyMap.set(item.selectionKey, idx);
         }
       }
     }
@@ -431,14 +619,14 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
 
   const drillDown = (project: Project, fromPath?: string) => {
     if (project.hasNestedProjects) {
-      let nestedGitProjects = nestedCache.get(project.path);
+      let nestedProjects = nestedCache.get(project.path);
 
-      if (!nestedGitProjects) {
-        nestedGitProjects = collectNestedGitProjects(project, project.path);
-        nestedCache.set(project.path, nestedGitProjects);
+      if (!nestedProjects) {
+        nestedProjects = collectNestedProjects(project, project.path);
+        nestedCache.set(project.path, nestedProjects);
       }
 
-      if (nestedGitProjects.length > 0) {
+      if (nestedProjects.length > 0) {
         // Save current scroll/selection state to current level before pushing
         const updatedStack = [...navStack];
         updatedStack[updatedStack.length - 1] = {
@@ -450,7 +638,7 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
         // Push new level and reset scroll/selection atomically
         setNavStack([
           ...updatedStack,
-          { projects: nestedGitProjects, parentPath: project.path, savedScrollOffset: 0, savedSelectedKey: null }
+          { projects: nestedProjects, parentPath: project.path, savedScrollOffset: 0, savedSelectedKey: null }
         ]);
         setScrollOffset(0);
         setSelectedKey(null); // Reset to first selectable item
@@ -485,13 +673,14 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     if (existingShortcut) return;
 
     // Add new shortcut
-    const displayName = getDisplayName(currentItem.path!, settings.projectsDir);
-    const newShortcut = addShortcut({
+    const displayName = getDisplayName(currentItem.path!, settings.roots);
+    const newShortcut = tryWrite(() => addShortcut({
       name: displayName,
       trigger: generateUniqueTrigger(shortcutEntries),
       caseSensitive: false,
       command: generateCommand(currentItem.path!),
-    });
+    }));
+    if (!newShortcut) return;
     setShortcutEntries(prev => [...prev, newShortcut]);
 
     // If adding from Recent section, the item will disappear (exact match)
@@ -506,6 +695,99 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     }
   };
 
+  const openActionMenu = () => {
+    const currentItem = items[selectedIndex];
+    if (currentItem?.type !== "project" || !currentItem.path) return;
+
+    setActionTarget({ path: currentItem.path, title: currentItem.label });
+    setActionMessage(null);
+  };
+
+  const handleAction = (action: ProjectAction) => {
+    if (!actionTarget) return;
+    const { path } = actionTarget;
+    const name = basename(path);
+
+    switch (action.type) {
+      case "cd":
+        scanAbort.current.abort();
+        onSelect(path, getDisplayName(path, settings.roots));
+        return;
+      case "reveal":
+        open(path).then(
+          () => setActionMessage(`Opened ${name} in the file manager`),
+          (err) => setActionMessage(`Could not open ${name}: ${err instanceof Error ? err.message : String(err)}`)
+        );
+        return;
+      case "copy":
+        copyToClipboard(path, (data) => stdout.write(data));
+        setActionMessage(`Copied ${path}`);
+        return;
+      default: {
+        const commands = getActionCommands(action, { path, name });
+        if (typeof commands === "string") {
+          setActionMessage(commands);
+          return;
+        }
+        scanAbort.current.abort();
+        writeLastCommand(commands);
+        exit();
+      }
+    }
+  };
+
+  // Runs a shortcut's commands from inside the action menu's project
+  const handleRunShortcutIn = (shortcut: Shortcut) => {
+    if (!actionTarget) return;
+    if (getShortcutParams(shortcut.command).some((p) => p.required)) {
+      setActionMessage(`Needs arguments: ${formatUsage(shortcut)}`);
+      return;
+    }
+    const { path } = actionTarget;
+    expandShortcut(shortcut, [], lookupShortcut).then(({ commands, references }) => {
+      // Shortcuts from a file that isn't trusted as it is now are shown for review first
+      const [source] = untrustedSources([shortcut, ...references]);
+      if (source) {
+        const fromFile = [shortcut, ...references, ...repoShortcuts].filter((s) => s.source?.file === source.file);
+        setTrustReview({ shortcut, source, lines: describeSource(source.file, [...new Set(fromFile)]) });
+        return;
+      }
+      scanAbort.current.abort();
+      // Repo shortcuts already change into their project
+      writeLastCommand(shortcut.repo ? commands : [cdCommand(path, detectCommandShell()), ...commands]);
+      exit();
+    }, (err: Error) => setActionMessage(err.message));
+  };
+
+  const handleTrustAndRun = () => {
+    if (!trustReview) return;
+    // The file under review may be a referenced shortcut's, not this shortcut's own
+    const { shortcut, source } = trustReview;
+    setTrustReview(null);
+    if (tryWrite(() => trustSource(source))) {
+      handleRunShortcutIn(shortcut);
+    }
+  };
+
+  const handleAddShortcutWithTrigger = (trigger: string) => {
+    if (!actionTarget) return;
+    const validation = validateTrigger(trigger, false);
+    if (!validation.valid) {
+      setActionMessage(validation.error ?? "Invalid trigger");
+      return;
+    }
+
+    const newShortcut = tryWrite(() => addShortcut({
+      name: getDisplayName(actionTarget.path, settings.roots),
+      trigger,
+      caseSensitive: false,
+      command: generateCommand(actionTarget.path),
+    }));
+    if (!newShortcut) return;
+    setShortcutEntries(prev => [...prev, newShortcut]);
+    setActionTarget(null);
+  };
+
   const handleDeleteShortcut = () => {
     const currentItem = items[selectedIndex];
     if (currentItem?.type !== "project") return;
@@ -521,7 +803,10 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
   const confirmDelete = () => {
     if (!confirmDeleteId) return;
 
-    removeShortcut(confirmDeleteId);
+    if (tryWrite(() => removeShortcut(confirmDeleteId)) === null) {
+      setConfirmDeleteId(null);
+      return;
+    }
     setShortcutEntries(prev => prev.filter(s => s.id !== confirmDeleteId));
     setConfirmDeleteId(null);
 
@@ -544,13 +829,15 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     if (isRefreshing) return; // Already scanning
 
     setIsRefreshing(true);
-    scanAbortSignal.current = { aborted: false };
+    scanAbort.current.abort();  // Stop any git status pass from the last scan
+    scanAbort.current = new AbortController();
 
-    scanProjectsAsync(settings, scanAbortSignal.current).then((scanned) => {
-      if (!scanAbortSignal.current.aborted) {
+    scanProjects(settings, scanAbort.current.signal).then((scanned) => {
+      if (!scanAbort.current.signal.aborted) {
         setProjects(scanned);
         setIsRefreshing(false);
-        saveCache(scanned, settings.projectsDir, settings.maxDepth, settings.skipDirs);
+        saveCache(scanned, settings);
+        enrichProjects(scanned, settings);
         // Reset navigation
         setNavStack([{ projects: scanned, parentPath: null, savedScrollOffset: 0, savedSelectedKey: null }]);
         setNestedCache(new Map());
@@ -558,28 +845,78 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     });
   };
 
+  // Rescan after the watcher saw projects appear or disappear, keeping the user's place
+  const handleWatchedChange = () => {
+    if (isRefreshing) return;  // Changes made before the running scan reads a directory still show up
+
+    scanAbort.current.abort();  // Stop the last watched rescan and its git status pass
+    scanAbort.current = new AbortController();
+    const signal = scanAbort.current.signal;
+    const current = projects;
+    scanProjects(settings, signal).then((scanned) => {
+      if (signal.aborted) return;
+      if (JSON.stringify(scanned) === JSON.stringify(current)) {
+        enrichProjects(scanned, settings);  // Finish the git status pass this scan stopped
+        return;
+      }
+      log(`handleWatchedChange: projects changed on disk`);
+      keepNavigation.current = true;
+      setProjects(scanned);
+      saveCache(scanned, settings);
+      enrichProjects(scanned, settings);
+    });
+  };
+
+  // The watcher outlives renders, so it calls the latest handler through a ref
+  const watchedChange = useRef(handleWatchedChange);
+  watchedChange.current = handleWatchedChange;
+
+  useEffect(() => {
+    if (!settings.watchProjects) return;
+
+    const watcher = createProjectWatcher(settings.roots, parseProjectMarkers(settings.projectMarkers), () => watchedChange.current());
+    projectWatcher.current = watcher;
+    // A running scan hands the watcher its directories when it finishes
+    if (!isRefreshing) {
+      loadScanIndexAsync(settings).then((index) => watcher.update(index));
+    }
+
+    return () => {
+      watcher.close();
+      projectWatcher.current = null;
+    };
+  }, [settings.watchProjects, settings.projectMarkers, settings.roots]);
+
   const handleSettingsSave = (newSettings: Settings) => {
     log("handleSettingsSave: called");
     const needsRescan =
-      newSettings.projectsDir !== settings.projectsDir ||
-      newSettings.maxDepth !== settings.maxDepth ||
-      newSettings.skipDirs !== settings.skipDirs;
+      JSON.stringify(newSettings.roots) !== JSON.stringify(settings.roots) ||
+      newSettings.projectMarkers !== settings.projectMarkers;
+
+    const needsRecentReload =
+      newSettings.recentCount !== settings.recentCount ||
+      newSettings.recentRanking !== settings.recentRanking;
 
     log(`handleSettingsSave: needsRescan=${needsRescan}`);
     log("handleSettingsSave: calling onSettingsSave (sync file write)...");
     setSettings(newSettings);
-    onSettingsSave(newSettings);
+    tryWrite(() => onSettingsSave(newSettings));
     log("handleSettingsSave: onSettingsSave done");
 
+    if (needsRecentReload) {
+      getRecentAsync(newSettings.recentCount, newSettings.recentRanking).then(setRecentEntries);
+    }
+
     if (needsRescan) {
       // Use async scan to avoid blocking UI
       log("handleSettingsSave: starting async rescan...");
       setIsRefreshing(true);
-      scanAbortSignal.current = { aborted: false };
+      scanAbort.current.abort();
+      scanAbort.current = new AbortController();
 
-      scanProjectsAsync(newSettings, scanAbortSignal.current).then((newProjects) => {
+      scanProjects(newSettings, scanAbort.current.signal).then((newProjects) => {
         log(`handleSettingsSave: async scan complete, ${newProjects.length} projects`);
-        if (!scanAbortSignal.current.aborted) {
+        if (!scanAbort.current.signal.aborted) {
           setProjects(newProjects);
           // Reset navigation and cache
           setNavStack([{ projects: newProjects, parentPath: null, savedScrollOffset: 0, savedSelectedKey: null }]);
@@ -589,16 +926,17 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
           setIsRefreshing(false);
           // Update disk cache
           log("handleSettingsSave: saving cache...");
-          saveCache(newProjects, newSettings.projectsDir, newSettings.maxDepth, newSettings.skipDirs);
+          saveCache(newProjects, newSettings);
           log("handleSettingsSave: done");
+          enrichProjects(newProjects, newSettings);
         }
       });
     }
   };
 
   useInput((input, key) => {
-    // Skip input handling when not on projects tab
-    if (currentTab !== TAB_PROJECTS) return;
+    // Skip input handling when not on projects tab, or while the action menu has the keyboard
+    if (currentTab !== TAB_PROJECTS || actionTarget) return;
 
     // Handle delete confirmation mode
     if (confirmDeleteId) {
@@ -611,6 +949,11 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
       return;
     }
 
+    // Any key dismisses the hint
+    if (rowHint) {
+      setRowHint(null);
+    }
+
     // Tab - cycle tabs (Shift+Tab for reverse)
     if (key.tab) {
       cycleTab(key.shift);
@@ -629,6 +972,18 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
       return;
     }
 
+    // Ctrl+P (or custom key) - show/hide the preview pane
+    if (key.ctrl && input === settings.previewKey) {
+      handleSettingsSave({ ...settings, showPreview: !settings.showPreview });
+      return;
+    }
+
+    // Ctrl+A (or custom key) - open the action menu on the highlighted project
+    if (key.ctrl && input === settings.actionKey) {
+      openActionMenu();
+      return;
+    }
+
     // Ctrl+D - delete shortcut (from Shortcuts section only, with confirmation)
     if (key.ctrl && input === "d") {
       handleDeleteShortcut();
@@ -673,17 +1028,29 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
         if (isInShortcutsSection && currentItem.shortcutId) {
           const shortcut = shortcutEntries.find(s => s.id === currentItem.shortcutId);
           if (shortcut) {
-            scanAbortSignal.current.aborted = true;
-            writeLastCommand(shortcut.command);
-            exit();
+            // Required arguments can only be given from the command line
+            if (getShortcutParams(shortcut.command).some((p) => p.required)) {
+              setRowHint({ id: shortcut.id, message: `Needs arguments: ${formatUsage(shortcut)}` });
+              return;
+            }
+            expandShortcut(shortcut, [], lookupShortcut).then(({ commands, references }) => {
+              const [source] = untrustedSources(references);
+              if (source) {
+                setRowHint({ id: shortcut.id, message: `References untrusted ${source.file}; run "dash-cli -- trust allow ${source.file}" after reviewing it` });
+                return;
+              }
+              scanAbort.current.abort();
+              writeLastCommand(commands);
+              exit();
+            }, (err: Error) => setRowHint({ id: shortcut.id, message: err.message }));
             return;
           }
         }
 
         // In projects/recent list: always just cd to the folder
         if (currentItem.project) {
-          scanAbortSignal.current.aborted = true;
-          onSelect(currentItem.project.path, getDisplayName(currentItem.project.path, settings.projectsDir));
+          scanAbort.current.abort();
+          onSelect(currentItem.project.path, getDisplayName(currentItem.project.path, settings.roots));
         }
       }
       return;
@@ -787,6 +1154,33 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
   const hasMoreAbove = clampedScrollOffset > 0;
   const hasMoreBelow = clampedScrollOffset + settings.visibleRows < items.length;
 
+  // Preview pane: beside the list when the terminal is wide enough, otherwise below it
+  const previewBeside = terminalWidth >= PREVIEW_BESIDE_MIN_WIDTH;
+  const previewItem = items[selectedIndex];
+  const previewProject = previewItem?.type === "project" && previewItem.path ? previewItem.project : undefined;
+  // Shortcuts preview what Enter would run; required arguments can only come from the command line
+  const previewShortcut = previewItem?.shortcutId ? shortcutEntries.find((s) => s.id === previewItem.shortcutId) : undefined;
+  const [previewRun, setPreviewRun] = useState<ShortcutRun | undefined>(undefined);
+  useEffect(() => {
+    if (!previewShortcut) {
+      setPreviewRun(undefined);
+      return;
+    }
+    if (getShortcutParams(previewShortcut.command).some((p) => p.required)) {
+      setPreviewRun({ commands: previewShortcut.command, note: `Needs arguments: ${formatUsage(previewShortcut)}` });
+      return;
+    }
+    // References are expanded into the commands they stand for
+    let cancelled = false;
+    expandShortcut(previewShortcut, [], lookupShortcut).then(
+      ({ commands }) => !cancelled && setPreviewRun({ commands }),
+      (err: Error) => !cancelled && setPreviewRun({ commands: previewShortcut.command, note: err.message }),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [previewShortcut, repoShortcuts]);
+
   // TabBar component with inverted active tab
   const TabBar = () => {
     const tabs = TAB_LABELS.map((label, idx) => {
@@ -810,6 +1204,9 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
             </React.Fragment>
           ))}
         </Box>
+        {storageMessages.map((message, idx) => (
+          <Text key={idx} color="red">{message}</Text>
+        ))}
       </Box>
     );
   };
@@ -818,17 +1215,24 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
   if (currentTab === TAB_SHORTCUTS) {
     // Sub-navigation: editing a specific shortcut
     if (editingShortcutId) {
-      const shortcut = shortcutEntries.find(s => s.id === editingShortcutId);
+      const shortcut = shortcutEntries.find(s => s.id === editingShortcutId)
+        ?? repoShortcuts.find(s => s.id === editingShortcutId);
       if (shortcut) {
         return (
           <ShortcutEdit
             shortcut={shortcut}
             allShortcuts={shortcutEntries}
             onSave={(updated) => {
+              // References to a trigger it lost were renamed when it was saved
               setShortcutEntries(prev =>
-                prev.map(s => s.id === updated.id ? updated : s)
+                renameReferences(prev.map(s => s.id === updated.id ? updated : s), shortcut, updated)
               );
             }}
+            onCopy={(copy) => {
+              // Carry on editing the copy
+              setShortcutEntries(prev => [...prev, copy]);
+              setEditingShortcutId(copy.id);
+            }}
             onBack={() => setEditingShortcutId(null)}
             onTab={cycleTab}
             selectedColor={settings.selectedColor}
@@ -843,16 +1247,18 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     return (
       <ShortcutsEditor
         shortcuts={shortcutEntries}
+        repoShortcuts={repoShortcuts}
         onUpdate={(updated) => setShortcutEntries(updated)}
         onEditShortcut={(id) => setEditingShortcutId(id)}
         onAddShortcut={() => {
           // Create a new shortcut with defaults
-          const newShortcut = addShortcut({
+          const newShortcut = tryWrite(() => addShortcut({
             name: "New Shortcut",
             trigger: generateUniqueTrigger(shortcutEntries),
             caseSensitive: false,
             command: ["cd ~"],
-          });
+          }));
+          if (!newShortcut) return;
           setShortcutEntries(prev => [...prev, newShortcut]);
           setEditingShortcutId(newShortcut.id);
         }}
@@ -879,6 +1285,30 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
     );
   }
 
+  if (actionTarget) {
+    return (
+      <ActionMenu
+        title={actionTarget.title}
+        path={actionTarget.path}
+        actions={settings.actions}
+        shortcuts={[...repoShortcuts.filter((s) => s.repo === actionTarget.path), ...shortcutEntries]}
+        message={actionMessage}
+        onAction={handleAction}
+        onRunShortcut={handleRunShortcutIn}
+        onAddShortcut={handleAddShortcutWithTrigger}
+        review={trustReview?.lines ?? null}
+        onTrust={handleTrustAndRun}
+        onCancelReview={() => setTrustReview(null)}
+        onClose={() => {
+          setTrustReview(null);
+          setActionTarget(null);
+        }}
+        selectedColor={settings.selectedColor}
+        tabBar={<TabBar />}
+      />
+    );
+  }
+
   return (
     <Box flexDirection="column">
       {/* Tab bar at top */}
@@ -893,103 +1323,133 @@ export function App({ initialSettings, recentEntries: initialRecentEntries, shor
         {searchTerm && <Text color="white">▌</Text>}
       </Box>
 
-      {/* Scrollable list area */}
-      {hasMoreAbove && (
-        <Box>
-          <Text dimColor>  ↑ {scrollOffset} more</Text>
-        </Box>
-      )}
-
-      {visibleItems.length === 0 && searchTerm && (
-        <Box>
-          <Text dimColor>  No matches for "{searchTerm}"</Text>
-        </Box>
-      )}
-
-      {visibleItems.map((item, visibleIdx) => {
-        const actualIdx = clampedScrollOffset + visibleIdx;
-
-        if (item.type === "header") {
-          return (
-            <Box key={`header-${actualIdx}`}>
-              <Text color="gray" dimColor>
-                ── {item.label} ──────────────────
-              </Text>
+      {/* Scrollable list area, with the preview pane beside or below it */}
+      <Box flexDirection={previewBeside ? "row" : "column"}>
+        <Box flexDirection="column" flexGrow={1} flexShrink={1}>
+          {hasMoreAbove && (
+            <Box>
+              <Text dimColor>  ↑ {scrollOffset} more</Text>
             </Box>
-          );
-        }
+          )}
 
-        const isSelected = actualIdx === selectedIndex;
-
-        if (item.type === "back") {
-          return (
-            <Box key="back">
-              <Text color={isSelected ? settings.selectedColor : "gray"} bold={isSelected}>
-                {"< "}{item.label}
-              </Text>
+          {visibleItems.length === 0 && searchTerm && (
+            <Box>
+              <Text dimColor>  No matches for "{searchTerm}"</Text>
             </Box>
-          );
-        }
-
-        const project = item.project!;
-        const hasNested = !item.isRecent && project.hasNestedProjects;
-
-        let color: string | undefined;
-        const isInShortcutsSection = item.selectionKey?.startsWith("sc-");
-        if (isSelected) {
-          color = settings.selectedColor;
-        } else if (isInShortcutsSection) {
-          // Only color shortcuts green when in the actual Shortcuts section
-          color = settings.shortcutColor;
-        } else if (item.isRecent) {
-          color = settings.recentColor;
-        }
-        // Note: projects in All Projects section with triggers show normal text + [trigger] tags
+          )}
+
+          {visibleItems.map((item, visibleIdx) => {
+            const actualIdx = clampedScrollOffset + visibleIdx;
+
+            if (item.type === "header") {
+              return (
+                <Box key={`header-${actualIdx}`}>
+                  <Text color="gray" dimColor>
+                    ── {item.label} ──────────────────
+                  </Text>
+                </Box>
+              );
+            }
 
-        const isDeleting = item.shortcutId && confirmDeleteId === item.shortcutId;
+            const isSelected = actualIdx === selectedIndex;
 
-        return (
-          <Box key={`item-${actualIdx}`}>
-            <Box width={2} flexShrink={0}>
-              <Text color={color} bold={isSelected}>
-                {isSelected ? "> " : "  "}
-              </Text>
-            </Box>
-            <Box flexShrink={1}>
-              <Text color={color} bold={isSelected}>
-                {item.label}
-              </Text>
-              {item.triggers && item.triggers.map((t, i) => (
-                <Text key={i} dimColor> [{t}]</Text>
-              ))}
-              {hasNested && (
-                <Text color="gray" dimColor> ▶</Text>
-              )}
-              {isDeleting && (
-                <Text color="red"> Delete? (y/n)</Text>
-              )}
+            if (item.type === "back") {
+              return (
+                <Box key="back">
+                  <Text color={isSelected ? settings.selectedColor : "gray"} bold={isSelected}>
+                    {"< "}{item.label}
+                  </Text>
+                </Box>
+              );
+            }
+
+            const project = item.project!;
+            const hasNested = !item.isRecent && project.hasNestedProjects;
+            const gitStatus = gitStatuses.get(project.path);
+
+            let color: string | undefined;
+            const isInShortcutsSection = item.selectionKey?.startsWith("sc-");
+            if (isSelected) {
+              color = settings.selectedColor;
+            } else if (isInShortcutsSection) {
+              // Only color shortcuts green when in the actual Shortcuts section
+              color = settings.shortcutColor;
+            } else if (item.isRecent) {
+              color = settings.recentColor;
+            }
+            // Note: projects in All Projects section with triggers show normal text + [trigger] tags
+
+            const isDeleting = item.shortcutId && confirmDeleteId === item.shortcutId;
+            const hint = item.shortcutId && rowHint?.id === item.shortcutId ? rowHint.message : null;
+
+            return (
+              <Box key={`item-${actualIdx}`}>
+                <Box width={2} flexShrink={0}>
+                  <Text color={color} bold={isSelected}>
+                    {isSelected ? "> " : "  "}
+                  </Text>
+                </Box>
+                <Box flexShrink={1}>
+                  <Text color={color} bold={isSelected}>
+                    {renderLabel(item.label, item.matchPositions)}
+                  </Text>
+                  {project.kind && (
+                    <Text color="gray" dimColor> {project.kind}</Text>
+                  )}
+                  {gitStatus && (
+                    <Text color={gitStatus.dirty ? "yellow" : "gray"} dimColor> {formatGitStatus(gitStatus)}</Text>
+                  )}
+                  {item.triggers && item.triggers.map((t, i) => (
+                    <Text key={i} dimColor> [{t}]</Text>
+                  ))}
+                  {hasNested && (
+                    <Text color="gray" dimColor> ▶</Text>
+                  )}
+                  {isDeleting && (
+                    <Text color="red"> Delete? (y/n)</Text>
+                  )}
+                  {hint && (
+                    <Text color="yellow"> {hint}</Text>
+                  )}
+                </Box>
+              </Box>
+            );
+          })}
+
+          {hasMoreBelow && (
+            <Box>
+              <Text dimColor>  ↓ {items.length - scrollOffset - settings.visibleRows} more</Text>
             </Box>
-          </Box>
-        );
-      })}
-
-      {hasMoreBelow && (
-        <Box>
-          <Text dimColor>  ↓ {items.length - scrollOffset - settings.visibleRows} more</Text>
+          )}
         </Box>
-      )}
+
+        {settings.showPreview && (
+          <PreviewPane
+            path={previewProject?.path ?? null}
+            title={previewItem?.label ?? ""}
+            gitStatus={previewProject ? gitStatuses.get(previewProject.path) : undefined}
+            triggers={previewProject ? triggersByPath.get(previewProject.path) ?? [] : []}
+            run={previewRun}
+            width={previewBeside ? Math.floor(terminalWidth * PREVIEW_BESIDE_RATIO) : terminalWidth - 2}
+            selectedColor={settings.selectedColor}
+          />
+        )}
+      </Box>
 
       {isRefreshing && (
         <Box marginTop={1}>
           <Text color="cyan">
-            <Spinner type="dots" /> Refreshing...
+            <Spinner type="dots" />{" "}
+            {scanProgress
+              ? `Scanning... ${scanProgress.directories} folders, ${scanProgress.projects} projects`
+              : "Refreshing..."}
           </Text>
         </Box>
       )}
 
       <Box marginTop={isRefreshing ? 0 : 1}>
         <Text dimColor>
-          {"  "}tab/shift+tab • ↑↓ select • →← drill • ^{settings.shortcutToggleKey.toUpperCase()} add • ^D del • ^{settings.refreshKey.toUpperCase()} refresh • esc quit
+          {"  "}tab/shift+tab • ↑↓ select • →← drill • ^{settings.shortcutToggleKey.toUpperCase()} add • ^D del • ^{settings.refreshKey.toUpperCase()} refresh • ^{settings.actionKey.toUpperCase()} actions • ^{settings.previewKey.toUpperCase()} preview • esc quit
         </Text>
       </Box>
     </Box>
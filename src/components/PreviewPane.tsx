@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Text } from "ink";
+import type { GitStatus } from "../types.js";
+import { loadPreview, type ProjectPreview } from "../preview.js";
+import { formatGitStatus } from "../gitStatus.js";
+
+interface PreviewPaneProps {
+  path: string | null;
+  title: string;
+  gitStatus?: GitStatus;
+  triggers: string[];
+  run?: ShortcutRun;  // What Enter on a highlighted shortcut would run
+  width: number;
+  selectedColor: string;
+}
+
+export interface ShortcutRun {
+  commands: string[];
+  note?: string;  // Why the commands can't run as shown, e.g. missing arguments
+}
+
+// Wait for the highlight to settle so holding an arrow key doesn't read every project on the way
+const LOAD_DELAY_MS = 120;
+
+export function PreviewPane({ path, title, gitStatus, triggers, run, width, selectedColor }: PreviewPaneProps) {
+  // Previews stay cached while the pane is open, so moving back to a project is instant
+  const cache = useRef(new Map<string, ProjectPreview>());
+  const [preview, setPreview] = useState<ProjectPreview | null>(null);
+
+  useEffect(() => {
+    if (!path) {
+      setPreview(null);
+      return;
+    }
+
+    const cached = cache.current.get(path);
+    if (cached) {
+      setPreview(cached);
+      return;
+    }
+
+    setPreview(null);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      loadPreview(path).then((loaded) => {
+        cache.current.set(path, loaded);
+        if (!cancelled) setPreview(loaded);
+      });
+    }, LOAD_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [path]);
+
+  return (
+    <Box flexDirection="column" width={width} flexShrink={0} borderStyle="round" borderColor="gray" paddingX={1}>
+      {!path && !run ? (
+        <Text dimColor>No project selected</Text>
+      ) : (
+        <>
+          <Text color={selectedColor} bold wrap="truncate-end">{title}</Text>
+          {path && <Text dimColor wrap="truncate-middle">{path}</Text>}
+
+          {run && (
+            <Box flexDirection="column" marginBottom={1}>
+              <Text dimColor>Runs</Text>
+              {run.commands.map((command, i) => (
+                <Text key={i} wrap="truncate-end">{"  "}{command}</Text>
+              ))}
+              {run.note && <Text color="yellow" wrap="truncate-end">{run.note}</Text>}
+            </Box>
+          )}
+
+          {gitStatus && (
+            <Text wrap="truncate-end">
+              <Text dimColor>Branch    </Text>
+              <Text color={gitStatus.dirty ? "yellow" : undefined}>{formatGitStatus(gitStatus)}</Text>
+            </Text>
+          )}
+          {preview?.language && (
+            <Text wrap="truncate-end">
+              <Text dimColor>Language  </Text>
+              {preview.language}
+            </Text>
+          )}
+          {triggers.length > 0 && (
+            <Text wrap="truncate-end">
+              <Text dimColor>Shortcuts </Text>
+              {triggers.map((t) => `[${t}]`).join(" ")}
+            </Text>
+          )}
+
+          {path && !preview && <Text dimColor>Loading...</Text>}
+
+          {preview && preview.readme.length > 0 && (
+            <Box flexDirection="column" marginTop={1}>
+              {preview.readme.map((line, i) => (
+                <Text key={i} wrap="truncate-end">{line}</Text>
+              ))}
+            </Box>
+          )}
+
+          {preview && preview.gitLog.length > 0 && (
+            <Box flexDirection="column" marginTop={1}>
+              {preview.gitLog.map((line, i) => (
+                <Text key={i} dimColor wrap="truncate-end">{line}</Text>
+              ))}
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,235 @@
+import React, { useState } from "react";
+import { Box, Text, useInput } from "ink";
+import TextInput from "./TextInput.js";
+import type { ProjectRoot } from "../types.js";
+import { createRoot } from "../settings.js";
+import { getRootLabel } from "../scanner.js";
+
+interface RootsEditorProps {
+  roots: ProjectRoot[];
+  onChange: (roots: ProjectRoot[]) => void;
+  onBack: () => void;
+  selectedColor: string;
+  tabBar: React.ReactNode;
+}
+
+type RootFieldKey = "path" | "label" | "maxDepth" | "skipDirs";
+
+const ROOT_FIELDS: { key: RootFieldKey; label: string; description: string }[] = [
+  { key: "path", label: "Directory", description: "Directory to scan for projects" },
+  { key: "label", label: "Label", description: "Group name in the project list (empty uses the directory name)" },
+  { key: "maxDepth", label: "Scan Depth", description: "How deep to scan for nested projects (1-10)" },
+  { key: "skipDirs", label: "Skip Directories", description: "Comma-separated patterns (supports globs like *.test)" },
+];
+
+const MAX_DEPTH = 10;
+
+function truncate(value: string): string {
+  return value.length > 35 ? value.slice(0, 32) + "..." : value;
+}
+
+export function RootsEditor({ roots, onChange, onBack, selectedColor, tabBar }: RootsEditorProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [fieldIndex, setFieldIndex] = useState(0);
+  const [editingField, setEditingField] = useState<RootFieldKey | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const openRoot = openIndex !== null ? roots[openIndex] : undefined;
+  const isOnAdd = selectedIndex === roots.length;
+
+  const updateRoot = (index: number, update: Partial<ProjectRoot>) => {
+    onChange(roots.map((root, i) => (i === index ? { ...root, ...update } : root)));
+  };
+
+  const startEditing = (key: RootFieldKey, root: ProjectRoot) => {
+    setEditingField(key);
+    setEditValue(String(root[key] ?? ""));
+  };
+
+  const commitEdit = () => {
+    if (openIndex === null || !editingField || !openRoot) return;
+
+    if (editingField === "maxDepth") {
+      const depth = parseInt(editValue, 10);
+      if (!isNaN(depth)) {
+        updateRoot(openIndex, { maxDepth: Math.max(1, Math.min(MAX_DEPTH, depth)) });
+      }
+    } else if (editingField === "label") {
+      const { label: _label, ...rest } = openRoot;
+      const label = editValue.trim();
+      onChange(roots.map((root, i) => (i === openIndex ? (label ? { ...rest, label } : rest) : root)));
+    } else {
+      updateRoot(openIndex, { [editingField]: editingField === "path" ? editValue.trim() : editValue });
+    }
+    setEditingField(null);
+    setEditValue("");
+  };
+
+  // Leaving a root without a directory (e.g. a cancelled add) drops it
+  const closeRoot = () => {
+    if (openIndex !== null && openRoot && openRoot.path.trim() === "") {
+      onChange(roots.filter((_, i) => i !== openIndex));
+      setSelectedIndex(Math.max(0, Math.min(selectedIndex, roots.length - 1)));
+    }
+    setOpenIndex(null);
+    setFieldIndex(0);
+  };
+
+  useInput((input, key) => {
+    // Editing a field: TextInput handles everything except escape
+    if (editingField) {
+      if (key.escape) {
+        setEditingField(null);
+        setEditValue("");
+      }
+      return;
+    }
+
+    // Editing a single root
+    if (openIndex !== null && openRoot) {
+      if (key.upArrow) {
+        setFieldIndex((prev) => (prev > 0 ? prev - 1 : ROOT_FIELDS.length - 1));
+      } else if (key.downArrow) {
+        setFieldIndex((prev) => (prev < ROOT_FIELDS.length - 1 ? prev + 1 : 0));
+      } else if (key.return) {
+        startEditing(ROOT_FIELDS[fieldIndex].key, openRoot);
+      } else if (key.escape) {
+        closeRoot();
+      }
+      return;
+    }
+
+    if (confirmDelete) {
+      if (input === "y" || input === "Y") {
+        onChange(roots.filter((_, i) => i !== selectedIndex));
+        setSelectedIndex((prev) => Math.max(0, Math.min(prev, roots.length - 2)));
+      }
+      setConfirmDelete(false);
+      return;
+    }
+
+    // Root list
+    if (key.upArrow) {
+      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : roots.length));
+      return;
+    }
+
+    if (key.downArrow) {
+      setSelectedIndex((prev) => (prev < roots.length ? prev + 1 : 0));
+      return;
+    }
+
+    if (key.return) {
+      if (isOnAdd) {
+        // New roots open straight into editing their directory
+        const root = createRoot("");
+        onChange([...roots, root]);
+        setOpenIndex(roots.length);
+        startEditing("path", root);
+      } else {
+        setOpenIndex(selectedIndex);
+      }
+      setFieldIndex(0);
+      return;
+    }
+
+    // Ctrl+D - remove root
+    if (key.ctrl && input === "d" && !isOnAdd) {
+      setConfirmDelete(true);
+      return;
+    }
+
+    if (key.escape) {
+      onBack();
+    }
+  });
+
+  if (openIndex !== null && openRoot) {
+    const currentField = ROOT_FIELDS[fieldIndex];
+
+    return (
+      <Box flexDirection="column">
+        {tabBar}
+
+        <Box>
+          <Text dimColor>{"  "}── {openRoot.path ? getRootLabel(openRoot) : "New root"} ──────────────────</Text>
+        </Box>
+
+        {ROOT_FIELDS.map((field, idx) => {
+          const isSelected = idx === fieldIndex;
+          const isFieldEditing = editingField === field.key;
+          const value = field.key === "label" && !openRoot.label
+            ? openRoot.path ? `(${getRootLabel(openRoot)})` : ""
+            : String(openRoot[field.key] ?? "");
+
+          return (
+            <Box key={field.key} flexDirection="row">
+              <Text color={isSelected ? selectedColor : undefined} bold={isSelected}>
+                {isSelected ? "> " : "  "}
+                {field.label.padEnd(20)}
+              </Text>
+              {isFieldEditing ? (
+                <TextInput value={editValue} onChange={setEditValue} onSubmit={commitEdit} focus={true} />
+              ) : (
+                <Text color={isSelected ? selectedColor : "gray"}>{truncate(value)}</Text>
+              )}
+            </Box>
+          );
+        })}
+
+        <Box marginTop={1}>
+          <Text dimColor>{"  "}{currentField.description}</Text>
+        </Box>
+
+        <Box marginTop={1}>
+          <Text dimColor>
+            {editingField ? "  ←→ cursor • enter save • esc cancel" : "  ↑↓ navigate • enter edit • esc back"}
+          </Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {tabBar}
+
+      <Box>
+        <Text dimColor>{"  "}── Project Roots ──────────────────</Text>
+      </Box>
+
+      {roots.length === 0 && (
+        <Box>
+          <Text dimColor>{"  "}No project roots yet</Text>
+        </Box>
+      )}
+
+      {roots.map((root, idx) => {
+        const isSelected = idx === selectedIndex;
+
+        return (
+          <Box key={idx}>
+            <Text color={isSelected ? selectedColor : undefined} bold={isSelected}>
+              {isSelected ? "> " : "  "}
+              {getRootLabel(root)}
+            </Text>
+            <Text dimColor> {truncate(root.path)} • depth {root.maxDepth}</Text>
+            {isSelected && confirmDelete && <Text color="red"> Remove? (y/n)</Text>}
+          </Box>
+        );
+      })}
+
+      <Box>
+        <Text color={isOnAdd ? selectedColor : "cyan"} bold={isOnAdd}>
+          {isOnAdd ? "> " : "  "}[Add root]
+        </Text>
+      </Box>
+
+      <Box marginTop={1}>
+        <Text dimColor>{"  "}↑↓ navigate • enter edit • ctrl+d remove • esc back</Text>
+      </Box>
+    </Box>
+  );
+}
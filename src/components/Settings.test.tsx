@@ -1,7 +1,7 @@
 import React from "react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { SettingsScreen } from "./Settings.js";
-import { DEFAULT_SETTINGS } from "../settings.js";
+import { DEFAULT_ACTIONS, DEFAULT_SETTINGS, DEFAULT_SKIP_DIRS, createRoot } from "../settings.js";
 import { renderInk, waitForInk } from "../test/ink.js";
 
 const clearHistory = vi.fn();
@@ -44,7 +44,7 @@ describe("SettingsScreen", () => {
     const onTab = vi.fn();
     const app = renderInk(
       <SettingsScreen
-        settings={{ ...DEFAULT_SETTINGS, projectsDir: "/work" }}
+        settings={{ ...DEFAULT_SETTINGS, roots: [createRoot("/work")] }}
         onSave={onSave}
         onClearHistory={vi.fn()}
         onTab={onTab}
@@ -62,6 +62,28 @@ describe("SettingsScreen", () => {
     app.cleanup();
   });
 
+  it("cycles select settings through their options", async () => {
+    const onSave = vi.fn();
+    const app = renderInk(
+      <SettingsScreen
+        settings={DEFAULT_SETTINGS}
+        onSave={onSave}
+        onClearHistory={vi.fn()}
+        onTab={vi.fn()}
+        onClose={vi.fn()}
+        tabBar={null}
+      />
+    );
+
+    await moveToSetting(app, "searchScope");
+    expect(app.output()).toContain("Whole tree");
+    await app.input(enter);
+    await app.input(escape);
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({ searchScope: "level" }));
+    app.cleanup();
+  });
+
   it("clears history action and closes with escape", async () => {
     const onClearHistory = vi.fn();
     const onSave = vi.fn();
@@ -101,21 +123,120 @@ describe("SettingsScreen", () => {
       />
     );
 
-    await moveToSetting(app, "maxDepth");
+    await moveToSetting(app, "visibleRows");
     await app.input(enter);
     await app.input(up);
     await app.input(enter);
 
-    await moveDown(app, Object.keys(DEFAULT_SETTINGS).indexOf("shortcutToggleKey") - Object.keys(DEFAULT_SETTINGS).indexOf("maxDepth"));
+    await moveDown(app, Object.keys(DEFAULT_SETTINGS).indexOf("shortcutToggleKey") - Object.keys(DEFAULT_SETTINGS).indexOf("visibleRows"));
     await app.input(enter);
     await app.input("x");
     await waitForInk();
     await app.input(escape);
 
     expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
-      maxDepth: 5,
+      visibleRows: 13,
       shortcutToggleKey: "x",
     }));
     app.cleanup();
   });
+
+  it("adds, edits and removes project roots", async () => {
+    const onSave = vi.fn();
+    const app = renderInk(
+      <SettingsScreen
+        settings={{ ...DEFAULT_SETTINGS, roots: [createRoot("/work")] }}
+        onSave={onSave}
+        onClearHistory={vi.fn()}
+        onTab={vi.fn()}
+        onClose={vi.fn()}
+        tabBar={null}
+      />
+    );
+
+    expect(app.output()).toContain("work");
+    await app.input(enter);
+    await waitForInk();
+    expect(app.output()).toContain("[Add root]");
+
+    // Add a second root, typing its directory straight away
+    await app.input(down);
+    await app.input(enter);
+    for (const char of "/mnt/oss") {
+      await app.input(char);
+    }
+    await app.input(enter);
+
+    // Label it and lower its depth
+    await app.input(down);
+    await app.input(enter);
+    for (const char of "OSS") {
+      await app.input(char);
+    }
+    await app.input(enter);
+    await app.input(down);
+    await app.input(enter);
+    await app.input("\x7f");
+    await app.input("2");
+    await app.input(enter);
+    await app.input(escape);
+    await waitForInk();
+    expect(app.output()).toContain("OSS");
+
+    // Remove the first root
+    await app.input(up);
+    await app.input("\x04");
+    await app.input("y");
+    await app.input(escape);
+    await waitForInk();
+    await app.input(escape);
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
+      roots: [{ path: "/mnt/oss", label: "OSS", maxDepth: 2, skipDirs: DEFAULT_SKIP_DIRS }],
+    }));
+    app.cleanup();
+  });
+
+  it("adds a custom command to the project actions", async () => {
+    const onSave = vi.fn();
+    const app = renderInk(
+      <SettingsScreen
+        settings={DEFAULT_SETTINGS}
+        onSave={onSave}
+        onClearHistory={vi.fn()}
+        onTab={vi.fn()}
+        onClose={vi.fn()}
+        tabBar={null}
+      />
+    );
+
+    await moveToSetting(app, "actions");
+    await app.input(enter);
+    await waitForInk();
+    expect(app.output()).toContain("[Add action]");
+
+    // [Add action] is just above the first action
+    await app.input(up);
+    await app.input(enter);
+    for (const char of "Lint") {
+      await app.input(char);
+    }
+    await app.input(enter);
+    await moveDown(app, 2);
+    await app.input(enter);
+    for (const char of "npm run lint") {
+      await app.input(char);
+    }
+    await app.input(enter);
+    await app.input(escape);
+    await waitForInk();
+    await app.input(escape);
+    await waitForInk();
+    await app.input(escape);
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
+      actions: [...DEFAULT_ACTIONS, { type: "command", label: "Lint", command: "npm run lint" }],
+    }));
+    app.cleanup();
+  });
 });
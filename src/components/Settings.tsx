@@ -1,15 +1,22 @@
 import React, { useState } from "react";
 import { Box, Text, useInput } from "ink";
 import TextInput from "./TextInput.js";
+import { RootsEditor } from "./RootsEditor.js";
+import { ActionsEditor } from "./ActionsEditor.js";
 import open from "open";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import type { Settings } from "../types.js";
 import { SETTING_FIELDS } from "../settings.js";
 import { clearHistory } from "../history.js";
+import { getRootLabel } from "../scanner.js";
 
 const CONFIG_FILE = join(homedir(), ".dash-cli", "settings.json");
 
+function truncate(value: string): string {
+  return value.length > 35 ? value.slice(0, 32) + "..." : value;
+}
+
 interface SettingsProps {
   settings: Settings;
   onSave: (settings: Settings) => void;
@@ -25,6 +32,8 @@ export function SettingsScreen({ settings, onSave, onClearHistory, onTab, onClos
   const [editingKey, setEditingKey] = useState<keyof Settings | null>(null);
   const [editValue, setEditValue] = useState("");
   const [localSettings, setLocalSettings] = useState<Settings>({ ...settings });
+  const [editingRoots, setEditingRoots] = useState(false);
+  const [editingActions, setEditingActions] = useState(false);
 
   // Filter fields based on showIf condition
   const visibleFields = SETTING_FIELDS.filter(
@@ -49,7 +58,12 @@ export function SettingsScreen({ settings, onSave, onClearHistory, onTab, onClos
   };
 
   const handleClearHistory = () => {
-    clearHistory();
+    try {
+      clearHistory();
+    } catch (err) {
+      console.error("Failed to clear history:", err);
+      return;
+    }
     onClearHistory();
     setHistoryCleared(true);
   };
@@ -75,6 +89,31 @@ export function SettingsScreen({ settings, onSave, onClearHistory, onTab, onClos
       return;
     }
 
+    // Roots type: open the roots sub-screen
+    if (field.type === "roots") {
+      setEditingRoots(true);
+      return;
+    }
+
+    // Actions type: open the actions sub-screen
+    if (field.type === "actions") {
+      setEditingActions(true);
+      return;
+    }
+
+    // Select type: cycle to the next option
+    if (field.type === "select" && field.options) {
+      const options = field.options;
+      setLocalSettings((prev) => {
+        const current = options.findIndex((o) => o.value === prev[field.key]);
+        return {
+          ...prev,
+          [field.key]: options[(current + 1) % options.length].value,
+        };
+      });
+      return;
+    }
+
     setEditingKey(field.key);
     setEditValue(String(value));
   };
@@ -236,18 +275,24 @@ export function SettingsScreen({ settings, onSave, onClearHistory, onTab, onClos
       );
       return;
     }
-  });
+  }, { isActive: !editingRoots && !editingActions });
 
-  const formatValue = (field: (typeof SETTING_FIELDS)[0], value: string | number | boolean): string => {
+  const formatValue = (field: (typeof SETTING_FIELDS)[0], value: Settings[keyof Settings]): string => {
+    if (field.type === "roots" && Array.isArray(value)) {
+      return value.length === 0 ? "None" : truncate(localSettings.roots.map(getRootLabel).join(", "));
+    }
+    if (field.type === "actions" && Array.isArray(value)) {
+      return value.length === 0 ? "None" : truncate(localSettings.actions.map((a) => a.label).join(", "));
+    }
     if (field.type === "toggle") {
       return value ? "Yes" : "No";
     }
-    const str = String(value);
-    if (field.type === "text" && str.length > 35) {
-      return str.slice(0, 32) + "...";
+    if (field.type === "select") {
+      return field.options?.find((o) => o.value === value)?.label ?? String(value);
     }
-    if (field.type === "path" && str.length > 35) {
-      return str.slice(0, 32) + "...";
+    const str = String(value);
+    if (field.type === "text") {
+      return truncate(str);
     }
     if (field.type === "key") {
       return `Ctrl+${str.toUpperCase()}`;
@@ -255,6 +300,30 @@ export function SettingsScreen({ settings, onSave, onClearHistory, onTab, onClos
     return str;
   };
 
+  if (editingRoots) {
+    return (
+      <RootsEditor
+        roots={localSettings.roots}
+        onChange={(roots) => setLocalSettings((prev) => ({ ...prev, roots }))}
+        onBack={() => setEditingRoots(false)}
+        selectedColor={localSettings.selectedColor}
+        tabBar={tabBar}
+      />
+    );
+  }
+
+  if (editingActions) {
+    return (
+      <ActionsEditor
+        actions={localSettings.actions}
+        onChange={(actions) => setLocalSettings((prev) => ({ ...prev, actions }))}
+        onBack={() => setEditingActions(false)}
+        selectedColor={localSettings.selectedColor}
+        tabBar={tabBar}
+      />
+    );
+  }
+
   return (
     <Box flexDirection="column">
       {/* Tab bar at top */}
@@ -269,7 +338,7 @@ export function SettingsScreen({ settings, onSave, onClearHistory, onTab, onClos
         const isFieldEditing = editingKey === field.key;
         const value = localSettings[field.key];
         const displayValue = formatValue(field, value);
-        const useTextInputForField = !["number", "key", "toggle"].includes(field.type);
+        const useTextInputForField = !["number", "key", "toggle", "select"].includes(field.type);
 
         return (
           <Box key={field.key} flexDirection="row">
@@ -343,6 +412,8 @@ export function SettingsScreen({ settings, onSave, onClearHistory, onTab, onClos
               : "  ←→ cursor • enter save • esc cancel"
             : currentField?.type === "toggle"
               ? "  tab/shift+tab • ↑↓ navigate • enter toggle • esc close"
+              : currentField?.type === "select"
+                ? "  tab/shift+tab • ↑↓ navigate • enter change • esc close"
               : "  tab/shift+tab • ↑↓ navigate • enter edit • esc close"}
         </Text>
       </Box>
@@ -10,8 +10,10 @@ const updateShortcut = vi.fn((id: string, updates: Partial<Shortcut>) => ({
   id,
 }));
 const validateTrigger = vi.fn(() => ({ valid: true }));
+const addShortcut = vi.fn((input: Omit<Shortcut, "id" | "createdAt">) => ({ ...input, id: "copy", createdAt: 2 }));
 
 vi.mock("../shortcuts.js", () => ({
+  addShortcut: (...args: Parameters<typeof addShortcut>) => addShortcut(...args),
   updateShortcut: (...args: Parameters<typeof updateShortcut>) => updateShortcut(...args),
   validateTrigger: (...args: Parameters<typeof validateTrigger>) => validateTrigger(...args),
 }));
@@ -30,6 +32,7 @@ const shortcut: Shortcut = {
 describe("ShortcutEdit", () => {
   beforeEach(() => {
     updateShortcut.mockClear();
+    addShortcut.mockClear();
     validateTrigger.mockClear();
     validateTrigger.mockReturnValue({ valid: true });
   });
@@ -49,6 +52,7 @@ describe("ShortcutEdit", () => {
       />
     );
 
+    await app.input("\x1b[B");
     await app.input("\x1b[B");
     await app.input("\x1b[B");
     await app.input("\r");
@@ -79,7 +83,7 @@ describe("ShortcutEdit", () => {
       />
     );
 
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < 7; i++) {
       await app.input("\x1b[B");
     }
     await app.input("\x04");
@@ -102,7 +106,7 @@ describe("ShortcutEdit", () => {
       />
     );
 
-    for (let i = 0; i < 5; i++) {
+    for (let i = 0; i < 8; i++) {
       await app.input("\x1b[B");
     }
     await app.input("\r");
@@ -117,6 +121,72 @@ describe("ShortcutEdit", () => {
     app.cleanup();
   });
 
+  it("saves the group and comma-separated tags", async () => {
+    const app = renderInk(
+      <ShortcutEdit
+        shortcut={{ ...shortcut, tags: ["old"] }}
+        allShortcuts={[shortcut]}
+        onSave={vi.fn()}
+        onBack={vi.fn()}
+        onTab={vi.fn()}
+        selectedColor="yellow"
+        tabBar={null}
+      />
+    );
+
+    expect(app.output()).toContain("Tags: old");
+    for (let i = 0; i < 5; i++) {
+      await app.input("\x1b[B");
+    }
+    await app.input("\r");
+    for (const char of "Work") {
+      await app.input(char);
+    }
+    await app.input("\r");
+    await app.input("\x1b[B");
+    await app.input("\r");
+    for (const char of ", api") {
+      await app.input(char);
+    }
+    await app.input("\r");
+    await app.input("\x1b");
+
+    expect(updateShortcut).toHaveBeenCalledWith("one", expect.objectContaining({
+      group: "Work",
+      tags: ["old", " api"],
+    }));
+    app.cleanup();
+  });
+
+  it("saves comma-separated aliases", async () => {
+    const app = renderInk(
+      <ShortcutEdit
+        shortcut={{ ...shortcut, aliases: ["one"] }}
+        allShortcuts={[shortcut]}
+        onSave={vi.fn()}
+        onBack={vi.fn()}
+        onTab={vi.fn()}
+        selectedColor="yellow"
+        tabBar={null}
+      />
+    );
+
+    expect(app.output()).toContain("Aliases: one");
+    await app.input("\x1b[B");
+    await app.input("\r");
+    for (const char of ", uno,") {
+      await app.input(char);
+    }
+    await app.input("\r");
+    await app.input("\x1b");
+
+    expect(updateShortcut).toHaveBeenCalledWith("one", expect.objectContaining({
+      trigger: "1",
+      aliases: ["one", "uno"],
+    }));
+    app.cleanup();
+  });
+
   it("shows validation errors instead of saving invalid shortcuts", async () => {
     validateTrigger.mockReturnValueOnce({ valid: false, error: "bad trigger" });
     const app = renderInk(
@@ -137,4 +207,49 @@ describe("ShortcutEdit", () => {
     expect(app.output()).toContain("bad trigger");
     app.cleanup();
   });
+
+  it("keeps repo shortcuts read-only and copies them into the user's shortcuts", async () => {
+    const repoShortcut: Shortcut = {
+      ...shortcut,
+      id: "/work/api/.dash.json#test",
+      trigger: "api:test",
+      command: ["npm test"],
+      pinned: false,
+      repo: "/work/api",
+    };
+    const onCopy = vi.fn();
+    const onBack = vi.fn();
+    const app = renderInk(
+      <ShortcutEdit
+        shortcut={repoShortcut}
+        allShortcuts={[shortcut]}
+        onSave={vi.fn()}
+        onCopy={onCopy}
+        onBack={onBack}
+        onTab={vi.fn()}
+        selectedColor="yellow"
+        tabBar={null}
+      />
+    );
+
+    expect(app.output()).toContain("From /work/api");
+    await app.input("\r");
+    expect(app.output()).toContain("Repo shortcuts are read-only");
+
+    for (let i = 0; i < 8; i++) {
+      await app.input("\x1b[B");
+    }
+    await app.input("\r");
+    expect(addShortcut).toHaveBeenCalledWith(expect.objectContaining({
+      trigger: "api:test",
+      command: [expect.stringContaining("/work/api"), "npm test"],
+    }));
+    expect(addShortcut.mock.calls[0][0]).not.toHaveProperty("repo");
+    expect(onCopy).toHaveBeenCalledWith(expect.objectContaining({ id: "copy" }));
+
+    await app.input("\x1b");
+    expect(updateShortcut).not.toHaveBeenCalled();
+    expect(onBack).toHaveBeenCalledTimes(1);
+    app.cleanup();
+  });
 });
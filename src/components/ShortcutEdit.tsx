@@ -2,19 +2,22 @@ import React, { useState, useEffect } from "react";
 import { Box, Text, useInput, useStdout } from "ink";
 import TextInput from "./TextInput.js";
 import type { Shortcut } from "../types.js";
-import { updateShortcut, validateTrigger } from "../shortcuts.js";
+import { addShortcut, updateShortcut, validateTrigger } from "../shortcuts.js";
+import { toUserShortcut } from "../repoShortcuts.js";
+import { getShortcutParams, formatParams } from "../params.js";
 
 interface ShortcutEditProps {
   shortcut: Shortcut;
   allShortcuts: Shortcut[];
   onSave: (updated: Shortcut) => void;
+  onCopy?: (copy: Shortcut) => void;  // A repo shortcut was copied into the user's shortcuts
   onBack: () => void;
   onTab: (reverse?: boolean) => void;
   selectedColor: string;
   tabBar: React.ReactNode;
 }
 
-type FieldKey = "name" | "trigger" | "caseSensitive" | "pinned" | `cmd-${number}` | "add-line";
+type FieldKey = "name" | "trigger" | "aliases" | "caseSensitive" | "pinned" | "group" | "tags" | `cmd-${number}` | "add-line" | "copy";
 
 interface Field {
   key: FieldKey;
@@ -22,10 +25,19 @@ interface Field {
   type: "text" | "toggle" | "action";
 }
 
+// Aliases are typed as a comma-separated list
+function parseAliases(text: string): string[] {
+  return text.split(",").map((alias) => alias.trim()).filter(Boolean);
+}
+
+// Command lines come after the fixed fields
+const FIRST_COMMAND_INDEX = 7;
+
 export function ShortcutEdit({
   shortcut,
   allShortcuts,
   onSave,
+  onCopy,
   onBack,
   onTab,
   selectedColor,
@@ -38,31 +50,45 @@ export function ShortcutEdit({
   // Local state for editing
   const [name, setName] = useState(shortcut.name);
   const [trigger, setTrigger] = useState(shortcut.trigger);
+  const [aliases, setAliases] = useState((shortcut.aliases ?? []).join(", "));
   const [caseSensitive, setCaseSensitive] = useState(shortcut.caseSensitive);
   const [pinned, setPinned] = useState(shortcut.pinned ?? true);
+  const [group, setGroup] = useState(shortcut.group ?? "");
+  const [tags, setTags] = useState((shortcut.tags ?? []).join(", "));
   const [commands, setCommands] = useState([...shortcut.command]);
 
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [editingField, setEditingField] = useState<FieldKey | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Repo shortcuts belong to the project's .dash.json; they can only be copied
+  const readOnly = shortcut.repo !== undefined;
+
   // Build dynamic field list (trigger is primary identifier, so first)
   const fields: Field[] = [
     { key: "trigger", label: "Trigger", type: "text" },
+    { key: "aliases", label: "Aliases", type: "text" },
     { key: "name", label: "Name", type: "text" },
     { key: "caseSensitive", label: "Case Sensitive", type: "toggle" },
     { key: "pinned", label: "Pinned", type: "toggle" },
+    { key: "group", label: "Group", type: "text" },
+    { key: "tags", label: "Tags", type: "text" },
     ...commands.map((_, i) => ({
       key: `cmd-${i}` as FieldKey,
       label: `Command ${i + 1}`,
       type: "text" as const,
     })),
-    { key: "add-line", label: "[Add line]", type: "action" },
+    readOnly
+      ? { key: "copy", label: "[Copy to my shortcuts]", type: "action" }
+      : { key: "add-line", label: "[Add line]", type: "action" },
   ];
 
   const totalItems = fields.length;
   const currentField = fields[selectedIndex];
 
+  // Parameters declared by {placeholders} in the current command lines
+  const params = getShortcutParams(commands);
+
   // Clear error after a delay
   useEffect(() => {
     if (error) {
@@ -74,8 +100,11 @@ export function ShortcutEdit({
   const getValue = (key: FieldKey): string => {
     if (key === "name") return name;
     if (key === "trigger") return trigger;
+    if (key === "aliases") return aliases;
     if (key === "caseSensitive") return caseSensitive ? "Yes" : "No";
     if (key === "pinned") return pinned ? "Yes" : "No";
+    if (key === "group") return group;
+    if (key === "tags") return tags;
     if (key.startsWith("cmd-")) {
       const idx = parseInt(key.split("-")[1], 10);
       return commands[idx] ?? "";
@@ -86,6 +115,9 @@ export function ShortcutEdit({
   const handleChange = (key: FieldKey, value: string) => {
     if (key === "name") setName(value);
     if (key === "trigger") setTrigger(value);
+    if (key === "aliases") setAliases(value);
+    if (key === "group") setGroup(value);
+    if (key === "tags") setTags(value);
     if (key.startsWith("cmd-")) {
       const idx = parseInt(key.split("-")[1], 10);
       setCommands((prev) => {
@@ -96,7 +128,23 @@ export function ShortcutEdit({
     }
   };
 
+  const copyToUserShortcuts = () => {
+    try {
+      onCopy?.(addShortcut(toUserShortcut(shortcut)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to copy");
+    }
+  };
+
   const startEditing = (field: Field) => {
+    if (field.key === "copy") {
+      copyToUserShortcuts();
+      return;
+    }
+    if (readOnly) {
+      setError("Repo shortcuts are read-only; copy it to your shortcuts to change it");
+      return;
+    }
     if (field.type === "toggle") {
       if (field.key === "caseSensitive") setCaseSensitive((prev) => !prev);
       if (field.key === "pinned") setPinned((prev) => !prev);
@@ -106,7 +154,7 @@ export function ShortcutEdit({
       // Add new line and immediately enter edit mode for it
       const newCmdIndex = commands.length;
       setCommands((prev) => [...prev, ""]);
-      setSelectedIndex(4 + newCmdIndex); // Select the new command line
+      setSelectedIndex(FIRST_COMMAND_INDEX + newCmdIndex); // Select the new command line
       setEditingField(`cmd-${newCmdIndex}`); // Enter edit mode immediately
       return;
     }
@@ -118,14 +166,14 @@ export function ShortcutEdit({
   };
 
   const deleteCommandLine = () => {
-    if (!currentField.key.startsWith("cmd-")) return;
+    if (readOnly || !currentField.key.startsWith("cmd-")) return;
     if (commands.length <= 1) {
       setError("Cannot delete - at least one command required");
       return;
     }
     const idx = parseInt(currentField.key.split("-")[1], 10);
     setCommands((prev) => prev.filter((_, i) => i !== idx));
-    if (selectedIndex >= 4 + commands.length - 1) {
+    if (selectedIndex >= FIRST_COMMAND_INDEX + commands.length - 1) {
       setSelectedIndex((prev) => prev - 1);
     }
   };
@@ -152,8 +200,11 @@ export function ShortcutEdit({
       const updated = updateShortcut(shortcut.id, {
         name: name.trim(),
         trigger,
+        aliases: parseAliases(aliases),
         caseSensitive,
         pinned,
+        group: group.trim(),
+        tags: tags.split(","),
         command: nonEmptyCommands,
       });
       onSave(updated);
@@ -197,11 +248,19 @@ export function ShortcutEdit({
 
     // Escape - save and go back to shortcuts list
     if (key.escape) {
-      saveAndExit();
+      if (readOnly) {
+        onBack();
+      } else {
+        saveAndExit();
+      }
       return;
     }
 
     // Tab - save and cycle tabs (Shift+Tab for reverse)
+    if (key.tab && readOnly) {
+      onTab(key.shift);
+      return;
+    }
     if (key.tab) {
       // Save first
       const validation = validateTrigger(trigger, caseSensitive, shortcut.id);
@@ -222,8 +281,11 @@ export function ShortcutEdit({
         const updated = updateShortcut(shortcut.id, {
           name: name.trim(),
           trigger,
+          aliases: parseAliases(aliases),
           caseSensitive,
           pinned,
+          group: group.trim(),
+          tags: tags.split(","),
           command: nonEmptyCommands,
         });
         onSave(updated);
@@ -273,27 +335,33 @@ export function ShortcutEdit({
 
       <Box>
         <Text color="gray" dimColor>
-          ── Edit Shortcut ───────────────
+          {readOnly ? "── Repo Shortcut (read-only) ───" : "── Edit Shortcut ───────────────"}
         </Text>
       </Box>
+      {readOnly && (
+        <Box>
+          <Text dimColor wrap="truncate-middle">{"  "}From {shortcut.repo}</Text>
+        </Box>
+      )}
 
       {/* Trigger field */}
       {renderField(fields[0], 0)}
 
-      {/* Name field */}
+      {/* Aliases and name fields */}
       {renderField(fields[1], 1)}
+      {renderField(fields[2], 2)}
 
       {/* Case Sensitive toggle */}
       <Box>
         <Text
-          color={selectedIndex === 2 ? selectedColor : undefined}
-          bold={selectedIndex === 2}
+          color={selectedIndex === 3 ? selectedColor : undefined}
+          bold={selectedIndex === 3}
         >
-          {selectedIndex === 2 ? "> " : "  "}
+          {selectedIndex === 3 ? "> " : "  "}
           Case Sensitive:
         </Text>
         <Text> </Text>
-        <Text color={selectedIndex === 2 ? selectedColor : "white"}>
+        <Text color={selectedIndex === 3 ? selectedColor : "white"}>
           {caseSensitive ? "Yes" : "No"}
         </Text>
       </Box>
@@ -301,18 +369,22 @@ export function ShortcutEdit({
       {/* Pinned toggle */}
       <Box>
         <Text
-          color={selectedIndex === 3 ? selectedColor : undefined}
-          bold={selectedIndex === 3}
+          color={selectedIndex === 4 ? selectedColor : undefined}
+          bold={selectedIndex === 4}
         >
-          {selectedIndex === 3 ? "> " : "  "}
+          {selectedIndex === 4 ? "> " : "  "}
           Pinned:
         </Text>
         <Text> </Text>
-        <Text color={selectedIndex === 3 ? selectedColor : "white"}>
+        <Text color={selectedIndex === 4 ? selectedColor : "white"}>
           {pinned ? "Yes" : "No"}
         </Text>
       </Box>
 
+      {/* Group and tags */}
+      {renderField(fields[5], 5)}
+      {renderField(fields[6], 6)}
+
       {/* Commands section */}
       <Box>
         <Text color="gray" dimColor>
@@ -321,7 +393,7 @@ export function ShortcutEdit({
       </Box>
 
       {commands.map((cmd, idx) => {
-        const fieldIdx = 4 + idx;
+        const fieldIdx = FIRST_COMMAND_INDEX + idx;
         const field = fields[fieldIdx];
         const isSelected = selectedIndex === fieldIdx;
         const isEditing = editingField === `cmd-${idx}`;
@@ -368,10 +440,19 @@ export function ShortcutEdit({
           color={selectedIndex === fields.length - 1 ? selectedColor : "cyan"}
           bold={selectedIndex === fields.length - 1}
         >
-          [Add line]
+          {fields[fields.length - 1].label}
         </Text>
       </Box>
 
+      {/* Declared parameters */}
+      {params.length > 0 && (
+        <Box>
+          <Text dimColor>
+            {"  "}Params: {formatParams(params)}
+          </Text>
+        </Box>
+      )}
+
       {/* Error message */}
       {error && (
         <Box marginTop={1}>
@@ -387,7 +468,9 @@ export function ShortcutEdit({
 
       <Box marginTop={1}>
         <Text dimColor>
-          {"  "}tab/shift+tab • enter edit • ^D delete line • esc save & back
+          {"  "}{readOnly
+            ? "tab/shift+tab • enter on copy to edit your own copy • esc back"
+            : "tab/shift+tab • enter edit • ^D delete line • esc save & back"}
         </Text>
       </Box>
     </Box>
@@ -1,11 +1,13 @@
 import React from "react";
 import { describe, expect, it, vi } from "vitest";
+import { moveShortcut } from "../shortcuts.js";
 import { ShortcutsEditor } from "./ShortcutsEditor.js";
 import { DEFAULT_SETTINGS } from "../settings.js";
 import type { Shortcut } from "../types.js";
 import { renderInk } from "../test/ink.js";
 
-vi.mock("../shortcuts.js", () => ({
+vi.mock("../shortcuts.js", async (importOriginal) => ({
+  groupShortcuts: (await importOriginal<typeof import("../shortcuts.js")>()).groupShortcuts,
   removeShortcut: vi.fn(),
   clearShortcuts: vi.fn(),
   moveShortcut: vi.fn((_id: string, targetIndex: number) => {
@@ -125,4 +127,86 @@ describe("ShortcutsEditor", () => {
     expect(onClose).toHaveBeenCalledTimes(1);
     app.cleanup();
   });
+
+  it("collapses groups and moves shortcuts across them", async () => {
+    const onUpdate = vi.fn();
+    const onEditShortcut = vi.fn();
+    const onAddShortcut = vi.fn();
+    const [one, two] = sampleShortcuts();
+    const app = renderInk(
+      <ShortcutsEditor
+        shortcuts={[one, { ...two, group: "Work", tags: ["api"] }]}
+        onUpdate={onUpdate}
+        onEditShortcut={onEditShortcut}
+        onAddShortcut={onAddShortcut}
+        onTab={vi.fn()}
+        onClose={vi.fn()}
+        selectedColor="yellow"
+        tabBar={null}
+        settings={DEFAULT_SETTINGS}
+      />
+    );
+
+    expect(app.output()).toContain("▾ Work");
+    expect(app.output()).toContain("#api");
+
+    // Ungrouped "One" moves down past the end of its section into Work
+    await app.input("\x0f");
+    await app.input("\x1b[B");
+    await app.input("\x1b[B");
+    await app.input("\r");
+    expect(moveShortcut).toHaveBeenLastCalledWith("one", 1, "Work");
+
+    // Enter on the group header closes it, hiding its shortcuts from the selection
+    await app.input("\x1b[A");
+    await app.input("\r");
+    expect(app.output()).toContain("▸ Work");
+    await app.input("\x1b[B");
+    await app.input("\r");
+    expect(onAddShortcut).toHaveBeenCalledTimes(1);
+    expect(onEditShortcut).not.toHaveBeenCalled();
+    app.cleanup();
+  });
+
+  it("lists repo shortcuts per project, opened but not deleted", async () => {
+    const onEditShortcut = vi.fn();
+    const repoShortcut: Shortcut = {
+      id: "/work/api/.dash.json#test",
+      name: "test",
+      trigger: "api:test",
+      caseSensitive: false,
+      command: ["npm test"],
+      repo: "/work/api",
+      createdAt: 0,
+    };
+    const app = renderInk(
+      <ShortcutsEditor
+        shortcuts={sampleShortcuts()}
+        repoShortcuts={[repoShortcut]}
+        onUpdate={vi.fn()}
+        onEditShortcut={onEditShortcut}
+        onAddShortcut={vi.fn()}
+        onTab={vi.fn()}
+        onClose={vi.fn()}
+        selectedColor="yellow"
+        tabBar={null}
+        settings={DEFAULT_SETTINGS}
+      />
+    );
+
+    expect(app.output()).toContain("▸ api (repo)");
+    expect(app.output()).not.toContain("api:test");
+
+    await app.input("\x1b[B");
+    await app.input("\x1b[B");
+    await app.input("\r");
+    expect(app.output()).toContain("api:test");
+
+    await app.input("\x1b[B");
+    await app.input("\x04");
+    expect(app.output()).not.toContain("Delete?");
+    await app.input("\r");
+    expect(onEditShortcut).toHaveBeenCalledWith("/work/api/.dash.json#test");
+    app.cleanup();
+  });
 });
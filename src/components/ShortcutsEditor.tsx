@@ -1,10 +1,12 @@
 import React, { useState } from "react";
+import { basename } from "node:path";
 import { Box, Text, useInput } from "ink";
-import type { Shortcut, Settings } from "../types.js";
-import { removeShortcut, clearShortcuts, moveShortcut } from "../shortcuts.js";
+import type { Shortcut, ShortcutGroup, Settings } from "../types.js";
+import { removeShortcut, clearShortcuts, moveShortcut, groupShortcuts } from "../shortcuts.js";
 
 interface ShortcutsEditorProps {
   shortcuts: Shortcut[];
+  repoShortcuts?: Shortcut[];  // From the projects' .dash.json files; can be opened but not changed
   onUpdate: (shortcuts: Shortcut[]) => void;
   onEditShortcut: (id: string) => void;
   onAddShortcut: () => void;
@@ -18,11 +20,39 @@ interface ShortcutsEditorProps {
 interface MoveMode {
   shortcutId: string;
   originalIndex: number;
-  currentIndex: number;
+  group: string | null;  // Group the shortcut is being moved into
+  position: number;  // Position within that group
+}
+
+type Row =
+  | { type: "group"; name: string; count: number; collapsed: boolean; repo?: string }  // repo: project path of a repo section
+  | { type: "shortcut"; shortcut: Shortcut; grouped: boolean };
+
+// One row per shortcut, with a header row above each named group (collapsed groups hide their shortcuts)
+function buildRows(groups: ShortcutGroup[], collapsed: Set<string>): Row[] {
+  return groups.flatMap((group): Row[] => {
+    const rows: Row[] = group.shortcuts.map((shortcut) => ({ type: "shortcut", shortcut, grouped: group.name !== null }));
+    if (group.name === null) return rows;
+    const isCollapsed = collapsed.has(group.name);
+    return [{ type: "group", name: group.name, count: group.shortcuts.length, collapsed: isCollapsed }, ...(isCollapsed ? [] : rows)];
+  });
+}
+
+// A section per project with repo shortcuts, closed unless opened
+function buildRepoRows(shortcuts: Shortcut[], open: Set<string>): Row[] {
+  const byRepo = new Map<string, Shortcut[]>();
+  for (const shortcut of shortcuts) {
+    if (shortcut.repo) byRepo.set(shortcut.repo, [...(byRepo.get(shortcut.repo) ?? []), shortcut]);
+  }
+  return [...byRepo].flatMap(([repo, members]): Row[] => [
+    { type: "group", name: `${basename(repo)} (repo)`, count: members.length, collapsed: !open.has(repo), repo },
+    ...(open.has(repo) ? members.map((shortcut): Row => ({ type: "shortcut", shortcut, grouped: true })) : []),
+  ]);
 }
 
 export function ShortcutsEditor({
   shortcuts,
+  repoShortcuts = [],
   onUpdate,
   onEditShortcut,
   onAddShortcut,
@@ -36,42 +66,78 @@ export function ShortcutsEditor({
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
   const [confirmClearAll, setConfirmClearAll] = useState(false);
   const [moveMode, setMoveMode] = useState<MoveMode | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [openRepos, setOpenRepos] = useState<Set<string>>(() => new Set());
+
+  const groups = groupShortcuts(shortcuts);
+
+  // Groups a shortcut can be moved through: ungrouped first, then every named group
+  const groupNames = [null, ...groups.map((g) => g.name).filter((name): name is string => name !== null)];
+  const moving = moveMode ? shortcuts.find((s) => s.id === moveMode.shortcutId) : undefined;
+  const others = moving ? groups.map((g) => ({ ...g, shortcuts: g.shortcuts.filter((s) => s !== moving) })) : groups;
+  const othersIn = (name: string | null) => others.find((g) => g.name === name)?.shortcuts ?? [];
 
-  // Items: shortcuts + "Add new shortcut" + "Clear all" (if shortcuts exist)
+  // While moving, the shortcut is shown at its target, with the target group open
+  const displayGroups: ShortcutGroup[] = moveMode && moving
+    ? groupNames
+      .map((name) => {
+        const members = [...othersIn(name)];
+        if (name === moveMode.group) members.splice(moveMode.position, 0, moving);
+        return { name, shortcuts: members };
+      })
+      .filter((g) => g.shortcuts.length > 0)
+    : groups;
+  const displayCollapsed = new Set([...collapsed].filter((name) => name !== moveMode?.group));
+  const rows = [...buildRows(displayGroups, displayCollapsed), ...buildRepoRows(repoShortcuts, openRepos)];
+
+  // Items: rows + "Add new shortcut" + "Clear all" (if shortcuts exist)
   const hasClearAll = shortcuts.length > 0;
-  const totalItems = shortcuts.length + 1 + (hasClearAll ? 1 : 0);
-  const addNewIndex = shortcuts.length;
-  const clearAllIndex = shortcuts.length + 1;
-  const isOnAddNew = selectedIndex === addNewIndex;
-  const isOnClearAll = hasClearAll && selectedIndex === clearAllIndex;
+  const totalItems = rows.length + 1 + (hasClearAll ? 1 : 0);
+  const addNewIndex = rows.length;
+  const clearAllIndex = rows.length + 1;
+  // Deleting can leave the selection past the end
+  const selected = Math.min(selectedIndex, totalItems - 1);
+  const isOnAddNew = selected === addNewIndex;
+  const isOnClearAll = hasClearAll && selected === clearAllIndex;
+  const selectedRow = rows[selected];
+  const selectedShortcut = selectedRow?.type === "shortcut" ? selectedRow.shortcut : undefined;
+  // Repo shortcuts can't be moved or deleted
+  const isOwnShortcut = selectedShortcut !== undefined && !selectedShortcut.repo;
 
   useInput((input, key) => {
     // Handle move mode
     if (moveMode) {
+      const groupIndex = groupNames.indexOf(moveMode.group);
+
       if (key.upArrow) {
-        setMoveMode((prev) => {
-          if (!prev) return null;
-          const newIndex = Math.max(0, prev.currentIndex - 1);
-          return { ...prev, currentIndex: newIndex };
-        });
+        if (moveMode.position > 0) {
+          setMoveMode({ ...moveMode, position: moveMode.position - 1 });
+        } else if (groupIndex > 0) {
+          // Into the end of the group above
+          const group = groupNames[groupIndex - 1];
+          setMoveMode({ ...moveMode, group, position: othersIn(group).length });
+        }
         return;
       }
 
       if (key.downArrow) {
-        setMoveMode((prev) => {
-          if (!prev) return null;
-          const newIndex = Math.min(shortcuts.length - 1, prev.currentIndex + 1);
-          return { ...prev, currentIndex: newIndex };
-        });
+        if (moveMode.position < othersIn(moveMode.group).length) {
+          setMoveMode({ ...moveMode, position: moveMode.position + 1 });
+        } else if (groupIndex < groupNames.length - 1) {
+          // Into the start of the group below
+          setMoveMode({ ...moveMode, group: groupNames[groupIndex + 1], position: 0 });
+        }
         return;
       }
 
       if (key.return) {
-        // Save move
+        // Save move: the target as an index into the grouped order
+        const before = groupNames.slice(0, groupIndex).reduce((sum, name) => sum + othersIn(name).length, 0);
         try {
-          const updated = moveShortcut(moveMode.shortcutId, moveMode.currentIndex);
+          const updated = moveShortcut(moveMode.shortcutId, before + moveMode.position, moveMode.group);
           onUpdate(updated);
-          setSelectedIndex(moveMode.currentIndex);
+          setCollapsed(displayCollapsed);
+          setSelectedIndex(rows.findIndex((row) => row.type === "shortcut" && row.shortcut.id === moveMode.shortcutId));
         } catch (err) {
           console.error("Failed to move shortcut:", err);
         }
@@ -92,10 +158,14 @@ export function ShortcutsEditor({
     // Handle clear all confirmation
     if (confirmClearAll) {
       if (input === "y" || input === "Y") {
-        clearShortcuts();
-        onUpdate([]);
+        try {
+          clearShortcuts();
+          onUpdate([]);
+          setSelectedIndex(0);
+        } catch (err) {
+          console.error("Failed to clear shortcuts:", err);
+        }
         setConfirmClearAll(false);
-        setSelectedIndex(0);
       } else {
         // Any other key cancels
         setConfirmClearAll(false);
@@ -106,13 +176,17 @@ export function ShortcutsEditor({
     // Handle delete confirmation
     if (confirmDelete) {
       if (input === "y" || input === "Y") {
-        removeShortcut(confirmDelete);
-        onUpdate(shortcuts.filter((s) => s.id !== confirmDelete));
-        setConfirmDelete(null);
-        // Adjust selection if needed
-        if (selectedIndex >= shortcuts.length - 1) {
-          setSelectedIndex(Math.max(0, shortcuts.length - 2));
+        try {
+          removeShortcut(confirmDelete);
+          onUpdate(shortcuts.filter((s) => s.id !== confirmDelete));
+          // Adjust selection if needed
+          if (selected >= rows.length - 1) {
+            setSelectedIndex(Math.max(0, rows.length - 2));
+          }
+        } catch (err) {
+          console.error("Failed to remove shortcut:", err);
         }
+        setConfirmDelete(null);
       } else {
         // Any other key cancels
         setConfirmDelete(null);
@@ -122,34 +196,48 @@ export function ShortcutsEditor({
 
     // Navigation
     if (key.upArrow) {
-      setSelectedIndex((prev) => (prev > 0 ? prev - 1 : totalItems - 1));
+      setSelectedIndex(selected > 0 ? selected - 1 : totalItems - 1);
       return;
     }
 
     if (key.downArrow) {
-      setSelectedIndex((prev) => (prev < totalItems - 1 ? prev + 1 : 0));
+      setSelectedIndex(selected < totalItems - 1 ? selected + 1 : 0);
       return;
     }
 
-    // Enter - edit, add, or clear all
+    // Enter - edit, add, clear all, or open/close a group
     if (key.return) {
       if (isOnClearAll) {
         setConfirmClearAll(true);
       } else if (isOnAddNew) {
         onAddShortcut();
-      } else {
-        onEditShortcut(shortcuts[selectedIndex].id);
+      } else if (selectedRow?.type === "group") {
+        const toggle = (prev: Set<string>, name: string) => {
+          const next = new Set(prev);
+          if (!next.delete(name)) next.add(name);
+          return next;
+        };
+        const { name, repo } = selectedRow;
+        if (repo) {
+          setOpenRepos((prev) => toggle(prev, repo));
+        } else {
+          setCollapsed((prev) => toggle(prev, name));
+        }
+      } else if (selectedShortcut) {
+        onEditShortcut(selectedShortcut.id);
       }
       return;
     }
 
     // Ctrl+O - enter move mode (only on shortcut items)
     if (key.ctrl && input === settings.moveKey) {
-      if (!isOnAddNew && !isOnClearAll && shortcuts.length > 0) {
+      if (selectedShortcut && isOwnShortcut) {
+        const group = selectedShortcut.group ?? null;
         setMoveMode({
-          shortcutId: shortcuts[selectedIndex].id,
-          originalIndex: selectedIndex,
-          currentIndex: selectedIndex,
+          shortcutId: selectedShortcut.id,
+          originalIndex: selected,
+          group,
+          position: (groups.find((g) => g.name === group)?.shortcuts ?? []).indexOf(selectedShortcut),
         });
       }
       return;
@@ -157,8 +245,8 @@ export function ShortcutsEditor({
 
     // Ctrl+D - delete shortcut
     if (key.ctrl && input === "d") {
-      if (!isOnAddNew && !isOnClearAll && shortcuts.length > 0) {
-        setConfirmDelete(shortcuts[selectedIndex].id);
+      if (selectedShortcut && isOwnShortcut) {
+        setConfirmDelete(selectedShortcut.id);
       }
       return;
     }
@@ -195,44 +283,47 @@ export function ShortcutsEditor({
         </Box>
       )}
 
-      {(() => {
-        // Compute display order (reorder if in move mode)
-        let displayList = shortcuts;
-        if (moveMode) {
-          const reordered = [...shortcuts];
-          const movedIdx = reordered.findIndex((s) => s.id === moveMode.shortcutId);
-          if (movedIdx !== -1) {
-            const [moved] = reordered.splice(movedIdx, 1);
-            reordered.splice(moveMode.currentIndex, 0, moved);
-          }
-          displayList = reordered;
-        }
-
-        return displayList.map((sc, idx) => {
-          // In move mode, selection follows the moving item
-          const isSelected = moveMode
-            ? idx === moveMode.currentIndex
-            : idx === selectedIndex;
-          const isDeleting = confirmDelete === sc.id;
-          const isMoving = moveMode?.shortcutId === sc.id;
+      {rows.map((row, idx) => {
+        const isSelected = moveMode && row.type === "shortcut"
+          ? row.shortcut.id === moveMode.shortcutId  // In move mode, selection follows the moving item
+          : !moveMode && idx === selected;
 
+        if (row.type === "group") {
           return (
-            <Box key={sc.id}>
-              <Text color={isSelected ? selectedColor : undefined} bold={isSelected}>
+            <Box key={row.repo ? `repo-${row.repo}` : `group-${row.name}`}>
+              <Text color={isSelected ? selectedColor : undefined} bold>
                 {isSelected ? "> " : "  "}
-                {sc.name}
+                {row.collapsed ? "▸" : "▾"} {row.name}
               </Text>
-              <Text dimColor> [{sc.trigger}]</Text>
-              {isDeleting && (
-                <Text color="red"> Delete? (y/n)</Text>
-              )}
-              {isMoving && (
-                <Text color="yellow"> [MOVING]</Text>
-              )}
+              <Text dimColor> ({row.count})</Text>
             </Box>
           );
-        });
-      })()}
+        }
+
+        const sc = row.shortcut;
+        const isDeleting = confirmDelete === sc.id;
+        const isMoving = moveMode?.shortcutId === sc.id;
+
+        return (
+          <Box key={sc.id}>
+            <Text color={isSelected ? selectedColor : undefined} bold={isSelected}>
+              {isSelected ? "> " : "  "}
+              {row.grouped ? "  " : ""}
+              {sc.name}
+            </Text>
+            <Text dimColor> [{sc.trigger}]</Text>
+            {sc.tags && sc.tags.length > 0 && (
+              <Text color="gray"> {sc.tags.map((tag) => `#${tag}`).join(" ")}</Text>
+            )}
+            {isDeleting && (
+              <Text color="red"> Delete? (y/n)</Text>
+            )}
+            {isMoving && (
+              <Text color="yellow"> [MOVING]</Text>
+            )}
+          </Box>
+        );
+      })}
 
       <Box>
         <Text
@@ -266,8 +357,8 @@ export function ShortcutsEditor({
       <Box marginTop={1}>
         <Text dimColor>
           {"  "}{moveMode
-            ? "↑↓ move • enter save • esc cancel"
-            : `tab/shift+tab • ↑↓ navigate • enter edit${shortcuts.length > 0 ? ` • ^${settings.moveKey.toUpperCase()} move • ^D delete` : ""} • esc close`
+            ? "↑↓ move (across groups too) • enter save • esc cancel"
+            : `tab/shift+tab • ↑↓ navigate • enter edit/open group${shortcuts.length > 0 ? ` • ^${settings.moveKey.toUpperCase()} move • ^D delete` : ""} • esc close`
           }
         </Text>
       </Box>
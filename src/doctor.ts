@@ -0,0 +1,71 @@
+import { existsSync, readFileSync, renameSync } from "node:fs";
+import { basename } from "node:path";
+import { shortcutsStore } from "./shortcuts.js";
+import { historyStore } from "./history.js";
+import { settingsStore } from "./settings.js";
+import { trustStore } from "./trust.js";
+import { findCorruptCopies, parseStore, quarantineFile, writeFileAtomic, type JsonStore } from "./storage.js";
+
+// Health checks and repairs for the JSON stores in ~/.dash-cli
+
+export type StoreStatus = "ok" | "missing" | "corrupt" | "blocked";
+
+export interface StoreReport {
+  name: string;
+  file: string;
+  status: StoreStatus;
+  detail?: string;
+  corruptCopies: string[];
+}
+
+const STORES: JsonStore<unknown>[] = [shortcutsStore, historyStore, settingsStore, trustStore];
+
+function checkStore(store: JsonStore<unknown>): StoreReport {
+  const report = {
+    name: basename(store.file),
+    file: store.file,
+    corruptCopies: findCorruptCopies(store.file),
+  };
+
+  if (!existsSync(store.file)) {
+    return report.corruptCopies.length > 0
+      ? { ...report, status: "blocked", detail: `writes are blocked until repaired; last copy at ${report.corruptCopies.at(-1)}` }
+      : { ...report, status: "missing" };
+  }
+
+  const result = parseStore(store, readFileSync(store.file, "utf-8"));
+  return "error" in result ? { ...report, status: "corrupt", detail: result.error } : { ...report, status: "ok" };
+}
+
+export function checkStores(): StoreReport[] {
+  return STORES.map(checkStore);
+}
+
+/**
+ * Repairs every store that is corrupt or blocked. A quarantined copy that parses again
+ * (because it was fixed by hand) is restored; otherwise the store starts fresh and the
+ * corrupt copy is left for reference. Returns a description of each action taken.
+ */
+export function repairStores(): string[] {
+  const actions: string[] = [];
+
+  for (const store of STORES) {
+    const report = checkStore(store);
+    if (report.status === "ok" || report.status === "missing") continue;
+
+    if (report.status === "corrupt") {
+      quarantineFile(store.file, report.detail ?? "corrupt");
+    }
+
+    const latest = findCorruptCopies(store.file).at(-1)!;
+    if (!("error" in parseStore(store, readFileSync(latest, "utf-8")))) {
+      renameSync(latest, store.file);
+      actions.push(`${report.name}: restored from ${latest}`);
+    } else {
+      writeFileAtomic(store.file, JSON.stringify(store.empty(), null, 2));
+      actions.push(`${report.name}: started fresh; the corrupt copy is kept at ${latest}`);
+    }
+  }
+
+  return actions;
+}
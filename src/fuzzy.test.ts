@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyMatch } from "./fuzzy.js";
+
+function rank(query: string, targets: string[]): string[] {
+  return targets
+    .map((target) => ({ target, match: fuzzyMatch(query, target) }))
+    .filter((entry) => entry.match !== null)
+    .sort((a, b) => b.match!.score - a.match!.score)
+    .map((entry) => entry.target);
+}
+
+describe("fuzzyMatch", () => {
+  it("matches case-insensitive subsequences and rejects everything else", () => {
+    expect(fuzzyMatch("dcli", "dash-cli")?.positions).toEqual([0, 5, 6, 7]);
+    expect(fuzzyMatch("DASH", "dash-cli")).not.toBeNull();
+    expect(fuzzyMatch("xyz", "dash-cli")).toBeNull();
+    expect(fuzzyMatch("dash-cli-long", "dash-cli")).toBeNull();
+    expect(fuzzyMatch("", "anything")).toEqual({ score: 0, positions: [] });
+  });
+
+  it("prefers word boundaries, path segments, and consecutive runs", () => {
+    expect(rank("dc", ["abdcx", "dash-cli"])).toEqual(["dash-cli", "abdcx"]);
+    expect(rank("api", ["rapid", "work/api"])).toEqual(["work/api", "rapid"]);
+    expect(rank("cli", ["c-l-i", "dash-cli"])).toEqual(["dash-cli", "c-l-i"]);
+    expect(rank("ds", ["dashServer", "dashes"])).toEqual(["dashServer", "dashes"]);
+  });
+
+  it("chooses the best alignment rather than the first one", () => {
+    // Greedy matching would take the "a" in "data"; the boundary "a" in "-api" scores higher
+    expect(fuzzyMatch("api", "data-api")?.positions).toEqual([5, 6, 7]);
+  });
+});
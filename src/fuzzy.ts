@@ -0,0 +1,110 @@
+// Scored fuzzy matching for the project list search.
+// Query characters must appear in order (subsequence). Matches score higher when
+// they start words or path segments and when they run consecutively.
+
+export interface FuzzyMatch {
+  score: number;
+  positions: number[];  // Indices into the target of each matched character
+}
+
+const SCORE_MATCH = 16;
+const BONUS_PATH_SEGMENT = 10;  // First char of the target or after / or \
+const BONUS_BOUNDARY = 8;       // After - _ . or space, or a camelCase hump
+const BONUS_CONSECUTIVE = 6;    // Minimum bonus inside a run; runs also inherit their start's bonus
+const BONUS_CASE = 1;           // Exact case match
+const PENALTY_GAP_START = 5;
+const PENALTY_GAP_EXTENSION = 1;
+const PENALTY_LEADING_MAX = 4;
+
+function positionBonus(target: string, index: number): number {
+  if (index === 0) return BONUS_PATH_SEGMENT;
+
+  const prev = target[index - 1];
+  const curr = target[index];
+  if (prev === "/" || prev === "\\") return BONUS_PATH_SEGMENT;
+  if (prev === "-" || prev === "_" || prev === "." || prev === " ") return BONUS_BOUNDARY;
+  if (prev >= "a" && prev <= "z" && curr >= "A" && curr <= "Z") return BONUS_BOUNDARY;
+  return 0;
+}
+
+function gapPenalty(length: number): number {
+  return length === 0 ? 0 : PENALTY_GAP_START + (length - 1) * PENALTY_GAP_EXTENSION;
+}
+
+/**
+ * Matches a query against a target string.
+ * Returns null when the query is not a case-insensitive subsequence of the target.
+ */
+export function fuzzyMatch(query: string, target: string): FuzzyMatch | null {
+  if (query.length === 0) {
+    return { score: 0, positions: [] };
+  }
+  if (query.length > target.length) {
+    return null;
+  }
+
+  const lowerQuery = query.toLowerCase();
+  const lowerTarget = target.toLowerCase();
+  const m = query.length;
+  const n = target.length;
+
+  // best[i][j]: best score with query[i] matched at target[j]
+  // prev[i][j]: where query[i-1] matched; runBonus[i][j]: bonus of the run containing j
+  const best: number[][] = [];
+  const prev: number[][] = [];
+  const runBonus: number[][] = [];
+
+  for (let i = 0; i < m; i++) {
+    best.push(new Array<number>(n).fill(-Infinity));
+    prev.push(new Array<number>(n).fill(-1));
+    runBonus.push(new Array<number>(n).fill(0));
+
+    for (let j = i; j < n; j++) {
+      if (lowerTarget[j] !== lowerQuery[i]) continue;
+
+      const bonus = positionBonus(target, j);
+      const caseBonus = target[j] === query[i] ? BONUS_CASE : 0;
+
+      if (i === 0) {
+        best[i][j] = SCORE_MATCH + bonus + caseBonus - Math.min(j, PENALTY_LEADING_MAX);
+        runBonus[i][j] = bonus;
+        continue;
+      }
+
+      for (let k = i - 1; k < j; k++) {
+        const before = best[i - 1][k];
+        if (before === -Infinity) continue;
+
+        const consecutive = k === j - 1;
+        const charBonus = consecutive
+          ? Math.max(bonus, runBonus[i - 1][k], BONUS_CONSECUTIVE)
+          : bonus - gapPenalty(j - k - 1);
+        const candidate = before + SCORE_MATCH + charBonus + caseBonus;
+        if (candidate > best[i][j]) {
+          best[i][j] = candidate;
+          prev[i][j] = k;
+          runBonus[i][j] = consecutive ? Math.max(bonus, runBonus[i - 1][k]) : bonus;
+        }
+      }
+    }
+  }
+
+  // Pick the best end position for the last query character
+  let end = -1;
+  for (let j = 0; j < n; j++) {
+    if (best[m - 1][j] > (end === -1 ? -Infinity : best[m - 1][end])) {
+      end = j;
+    }
+  }
+  if (end === -1) {
+    return null;
+  }
+
+  const positions: number[] = [];
+  for (let i = m - 1, j = end; i >= 0; i--) {
+    positions.unshift(j);
+    j = prev[i][j];
+  }
+
+  return { score: best[m - 1][end], positions };
+}
@@ -0,0 +1,157 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applyGitStatuses, collectGitStatuses, formatGitStatus, readGitStatus, readGitStatuses } from "./gitStatus.js";
+import type { Project } from "./types.js";
+
+let root: string | null = null;
+
+function createRoot(): string {
+  root = mkdtempSync(join(tmpdir(), "dash-git-"));
+  return root;
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "Test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+      GIT_COMMITTER_DATE: "2024-01-02T03:04:05Z",
+    },
+  });
+}
+
+function createRepo(path: string): void {
+  mkdirSync(path, { recursive: true });
+  git(path, "init", "-q", "-b", "main");
+  writeFileSync(join(path, "README.md"), "hello\n");
+  git(path, "add", "README.md");
+  git(path, "commit", "-q", "-m", "init");
+}
+
+afterEach(() => {
+  if (root) {
+    rmSync(root, { recursive: true, force: true });
+    root = null;
+  }
+});
+
+describe("gitStatus", () => {
+  it("reads branch, dirty state, upstream counts and last commit time", async () => {
+    const base = createRoot();
+    const upstream = join(base, "upstream");
+    const clone = join(base, "clone");
+    createRepo(upstream);
+    git(base, "clone", "-q", upstream, clone);
+
+    await expect(readGitStatus(clone)).resolves.toEqual({
+      branch: "main",
+      dirty: false,
+      ahead: 0,
+      behind: 0,
+      lastCommit: Date.parse("2024-01-02T03:04:05Z"),
+    });
+
+    writeFileSync(join(clone, "notes.txt"), "wip\n");
+    git(clone, "add", "notes.txt");
+    git(clone, "commit", "-q", "-m", "local");
+    writeFileSync(join(clone, "README.md"), "changed\n");
+
+    await expect(readGitStatus(clone)).resolves.toMatchObject({ branch: "main", dirty: true, ahead: 1, behind: 0 });
+    await expect(readGitStatus(upstream)).resolves.not.toHaveProperty("ahead");
+    await expect(readGitStatus(join(base, "missing"))).resolves.toBeNull();
+  });
+
+  it("follows .git files to worktree git directories", async () => {
+    const base = createRoot();
+    const main = join(base, "main");
+    createRepo(main);
+    git(main, "worktree", "add", "-q", "-b", "feature", join(base, "feature"));
+
+    await expect(readGitStatus(join(base, "feature"))).resolves.toMatchObject({ branch: "feature", dirty: false });
+  });
+
+  it("falls back to the .git directory when git is not installed", async () => {
+    const base = createRoot();
+    createRepo(join(base, "repo"));
+    const path = process.env.PATH;
+    process.env.PATH = "";
+
+    try {
+      vi.resetModules();
+      const gitStatus = await import("./gitStatus.js");
+
+      await expect(gitStatus.readGitStatus(join(base, "repo"))).resolves.toEqual({
+        branch: "main",
+        lastCommit: Date.parse("2024-01-02T03:04:05Z"),
+      });
+    } finally {
+      process.env.PATH = path;
+    }
+  });
+
+  it("reads every git project in a tree and stops once aborted", async () => {
+    const base = createRoot();
+    createRepo(join(base, "a"));
+    createRepo(join(base, "group", "b"));
+    const projects: Project[] = [
+      { name: "a", path: join(base, "a"), kind: "git" },
+      {
+        name: "group",
+        path: join(base, "group"),
+        hasNestedProjects: true,
+        nestedProjects: [{ name: "b", path: join(base, "group", "b"), kind: "git" }],
+      },
+      { name: "web", path: join(base, "web"), kind: "node" },
+    ];
+
+    const statuses = await readGitStatuses(projects, new AbortController().signal);
+    expect([...statuses.keys()].sort()).toEqual([join(base, "a"), join(base, "group", "b")]);
+
+    const enriched = applyGitStatuses(projects, statuses);
+    expect(enriched[1].nestedProjects?.[0].git?.branch).toBe("main");
+    expect(enriched[2].git).toBeUndefined();
+    expect(collectGitStatuses(enriched)).toEqual(statuses);
+
+    await expect(readGitStatuses(projects, AbortSignal.abort())).resolves.toEqual(new Map());
+  });
+
+  it.skipIf(process.platform === "win32")("stops running git commands once aborted", async () => {
+    const base = createRoot();
+    createRepo(join(base, "repo"));
+    // A git that hangs, like `git status` on a huge working tree
+    const bin = join(base, "bin");
+    mkdirSync(bin);
+    writeFileSync(join(bin, "git"), "#!/bin/sh\nexec sleep 4\n", { mode: 0o755 });
+    const path = process.env.PATH;
+    process.env.PATH = `${bin}:${path}`;
+
+    try {
+      const controller = new AbortController();
+      const started = Date.now();
+      const reading = readGitStatuses([{ name: "repo", path: join(base, "repo"), kind: "git" }], controller.signal);
+      setTimeout(() => controller.abort(), 100);
+
+      await expect(reading).resolves.toEqual(new Map());
+      expect(Date.now() - started).toBeLessThan(2000);
+    } finally {
+      process.env.PATH = path;
+    }
+  });
+
+  it("formats compact badges", () => {
+    const now = Date.parse("2024-03-01T00:00:00Z");
+
+    expect(formatGitStatus({ branch: "main", dirty: false, ahead: 0, behind: 0 }, now)).toBe("main");
+    expect(formatGitStatus({ branch: "main", dirty: true, ahead: 1, behind: 2, lastCommit: now - 3 * 86_400_000 }, now))
+      .toBe("main* ↑1↓2 3d");
+    expect(formatGitStatus({ branch: "a1b2c3d", behind: 4, lastCommit: now - 5 * 60_000 }, now)).toBe("a1b2c3d ↓4 5m");
+  });
+});
@@ -0,0 +1,216 @@
+import { execFile } from "node:child_process";
+import { readFile, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import type { GitStatus, Project } from "./types.js";
+import { log } from "./logger.js";
+
+const execFileAsync = promisify(execFile);
+
+// Repos read at once; each read runs up to two git processes
+const CONCURRENCY = 4;
+const GIT_TIMEOUT_MS = 5000;
+
+// Set once a git command fails with ENOENT, after which only the .git directory is read
+let gitMissing = false;
+
+/**
+ * Find a project's git directory. Worktrees and submodules have a .git file
+ * pointing at it instead.
+ */
+async function findGitDir(projectPath: string): Promise<string | null> {
+  const dotGit = join(projectPath, ".git");
+  try {
+    if ((await stat(dotGit)).isDirectory()) return dotGit;
+    const match = /^gitdir:\s*(.+)$/m.exec(await readFile(dotGit, "utf-8"));
+    return match ? resolve(projectPath, match[1].trim()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the branch and last commit time straight from the git directory. The time
+ * comes from the branch's reflog, so it also moves on resets and pulls.
+ */
+async function readGitDir(gitDir: string): Promise<GitStatus | null> {
+  let head: string;
+  try {
+    head = (await readFile(join(gitDir, "HEAD"), "utf-8")).trim();
+  } catch {
+    return null;
+  }
+
+  const ref = /^ref:\s*(.+)$/.exec(head)?.[1];
+  const status: GitStatus = {
+    branch: ref ? ref.replace(/^refs\/heads\//, "") : head.slice(0, 7),
+  };
+
+  try {
+    const reflog = (await readFile(join(gitDir, "logs", ref ?? "HEAD"), "utf-8")).trimEnd();
+    const lastEntry = reflog.slice(reflog.lastIndexOf("\n") + 1);
+    const seconds = /> (\d+) [+-]\d{4}\t/.exec(lastEntry)?.[1];
+    if (seconds) status.lastCommit = Number(seconds) * 1000;
+  } catch {
+    // No reflog (e.g. a fresh clone with core.logAllRefUpdates off)
+  }
+
+  return status;
+}
+
+async function runGit(projectPath: string, args: string[], signal?: AbortSignal): Promise<string | null> {
+  if (gitMissing) return null;
+
+  try {
+    const { stdout } = await execFileAsync("git", ["-C", projectPath, ...args], {
+      timeout: GIT_TIMEOUT_MS,
+      signal,  // Aborting kills a running git
+      windowsHide: true,
+      // Keep `git status` from taking the index lock and racing the user's own git commands
+      env: { ...process.env, GIT_OPTIONAL_LOCKS: "0" },
+    });
+    return stdout;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      log("gitStatus: git is not installed, reading .git directories only");
+      gitMissing = true;
+    }
+    return null;
+  }
+}
+
+/**
+ * Apply `git status --porcelain=v2 --branch` output: branch, upstream counts and dirty state.
+ */
+function parsePorcelain(output: string, status: GitStatus): void {
+  for (const line of output.split("\n")) {
+    if (line.startsWith("# branch.head ")) {
+      const head = line.slice("# branch.head ".length);
+      if (head !== "(detached)") status.branch = head;
+    } else if (line.startsWith("# branch.ab ")) {
+      const match = /^# branch\.ab \+(\d+) -(\d+)$/.exec(line);
+      if (match) {
+        status.ahead = Number(match[1]);
+        status.behind = Number(match[2]);
+      }
+    } else if (line && !line.startsWith("#")) {
+      status.dirty = true;
+    }
+  }
+  status.dirty ??= false;
+}
+
+/**
+ * Read a repo's git status: the branch and last commit time from the .git directory,
+ * plus dirty state, ahead/behind counts and the exact commit time when git is installed.
+ * Aborting the signal stops the git commands still running.
+ */
+export async function readGitStatus(projectPath: string, signal?: AbortSignal): Promise<GitStatus | null> {
+  const gitDir = await findGitDir(projectPath);
+  if (!gitDir) return null;
+
+  const status = await readGitDir(gitDir);
+  if (!status) return null;
+
+  const [porcelain, commitTime] = await Promise.all([
+    runGit(projectPath, ["status", "--porcelain=v2", "--branch"], signal),
+    runGit(projectPath, ["log", "-1", "--format=%ct"], signal),
+  ]);
+  if (porcelain !== null) parsePorcelain(porcelain, status);
+  if (commitTime?.trim()) status.lastCommit = Number(commitTime.trim()) * 1000;
+
+  return status;
+}
+
+/**
+ * One-line summaries of a repo's latest commits ("abc1234 Fix typo"), or an empty
+ * list when git is missing or the repo has no commits.
+ */
+export async function readGitLog(projectPath: string, count: number): Promise<string[]> {
+  const output = await runGit(projectPath, ["log", `-${count}`, "--format=%h %s"]);
+  return output ? output.split("\n").filter(Boolean) : [];
+}
+
+function collectGitProjects(projects: Project[], results: string[] = []): string[] {
+  for (const project of projects) {
+    if (project.kind === "git") results.push(project.path);
+    if (project.nestedProjects) collectGitProjects(project.nestedProjects, results);
+  }
+  return results;
+}
+
+/**
+ * Read the git status of every git project in the tree, a few at a time.
+ * Once the signal is aborted, running reads are stopped and no new ones start.
+ */
+export async function readGitStatuses(
+  projects: Project[],
+  signal: AbortSignal
+): Promise<Map<string, GitStatus>> {
+  const paths = collectGitProjects(projects);
+  const statuses = new Map<string, GitStatus>();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < paths.length && !signal.aborted) {
+      const path = paths[next++];
+      const status = await readGitStatus(path, signal);
+      if (status && !signal.aborted) statuses.set(path, status);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, paths.length) }, worker));
+  log(`readGitStatuses: read ${statuses.size} of ${paths.length} repos${signal.aborted ? " (aborted)" : ""}`);
+  return statuses;
+}
+
+/**
+ * Copy of the tree with each project's git status filled in from the map.
+ */
+export function applyGitStatuses(projects: Project[], statuses: Map<string, GitStatus>): Project[] {
+  return projects.map((project) => {
+    const git = statuses.get(project.path);
+    return {
+      ...project,
+      ...(git ? { git } : {}),
+      ...(project.nestedProjects ? { nestedProjects: applyGitStatuses(project.nestedProjects, statuses) } : {}),
+    };
+  });
+}
+
+/**
+ * The git statuses stored in a (cached) tree, by project path.
+ */
+export function collectGitStatuses(projects: Project[], statuses = new Map<string, GitStatus>()): Map<string, GitStatus> {
+  for (const project of projects) {
+    if (project.git) statuses.set(project.path, project.git);
+    if (project.nestedProjects) collectGitStatuses(project.nestedProjects, statuses);
+  }
+  return statuses;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d`;
+  if (days < 30) return `${Math.floor(days / 7)}w`;
+  if (days < 365) return `${Math.floor(days / 30)}mo`;
+  return `${Math.floor(days / 365)}y`;
+}
+
+/**
+ * Compact badge for a project row, e.g. "main* ↑1↓2 3d".
+ */
+export function formatGitStatus(status: GitStatus, now = Date.now()): string {
+  let badge = status.branch + (status.dirty ? "*" : "");
+  if (status.ahead || status.behind) {
+    badge += " " + (status.ahead ? `↑${status.ahead}` : "") + (status.behind ? `↓${status.behind}` : "");
+  }
+  if (status.lastCommit !== undefined) {
+    badge += ` ${formatAge(now - status.lastCommit)}`;
+  }
+  return badge;
+}
@@ -36,14 +36,45 @@ describe("history", () => {
     await expect(history.getRecentAsync(1)).resolves.toMatchObject([{ path: "/work/one" }]);
   });
 
-  it("caps stored history and can clear it", async () => {
+  it("ranks by frecency or recency", async () => {
     const history = await importHistory();
 
-    for (let i = 0; i < 25; i++) {
+    history.addRecent("/work/often", "often");
+    history.addRecent("/work/often", "often");
+    history.addRecent("/work/often", "often");
+    history.addRecent("/work/once", "once");
+
+    expect(history.loadHistory().recent[1]).toMatchObject({ path: "/work/often", visits: 3 });
+    expect(history.getRecent(2).map((entry) => entry.path)).toEqual(["/work/often", "/work/once"]);
+    expect(history.getRecent(2, "recency").map((entry) => entry.path)).toEqual(["/work/once", "/work/often"]);
+    await expect(history.getRecentAsync(1, "recency")).resolves.toMatchObject([{ path: "/work/once" }]);
+  });
+
+  it("weights visits by how recently they happened", async () => {
+    const history = await importHistory();
+    const now = Date.now();
+    const entry = { path: "/work/a", displayName: "a", visits: 4 };
+
+    expect(history.frecencyScore({ ...entry, lastUsed: now }, now)).toBe(16);
+    expect(history.frecencyScore({ ...entry, lastUsed: now - 2 * 60 * 60 * 1000 }, now)).toBe(8);
+    expect(history.frecencyScore({ ...entry, lastUsed: now - 3 * 24 * 60 * 60 * 1000 }, now)).toBe(2);
+    expect(history.frecencyScore({ ...entry, lastUsed: now - 30 * 24 * 60 * 60 * 1000 }, now)).toBe(1);
+    expect(history.frecencyScore({ path: "/old", displayName: "old", lastUsed: now }, now)).toBe(4);
+  });
+
+  it("ages old entries and can clear history", async () => {
+    const history = await importHistory();
+
+    for (let i = 0; i < 150; i++) {
       history.addRecent(`/work/${i}`, String(i));
     }
 
-    expect(history.loadHistory().recent).toHaveLength(20);
+    const recent = history.loadHistory().recent;
+    const total = recent.reduce((sum, entry) => sum + (entry.visits ?? 1), 0);
+    expect(total).toBeLessThanOrEqual(100);
+    expect(recent.length).toBeLessThan(150);
+    expect(recent[0].path).toBe("/work/149");
+
     history.clearHistory();
     expect(history.loadHistory()).toEqual({ recent: [] });
   });
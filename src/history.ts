@@ -1,13 +1,29 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
 import { readFile, mkdir, access } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { HistoryData, HistoryEntry } from "./types.js";
+import type { HistoryData, HistoryEntry, RecentRanking } from "./types.js";
+import {
+  assertWritable,
+  isPlainObject,
+  loadStore,
+  withFileLock,
+  writeFileAtomic,
+  type JsonStore,
+} from "./storage.js";
 
 const CONFIG_DIR = join(homedir(), ".dash-cli");
 const HISTORY_FILE = join(CONFIG_DIR, "history.json");
 const COMMAND_FILE = join(CONFIG_DIR, "last-command");
-const MAX_HISTORY = 20;
+
+// Aging (like zoxide's _ZO_MAXAGE): once total visits exceed this, every
+// entry's count is scaled down and entries that fall below 1 are dropped
+const MAX_AGE = 100;
+const AGING_FACTOR = 0.9;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
 
 export function getConfigDir(): string {
   return CONFIG_DIR;
@@ -19,6 +35,23 @@ function ensureConfigDir(): void {
   }
 }
 
+function validateHistoryData(data: unknown): string | null {
+  if (!isPlainObject(data) || !Array.isArray(data.recent)) {
+    return 'expected an object with a "recent" array';
+  }
+
+  const bad = data.recent.findIndex((entry: unknown) =>
+    !isPlainObject(entry) || typeof entry.path !== "string" || typeof entry.lastUsed !== "number"
+  );
+  return bad === -1 ? null : `entry ${bad + 1} is missing its path or lastUsed`;
+}
+
+export const historyStore: JsonStore<HistoryData> = {
+  file: HISTORY_FILE,
+  validate: validateHistoryData,
+  empty: () => ({ recent: [] }),
+};
+
 export function loadHistory(): HistoryData {
   ensureConfigDir();
 
@@ -26,48 +59,93 @@ export function loadHistory(): HistoryData {
     return { recent: [] };
   }
 
+  let content: string;
   try {
-    const content = readFileSync(HISTORY_FILE, "utf-8");
-    return JSON.parse(content) as HistoryData;
+    content = readFileSync(HISTORY_FILE, "utf-8");
   } catch {
     return { recent: [] };
   }
+  return loadStore(historyStore, content);
 }
 
 export function saveHistory(data: HistoryData): void {
   ensureConfigDir();
-  writeFileSync(HISTORY_FILE, JSON.stringify(data, null, 2));
+  assertWritable(HISTORY_FILE);
+  writeFileAtomic(HISTORY_FILE, JSON.stringify(data, null, 2));
 }
 
-export function getRecent(limit: number = 5): HistoryEntry[] {
-  const data = loadHistory();
-  return data.recent
-    .sort((a, b) => b.lastUsed - a.lastUsed)
-    .slice(0, limit);
+/**
+ * Frecency score: visit count weighted by how recently the entry was used.
+ */
+export function frecencyScore(entry: HistoryEntry, now: number = Date.now()): number {
+  const visits = entry.visits ?? 1;
+  const age = now - entry.lastUsed;
+
+  if (age < HOUR) return visits * 4;
+  if (age < DAY) return visits * 2;
+  if (age < WEEK) return visits / 2;
+  return visits / 4;
 }
 
-export function addRecent(path: string, displayName: string): void {
-  const data = loadHistory();
+/**
+ * Sorts entries by the chosen ranking (most relevant first).
+ */
+export function rankRecent(entries: HistoryEntry[], ranking: RecentRanking): HistoryEntry[] {
+  if (ranking === "recency") {
+    return [...entries].sort((a, b) => b.lastUsed - a.lastUsed);
+  }
 
-  // Remove existing entry for this path
-  data.recent = data.recent.filter((entry) => entry.path !== path);
+  const now = Date.now();
+  return [...entries].sort((a, b) =>
+    frecencyScore(b, now) - frecencyScore(a, now) || b.lastUsed - a.lastUsed
+  );
+}
 
-  // Add new entry at the beginning
-  data.recent.unshift({
-    path,
-    displayName,
-    lastUsed: Date.now(),
-  });
+/**
+ * Scales visit counts down once their total passes MAX_AGE, dropping entries
+ * that fall below one visit. The entry at keepPath is never dropped.
+ */
+function ageEntries(entries: HistoryEntry[], keepPath: string): HistoryEntry[] {
+  const total = entries.reduce((sum, entry) => sum + (entry.visits ?? 1), 0);
+  if (total <= MAX_AGE) return entries;
+
+  const factor = (AGING_FACTOR * MAX_AGE) / total;
+  return entries
+    .map((entry) => ({ ...entry, visits: (entry.visits ?? 1) * factor }))
+    .filter((entry) => entry.visits >= 1 || entry.path === keepPath);
+}
 
-  // Trim to max size
-  data.recent = data.recent.slice(0, MAX_HISTORY);
+export function getRecent(limit: number = 5, ranking: RecentRanking = "frecency"): HistoryEntry[] {
+  const data = loadHistory();
+  return rankRecent(data.recent, ranking).slice(0, limit);
+}
 
-  saveHistory(data);
+export function addRecent(path: string, displayName: string): void {
+  withFileLock(HISTORY_FILE, () => {
+    const data = loadHistory();
+    const now = Date.now();
+    const existing = data.recent.find((entry) => entry.path === path);
+
+    // Remove existing entry for this path
+    data.recent = data.recent.filter((entry) => entry.path !== path);
+
+    // Add updated entry at the beginning
+    data.recent.unshift({
+      path,
+      displayName,
+      lastUsed: now,
+      firstUsed: existing?.firstUsed ?? existing?.lastUsed ?? now,
+      visits: (existing?.visits ?? (existing ? 1 : 0)) + 1,
+    });
+
+    data.recent = ageEntries(data.recent, path);
+
+    saveHistory(data);
+  });
 }
 
 export function writeLastCommand(commands: string[]): void {
-  ensureConfigDir();
-  writeFileSync(COMMAND_FILE, commands.join("\n"));
+  writeFileAtomic(COMMAND_FILE, commands.join("\n"));
 }
 
 export function clearHistory(): void {
@@ -101,17 +179,16 @@ async function loadHistoryAsync(): Promise<HistoryData> {
     return { recent: [] };
   }
 
+  let content: string;
   try {
-    const content = await readFile(HISTORY_FILE, "utf-8");
-    return JSON.parse(content) as HistoryData;
+    content = await readFile(HISTORY_FILE, "utf-8");
   } catch {
     return { recent: [] };
   }
+  return loadStore(historyStore, content);
 }
 
-export async function getRecentAsync(limit: number = 5): Promise<HistoryEntry[]> {
+export async function getRecentAsync(limit: number = 5, ranking: RecentRanking = "frecency"): Promise<HistoryEntry[]> {
   const data = await loadHistoryAsync();
-  return data.recent
-    .sort((a, b) => b.lastUsed - a.lastUsed)
-    .slice(0, limit);
+  return rankRecent(data.recent, ranking).slice(0, limit);
 }
@@ -16,6 +16,13 @@ const mocks = vi.hoisted(() => ({
   saveSettings: vi.fn(),
   initLog: vi.fn(),
   log: vi.fn(),
+  untrustedSources: vi.fn(() => [] as { file: string; hash: string }[]),
+  loadCacheAsync: vi.fn(),
+  loadScanIndexAsync: vi.fn(),
+  saveCache: vi.fn(),
+  saveScanIndex: vi.fn(),
+  scanProjectsAsync: vi.fn(),
+  findRepoShortcut: vi.fn(),
 }));
 
 vi.mock("ink", () => ({
@@ -53,6 +60,28 @@ vi.mock("./logger.js", () => ({
   log: mocks.log,
 }));
 
+vi.mock("./trust.js", () => ({
+  describeSource: vi.fn(() => []),
+  trustSource: vi.fn(),
+  untrustedSources: mocks.untrustedSources,
+}));
+
+vi.mock("./cache.js", () => ({
+  loadCacheAsync: mocks.loadCacheAsync,
+  loadScanIndexAsync: mocks.loadScanIndexAsync,
+  saveCache: mocks.saveCache,
+  saveScanIndex: mocks.saveScanIndex,
+}));
+
+vi.mock("./scanner.js", () => ({
+  scanProjectsAsync: mocks.scanProjectsAsync,
+}));
+
+vi.mock("./repoShortcuts.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./repoShortcuts.js")>()),
+  findRepoShortcut: mocks.findRepoShortcut,
+}));
+
 vi.mock("./cli/index.js", () => ({
   dispatch: mocks.dispatch,
 }));
@@ -70,7 +99,7 @@ describe("index entrypoint", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mocks.loadSettingsAsync.mockResolvedValue({
-      projectsDir: "/work",
+      roots: [{ path: "/work", maxDepth: 4, skipDirs: "" }],
       recentCount: 5,
     });
     mocks.getRecentAsync.mockResolvedValue([]);
@@ -110,6 +139,116 @@ describe("index entrypoint", () => {
     expect(mocks.writeLastCommand).toHaveBeenCalledWith(["cd /work/project", "npm test"]);
   });
 
+  it("substitutes trigger arguments and rejects missing required ones", async () => {
+    const exit = vi.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mocks.getShortcutByTriggerAsync
+      .mockResolvedValueOnce({ name: "Deploy", trigger: "deploy", command: ["./deploy.sh {env}"] });
+
+    await importIndex(["deploy", "staging"]);
+    expect(mocks.writeLastCommand).toHaveBeenCalledWith(["./deploy.sh staging"]);
+
+    mocks.writeLastCommand.mockClear();
+    mocks.getShortcutByTriggerAsync
+      .mockResolvedValueOnce({ name: "Deploy", trigger: "deploy", command: ["./deploy.sh {env}"] });
+
+    await importIndex(["deploy"]);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("Missing required argument <env>"));
+    expect(exit).toHaveBeenCalledWith(1);
+    expect(mocks.writeLastCommand).not.toHaveBeenCalled();
+    exit.mockRestore();
+    error.mockRestore();
+  });
+
+  it("passes flags it doesn't know on to the shortcut's arguments", async () => {
+    mocks.getShortcutByTriggerAsync
+      .mockResolvedValueOnce({ name: "Test", trigger: "test", command: ["npm test -- {*}"], shell: "posix" });
+
+    await importIndex(["test", "--watch", "--json"]);
+
+    expect(mocks.writeLastCommand).toHaveBeenCalledWith(["npm test -- --watch --json"]);
+
+    // dash's own flags only count before the first trigger
+    mocks.getShortcutByTriggerAsync
+      .mockResolvedValueOnce({ name: "Apply", trigger: "kub", command: ["kubectl apply {*}"], shell: "posix" });
+    await importIndex(["kub", "--dry-run", "--json"]);
+
+    expect(mocks.writeLastCommand).toHaveBeenLastCalledWith(["kubectl apply --dry-run --json"]);
+  });
+
+  it("finds repo triggers through an indexed scan when there is no cache", async () => {
+    const projects = [{ name: "api", path: "/work/api" }];
+    mocks.getShortcutByTriggerAsync.mockResolvedValueOnce(undefined);
+    mocks.loadCacheAsync.mockResolvedValueOnce(null);
+    mocks.loadScanIndexAsync.mockResolvedValueOnce({});
+    mocks.scanProjectsAsync.mockImplementationOnce(async (_settings, { index }) => {
+      index["/work"] = {};
+      return projects;
+    });
+    mocks.findRepoShortcut.mockReturnValueOnce({ name: "test", trigger: "api:test", command: ["npm test"] });
+
+    await importIndex(["api:test"]);
+
+    expect(mocks.findRepoShortcut).toHaveBeenCalledWith("api:test", projects);
+    expect(mocks.saveCache).toHaveBeenCalledWith(projects, expect.anything());
+    expect(mocks.saveScanIndex).toHaveBeenCalledWith({ "/work": {} }, expect.anything());
+    expect(mocks.writeLastCommand).toHaveBeenCalledWith(["npm test"]);
+  });
+
+  it("refuses repo shortcuts from untrusted files outside a terminal", async () => {
+    const exit = vi.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const source = { file: "/work/api/.dash.json", hash: "abc" };
+    mocks.getShortcutByTriggerAsync
+      .mockResolvedValueOnce({ name: "test", trigger: "api:test", command: ["npm test"], repo: "/work/api", source });
+    mocks.untrustedSources.mockReturnValueOnce([source]);
+    const isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+
+    await importIndex(["api:test"]);
+
+    process.stdin.isTTY = isTTY;
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("Not running untrusted shortcuts from /work/api/.dash.json"));
+    expect(exit).toHaveBeenCalledWith(1);
+    expect(mocks.writeLastCommand).not.toHaveBeenCalled();
+    exit.mockRestore();
+    error.mockRestore();
+  });
+
+  it("prints the resolved chain without writing it on --dry-run", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const lookup = async (trigger: string) => ({
+      proj: { name: "Project", trigger: "proj", command: ["cd /work/project"] },
+      deploy: { name: "Deploy", trigger: "deploy", command: ["./deploy.sh {env}"] },
+    })[trigger];
+    mocks.getShortcutByTriggerAsync.mockImplementation(lookup);
+
+    await importIndex(["--dry-run", "proj", "deploy", "prod"]);
+    expect(log.mock.calls.map(([line]) => line)).toEqual(["# proj", "cd /work/project", "# deploy prod", "./deploy.sh prod"]);
+
+    log.mockClear();
+    await importIndex(["--dry-run", "--json", "proj", "deploy", "prod"]);
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual({
+      commands: ["cd /work/project", "./deploy.sh prod"],
+      steps: [
+        { trigger: "proj", name: "Project", args: [], commands: ["cd /work/project"] },
+        { trigger: "deploy", name: "Deploy", args: ["prod"], commands: ["./deploy.sh prod"] },
+      ],
+      untrusted: [],
+    });
+
+    const exit = vi.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+    log.mockClear();
+    await importIndex(["--json", "--dry-run", "deploy"]);
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual({ error: expect.stringContaining("Missing required argument <env>") });
+    expect(exit).toHaveBeenCalledWith(1);
+
+    expect(mocks.writeLastCommand).not.toHaveBeenCalled();
+    mocks.getShortcutByTriggerAsync.mockReset();
+    exit.mockRestore();
+    log.mockRestore();
+  });
+
   it("records selected projects from the TUI", async () => {
     mocks.render.mockImplementation((node: React.ReactElement<{ onSelect: (path: string, name: string) => void }>) => {
       const unmount = vi.fn();
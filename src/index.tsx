@@ -1,12 +1,73 @@
 import React from "react";
+import { createInterface } from "node:readline";
 import { render } from "ink";
 import { App } from "./components/App.js";
 import { getRecentAsync, addRecent, writeLastCommand } from "./history.js";
 import { getShortcutsAsync, getShortcutByTriggerAsync, generateCommand } from "./shortcuts.js";
+import { resolveChainSteps, type ChainStep } from "./params.js";
 import { loadSettingsAsync, saveSettings } from "./settings.js";
+import { loadCacheAsync, loadScanIndexAsync, saveCache, saveScanIndex } from "./cache.js";
+import { scanProjectsAsync } from "./scanner.js";
+import { findRepoShortcut, loadSourceShortcuts } from "./repoShortcuts.js";
+import { describeSource, trustSource, untrustedSources } from "./trust.js";
+import type { Project, Shortcut, ShortcutSource } from "./types.js";
 import { runSetup, runUninstall } from "./setup.js";
 import { initLog, log } from "./logger.js";
 
+/**
+ * Shows the shortcuts of an untrusted file and asks whether to trust it. Only asks in
+ * a terminal, and only trusts the content the commands were resolved from.
+ */
+async function reviewSource(source: ShortcutSource, shortcut: Shortcut): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+
+  const shown = loadSourceShortcuts(shortcut);
+  if (shown[0]?.source?.hash !== source.hash) {
+    throw new Error(`${source.file} changed while loading it; run the shortcut again`);
+  }
+
+  console.error(describeSource(source.file, shown).join("\n"));
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const answer = await new Promise<string>((res) => rl.question("Trust this file and run? [y/N] ", res))
+    .finally(() => rl.close());
+  if (!answer.trim().toLowerCase().startsWith("y")) return false;
+
+  trustSource(source);
+  return true;
+}
+
+/**
+ * Prints what a chain would run instead of writing it: each trigger with the arguments
+ * it took, then its commands. JSON output lists the same for scripts.
+ */
+function printDryRun(steps: ChainStep[], untrusted: ShortcutSource[], json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify({
+      commands: steps.flatMap((step) => step.commands),
+      steps: steps.map(({ trigger, shortcut, args, commands, references }) => ({
+        trigger,
+        name: shortcut.name,
+        args,
+        commands,
+        ...(references.length > 0 ? { references: references.map((s) => s.trigger) } : {}),
+        ...(shortcut.source ? { source: shortcut.source.file } : {}),
+      })),
+      untrusted: untrusted.map((source) => source.file),
+    }));
+    return;
+  }
+
+  for (const { trigger, args, commands } of steps) {
+    console.log(`# ${[trigger, ...args].join(" ")}`);
+    for (const command of commands) {
+      console.log(command);
+    }
+  }
+  for (const { file } of untrusted) {
+    console.log(`# ${file} is not trusted yet; running would ask you to review it`);
+  }
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -30,7 +91,7 @@ async function main() {
   // Handle --setup command
   if (filteredArgs[0] === "--setup") {
     log("running setup");
-    await runSetup(filteredArgs[1], filteredArgs[2]);
+    await runSetup(...filteredArgs.slice(1));
     return;
   }
 
@@ -41,34 +102,85 @@ async function main() {
     return;
   }
 
-  // Handle trigger arguments for quick shortcut access (supports chaining)
-  const triggerArgs = filteredArgs.filter(arg => !arg.startsWith("--"));
+  // Handle trigger arguments for quick shortcut access (supports chaining and parameters)
+  // Only dash's own flags before the first trigger are taken out; anything after it, like
+  // "--watch" or even "--dry-run", is an argument for a shortcut
+  let firstTrigger = 0;
+  while (filteredArgs[firstTrigger] === "--dry-run" || filteredArgs[firstTrigger] === "--json") firstTrigger++;
+  const dashFlags = filteredArgs.slice(0, firstTrigger);
+  const dryRun = dashFlags.includes("--dry-run");
+  const json = dryRun && dashFlags.includes("--json");
+  const triggerArgs = dryRun ? filteredArgs.slice(firstTrigger) : filteredArgs;
+  if (dryRun && triggerArgs.length === 0) {
+    console.error("Usage: dash --dry-run [--json] <trigger> [args...]");
+    process.exit(1);
+    return;
+  }
   if (triggerArgs.length > 0) {
     log(`quick shortcut access: ${triggerArgs.join(" ")}`);
-    const allCommands: string[] = [];
 
-    for (const trigger of triggerArgs) {
-      const shortcut = await getShortcutByTriggerAsync(trigger);
-      if (!shortcut) {
-        console.error(`Shortcut not found: ${trigger}`);
-        process.exit(1);
+    try {
+      // Namespaced triggers ("api:test") fall back to the repo shortcuts of the named
+      // project, found through the cached projects (or a scan when there is no cache,
+      // the same indexed scan the TUI runs, saved for it to start from)
+      let projects: Project[] | null = null;
+      const loadProjects = async (): Promise<Project[]> => {
+        if (!projects) {
+          const settings = await loadSettingsAsync();
+          projects = await loadCacheAsync(settings);
+          if (!projects) {
+            const index = await loadScanIndexAsync(settings);
+            projects = await scanProjectsAsync(settings, { index });
+            saveCache(projects, settings);
+            saveScanIndex(index, settings);
+          }
+        }
+        return projects;
+      };
+
+      // Resolve everything first so a bad trigger or missing argument writes nothing
+      const steps = await resolveChainSteps(triggerArgs, async (trigger) => {
+        const shortcut = await getShortcutByTriggerAsync(trigger)
+          ?? (trigger.includes(":") ? findRepoShortcut(trigger, await loadProjects()) : undefined);
+        if (shortcut) log(`found shortcut: ${shortcut.name}`);
+        return shortcut;
+      });
+      // Referenced shortcuts run too, so their files need trust as well
+      const used = steps.flatMap((step) => [step.shortcut, ...step.references]);
+
+      if (dryRun) {
+        printDryRun(steps, untrustedSources(used), json);
+        return;
       }
-      log(`found shortcut: ${shortcut.name}`);
-      allCommands.push(...shortcut.command);
-    }
 
-    writeLastCommand(allCommands);
+      // Commands from files the user didn't write need their approval first
+      for (const source of untrustedSources(used)) {
+        const shortcut = used.find((s) => s.source?.file === source.file)!;
+        if (!await reviewSource(source, shortcut)) {
+          throw new Error(`Not running untrusted shortcuts from ${source.file}. Review the file, then run "dash-cli -- trust allow ${source.file}"`);
+        }
+      }
+      writeLastCommand(steps.flatMap((step) => step.commands));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (json) {
+        console.log(JSON.stringify({ error: message }));
+      } else {
+        console.error(message);
+      }
+      process.exit(1);
+    }
     return;
   }
 
   // Load config files asynchronously
   log("loading settings...");
   const settings = await loadSettingsAsync();
-  log(`settings loaded, projectsDir: ${settings.projectsDir}`);
+  log(`settings loaded, roots: ${settings.roots.map((root) => root.path).join(", ")}`);
 
   log("loading recent and shortcuts...");
   const [recentEntries, shortcutEntries] = await Promise.all([
-    getRecentAsync(settings.recentCount),
+    getRecentAsync(settings.recentCount, settings.recentRanking),
     getShortcutsAsync(),
   ]);
   log(`loaded ${recentEntries.length} recent, ${shortcutEntries.length} shortcuts`);
@@ -99,7 +211,12 @@ async function main() {
   log("app exited");
 
   if (selectedPath && selectedDisplayName) {
-    addRecent(selectedPath, selectedDisplayName);
+    try {
+      addRecent(selectedPath, selectedDisplayName);
+    } catch (err) {
+      // Still jump to the project; the history write is not essential
+      console.error(err instanceof Error ? err.message : String(err));
+    }
     writeLastCommand(generateCommand(selectedPath));
   }
 }
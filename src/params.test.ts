@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyParams,
+  expandShortcut,
+  formatParams,
+  formatUsage,
+  getShortcutParams,
+  parseReference,
+  resolveChain,
+  resolveChainSteps,
+} from "./params.js";
+import type { Shortcut } from "./types.js";
+
+function shortcut(trigger: string, command: string[]): Shortcut {
+  return {
+    id: trigger,
+    name: trigger,
+    trigger,
+    caseSensitive: false,
+    command,
+    createdAt: 1,
+  };
+}
+
+function lookupFrom(shortcuts: Shortcut[]) {
+  return async (trigger: string) => shortcuts.find((s) => s.trigger === trigger);
+}
+
+describe("params", () => {
+  it("parses numbered, named, optional, and rest placeholders in slot order", () => {
+    const params = getShortcutParams(["git checkout {branch}", "./deploy.sh {1} {env?} {*}"]);
+
+    expect(params).toEqual([
+      { name: "1", required: true, rest: false },
+      { name: "branch", required: true, rest: false },
+      { name: "env", required: false, rest: false },
+      { name: "*", required: false, rest: true },
+    ]);
+    expect(formatParams(params)).toBe("<1> <branch> [env] [args...]");
+    expect(formatUsage(shortcut("deploy", ["./deploy.sh {1}"]))).toBe("dash deploy <1>");
+    expect(formatUsage(shortcut("proj", ["cd /work"]))).toBe("dash proj");
+  });
+
+  it("ignores shell expansions and fills numbering gaps", () => {
+    expect(getShortcutParams(["echo ${HOME} $HOME"])).toEqual([]);
+    expect(getShortcutParams(["echo {2}"]).map((p) => p.name)).toEqual(["1", "2"]);
+    expect(getShortcutParams(["echo {x?}", "echo {x}"])).toEqual([
+      { name: "x", required: true, rest: false },
+    ]);
+  });
+
+  it("substitutes arguments and reports missing or extra ones", () => {
+    const deploy = shortcut("deploy", ["./deploy.sh {env} {tag?}", "echo {*}"]);
+
+    expect(applyParams(deploy, ["staging"])).toEqual(["./deploy.sh staging ", "echo "]);
+    expect(applyParams(deploy, ["prod", "v1", "--force", "-q"])).toEqual(["./deploy.sh prod v1", "echo --force -q"]);
+    expect(() => applyParams(deploy, [])).toThrow('Missing required argument <env> for "deploy"');
+    expect(() => applyParams(shortcut("proj", ["cd /work"]), ["extra"])).toThrow('Too many arguments for "proj"');
+  });
+
+  it("quotes arguments for the shortcut's shell wherever the placeholder is", async () => {
+    const posix = (trigger: string, command: string[]): Shortcut => ({ ...shortcut(trigger, command), shell: "posix" });
+
+    expect(applyParams(posix("deploy", ["./deploy.sh {env} {*}"]), ["my env", "--tag", "$HOME"])).toEqual([
+      "./deploy.sh 'my env' --tag '$HOME'",
+    ]);
+    expect(applyParams(posix("commit", ['git commit -m "{msg}"', "echo '{msg}'"]), ['say "hi" it\'s $USER'])).toEqual([
+      'git commit -m "say \\"hi\\" it\'s \\$USER"',
+      "echo 'say \"hi\" it'\\''s $USER'",
+    ]);
+    expect(applyParams({ ...posix("ps", ["Write-Output {1}"]), shell: "powershell" }, ["a b"])).toEqual(["Write-Output 'a b'"]);
+
+    // A quoted value passed on through a reference is still one argument
+    const lookup = lookupFrom([posix("deploy", ["./deploy.sh {env}"]), posix("ship", ["@deploy {env}"])]);
+    await expect(resolveChain(["ship", "my env"], lookup)).resolves.toEqual(["./deploy.sh 'my env'"]);
+    expect(parseReference("@deploy 'my env' \"a b\"", "posix")).toEqual({ trigger: "deploy", args: ["my env", "a b"] });
+  });
+
+  it("resolves chains, consuming arguments only for declared parameters", async () => {
+    const lookup = lookupFrom([
+      shortcut("proj", ["cd /work/proj"]),
+      shortcut("co", ["git checkout {branch}"]),
+      shortcut("log", ["git log -n {count?}"]),
+      shortcut("test", ["npm test"]),
+    ]);
+
+    await expect(resolveChain(["proj", "co", "main", "test"], lookup)).resolves.toEqual([
+      "cd /work/proj",
+      "git checkout main",
+      "npm test",
+    ]);
+    await expect(resolveChain(["log", "test"], lookup)).resolves.toEqual(["git log -n ", "npm test"]);
+    await expect(resolveChain(["log", "5"], lookup)).resolves.toEqual(["git log -n 5"]);
+    await expect(resolveChain(["proj", "co"], lookup)).rejects.toThrow("Missing required argument <branch>");
+    await expect(resolveChain(["proj", "missing"], lookup)).rejects.toThrow("Shortcut not found: missing");
+
+    // Each step says which arguments its trigger took
+    const steps = await resolveChainSteps(["proj", "co", "main", "log", "test"], lookup);
+    expect(steps.map(({ trigger, args, commands }) => ({ trigger, args, commands }))).toEqual([
+      { trigger: "proj", args: [], commands: ["cd /work/proj"] },
+      { trigger: "co", args: ["main"], commands: ["git checkout main"] },
+      { trigger: "log", args: [], commands: ["git log -n "] },
+      { trigger: "test", args: [], commands: ["npm test"] },
+    ]);
+  });
+
+  it("expands references to other shortcuts and reports cycles", async () => {
+    const lookup = lookupFrom([
+      shortcut("proj", ["cd /work/proj"]),
+      shortcut("deploy", ["./deploy.sh {env}"]),
+      shortcut("ship", ["@proj", "npm run build", "@deploy {env}"]),
+      shortcut("loop", ["echo loop", "@again"]),
+      shortcut("again", ["@loop"]),
+      shortcut("broken", ["@missing"]),
+    ]);
+
+    expect(parseReference("@deploy prod  v2")).toEqual({ trigger: "deploy", args: ["prod", "v2"] });
+    expect(parseReference('@"here-string"')).toBeNull();
+    expect(parseReference("echo @proj")).toBeNull();
+
+    const ship = await expandShortcut(shortcut("ship", ["@proj", "npm run build", "@deploy {env}"]), ["prod"], lookup);
+    expect(ship.commands).toEqual(["cd /work/proj", "npm run build", "./deploy.sh prod"]);
+    expect(ship.references.map((s) => s.trigger)).toEqual(["proj", "deploy"]);
+    await expect(resolveChain(["ship", "staging", "proj"], lookup)).resolves.toEqual([
+      "cd /work/proj",
+      "npm run build",
+      "./deploy.sh staging",
+      "cd /work/proj",
+    ]);
+
+    await expect(resolveChain(["loop"], lookup)).rejects.toThrow("Shortcut reference cycle: loop → again → loop");
+    await expect(resolveChain(["broken"], lookup)).rejects.toThrow('Shortcut not found: missing (referenced by "broken")');
+  });
+
+  it("changes into the project before running a repo shortcut", async () => {
+    const lookup = lookupFrom([{ ...shortcut("api:test", ["npm test -- {file?}"]), repo: "/work/api" }]);
+
+    await expect(resolveChain(["api:test", "a.test.ts"], lookup)).resolves.toEqual([
+      expect.stringContaining("/work/api"),
+      "npm test -- a.test.ts",
+    ]);
+  });
+
+  it("returns from a referenced repo shortcut's project before running the next line", async () => {
+    const lookup = lookupFrom([{ ...shortcut("api:test", ["npm test"]), repo: "/work/api" }]);
+
+    await expect(resolveChain(["check"], async (trigger) =>
+      trigger === "check" ? shortcut("check", ["@api:test", "npm run lint"]) : lookup(trigger)
+    )).resolves.toEqual([
+      expect.stringMatching(/^(pushd|Push-Location).*\/work\/api/),
+      "npm test",
+      expect.stringMatching(/^(popd|Pop-Location)/),
+      "npm run lint",
+    ]);
+  });
+});
@@ -0,0 +1,286 @@
+import type { Shortcut } from "./types.js";
+import {
+  cdCommand,
+  detectCommandShell,
+  escapeInDoubleQuotes,
+  popdCommand,
+  pushdCommand,
+  quoteArg,
+  quoteArgIfNeeded,
+  quoteContextAt,
+  splitArgs,
+  type CommandShell,
+  type QuoteContext,
+} from "./quoting.js";
+
+// Matches {1}, {branch}, {branch?} and {*}, but not shell expansions like ${HOME}
+const PLACEHOLDER_PATTERN = /(?<!\$)\{(\*|[1-9]\d*|[A-Za-z_][\w-]*)(\?)?\}/g;
+
+// A command line that is only "@trigger [args...]" runs another shortcut's commands.
+// Lines like PowerShell's @(...) or @"..." are left alone.
+const REFERENCE_PATTERN = /^\s*@([^\s"'`$(){}[\]@]\S*)(?:\s+(.*))?$/;
+
+export interface ShortcutReference {
+  trigger: string;
+  args: string[];
+}
+
+export interface ShortcutParam {
+  name: string;       // "1", "branch", or "*" for the rest arguments
+  required: boolean;
+  rest: boolean;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Extracts the parameters declared by placeholders in a command array.
+ *
+ * Positional slots are ordered numbered placeholders first ({1}, {2}, ...),
+ * then named placeholders in order of first appearance. {*} collects any
+ * remaining arguments and always comes last.
+ */
+export function getShortcutParams(command: string[]): ShortcutParam[] {
+  const numbered = new Map<number, ShortcutParam>();
+  const named = new Map<string, ShortcutParam>();
+  let rest: ShortcutParam | null = null;
+
+  for (const line of command) {
+    for (const match of line.matchAll(PLACEHOLDER_PATTERN)) {
+      const name = match[1];
+      const required = match[2] !== "?";
+
+      if (name === "*") {
+        rest = { name, required: false, rest: true };
+        continue;
+      }
+
+      const isNumbered = /^\d+$/.test(name);
+      const existing = isNumbered ? numbered.get(Number(name)) : named.get(name);
+      if (existing) {
+        // Required wins if any occurrence is not marked optional
+        existing.required = existing.required || required;
+      } else if (isNumbered) {
+        numbered.set(Number(name), { name, required, rest: false });
+      } else {
+        named.set(name, { name, required, rest: false });
+      }
+    }
+  }
+
+  // Fill gaps so {2} without {1} still consumes the first argument
+  const maxIndex = Math.max(0, ...numbered.keys());
+  const params: ShortcutParam[] = [];
+  for (let i = 1; i <= maxIndex; i++) {
+    params.push(numbered.get(i) ?? { name: String(i), required: true, rest: false });
+  }
+  params.push(...named.values());
+  if (rest) params.push(rest);
+
+  return params;
+}
+
+/**
+ * Reads a command line that references another shortcut, e.g. "@proj" or "@deploy {env}".
+ * Its arguments are split as the shell would, so quoted values stay whole.
+ * Returns null for ordinary commands.
+ */
+export function parseReference(line: string, shell: CommandShell = detectCommandShell()): ShortcutReference | null {
+  const match = line.match(REFERENCE_PATTERN);
+  if (!match) return null;
+  return { trigger: match[1], args: splitArgs(match[2] ?? "", shell) };
+}
+
+/**
+ * Formats parameters for usage display, e.g. "<env> [branch] [args...]".
+ */
+export function formatParams(params: ShortcutParam[]): string {
+  return params
+    .map((p) => {
+      if (p.rest) return "[args...]";
+      return p.required ? `<${p.name}>` : `[${p.name}]`;
+    })
+    .join(" ");
+}
+
+/**
+ * Formats the usage line for a shortcut, e.g. "dash deploy <env>".
+ */
+export function formatUsage(shortcut: Shortcut): string {
+  const params = formatParams(getShortcutParams(shortcut.command));
+  return params ? `dash ${shortcut.trigger} ${params}` : `dash ${shortcut.trigger}`;
+}
+
+// ============================================================================
+// Substitution
+// ============================================================================
+
+// Values for a placeholder inside quotes ("{msg}") become part of that quoted text;
+// outside of quotes each value is one word
+function quoteValues(values: string[], context: QuoteContext, shell: CommandShell): string {
+  switch (context) {
+    case "single":
+      return values.length > 0 ? quoteArg(values.join(" "), shell).slice(1, -1) : "";
+    case "double":
+      return escapeInDoubleQuotes(values.join(" "), shell);
+    case "none":
+      return values.map((value) => quoteArgIfNeeded(value, shell)).join(" ");
+  }
+}
+
+/**
+ * Substitutes positional arguments into a shortcut's commands, quoted for the shell it
+ * was written for so that they reach the command as typed.
+ * Throws if a required argument is missing or too many are given.
+ */
+export function applyParams(shortcut: Shortcut, args: string[]): string[] {
+  const params = getShortcutParams(shortcut.command);
+  const slots = params.filter((p) => !p.rest);
+  const hasRest = params.some((p) => p.rest);
+
+  const values = new Map<string, string[]>();
+  slots.forEach((param, index) => {
+    if (index < args.length) {
+      values.set(param.name, [args[index]]);
+    } else if (param.required) {
+      throw new Error(
+        `Missing required argument <${param.name}> for "${shortcut.trigger}". Usage: ${formatUsage(shortcut)}`
+      );
+    }
+  });
+
+  if (!hasRest && args.length > slots.length) {
+    throw new Error(
+      `Too many arguments for "${shortcut.trigger}". Usage: ${formatUsage(shortcut)}`
+    );
+  }
+  values.set("*", args.slice(slots.length));
+
+  const shell = shortcut.shell ?? detectCommandShell();
+  return shortcut.command.map((line) =>
+    line.replace(PLACEHOLDER_PATTERN, (_match, name: string, _optional, offset: number) =>
+      quoteValues(values.get(name) ?? [], quoteContextAt(line, offset, shell), shell)
+    )
+  );
+}
+
+type ShortcutLookup = (trigger: string) => Promise<Shortcut | undefined>;
+
+// A shortcut's commands with its references expanded, and the shortcuts they referenced
+export interface Expansion {
+  commands: string[];
+  references: Shortcut[];
+}
+
+// One shortcut of a resolved chain: the arguments it consumed and the commands it gives
+export interface ChainStep extends Expansion {
+  trigger: string;
+  shortcut: Shortcut;
+  args: string[];
+}
+
+async function expand(
+  shortcut: Shortcut,
+  args: string[],
+  lookup: ShortcutLookup,
+  from: Shortcut[],
+  references: Shortcut[]
+): Promise<string[]> {
+  const commands: string[] = [];
+  // Repo shortcuts run inside their project. When referenced, they go back afterwards so the
+  // rest of the referencing shortcut runs where it started.
+  const shell = detectCommandShell();
+  const returns = shortcut.repo !== undefined && from.length > 0;
+  if (shortcut.repo) {
+    commands.push(returns ? pushdCommand(shortcut.repo, shell) : cdCommand(shortcut.repo, shell));
+  }
+
+  const path = [...from, shortcut];
+  for (const line of applyParams(shortcut, args)) {
+    const reference = parseReference(line, shortcut.shell ?? detectCommandShell());
+    if (!reference) {
+      commands.push(line);
+      continue;
+    }
+
+    const target = await lookup(reference.trigger);
+    if (!target) {
+      throw new Error(`Shortcut not found: ${reference.trigger} (referenced by "${shortcut.trigger}")`);
+    }
+    if (path.some((s) => s.id === target.id)) {
+      throw new Error(`Shortcut reference cycle: ${[...path, target].map((s) => s.trigger).join(" → ")}`);
+    }
+    references.push(target);
+    commands.push(...await expand(target, reference.args, lookup, path, references));
+  }
+  if (returns) {
+    commands.push(popdCommand(shell));
+  }
+  return commands;
+}
+
+/**
+ * The commands a shortcut runs with the given arguments, with each "@trigger" line
+ * replaced by that shortcut's commands (recursively). Throws on a reference to a
+ * missing shortcut or one that leads back to itself.
+ */
+export async function expandShortcut(shortcut: Shortcut, args: string[], lookup: ShortcutLookup): Promise<Expansion> {
+  const references: Shortcut[] = [];
+  const commands = await expand(shortcut, args, lookup, [], references);
+  return { commands, references };
+}
+
+/**
+ * Resolves a list of trigger arguments into the shortcuts to run, in order.
+ *
+ * Each trigger consumes arguments for its parameters: required slots always
+ * take the next argument, optional slots only take it when it is not itself
+ * a trigger, and {*} takes everything left. Anything not consumed is treated
+ * as the next trigger in the chain.
+ */
+export async function resolveChainSteps(args: string[], lookup: ShortcutLookup): Promise<ChainStep[]> {
+  const steps: ChainStep[] = [];
+  let i = 0;
+
+  while (i < args.length) {
+    const trigger = args[i];
+    const shortcut = await lookup(trigger);
+    if (!shortcut) {
+      throw new Error(`Shortcut not found: ${trigger}`);
+    }
+    i++;
+
+    const params = getShortcutParams(shortcut.command);
+    const consumed: string[] = [];
+
+    for (const param of params) {
+      if (i >= args.length) break;
+
+      if (param.rest) {
+        consumed.push(...args.slice(i));
+        i = args.length;
+        break;
+      }
+
+      if (!param.required && (await lookup(args[i]))) {
+        break;
+      }
+
+      consumed.push(args[i]);
+      i++;
+    }
+
+    steps.push({ trigger, shortcut, args: consumed, ...await expandShortcut(shortcut, consumed, lookup) });
+  }
+
+  return steps;
+}
+
+/**
+ * Resolves a list of trigger arguments into the commands to run.
+ */
+export async function resolveChain(args: string[], lookup: ShortcutLookup): Promise<string[]> {
+  return (await resolveChainSteps(args, lookup)).flatMap((step) => step.commands);
+}
@@ -0,0 +1,75 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { detectLanguage, loadPreview, readmeSummary } from "./preview.js";
+
+let root: string | null = null;
+
+function createRoot(): string {
+  root = mkdtempSync(join(tmpdir(), "dash-preview-"));
+  return root;
+}
+
+afterEach(() => {
+  if (root) {
+    rmSync(root, { recursive: true, force: true });
+    root = null;
+  }
+});
+
+describe("preview", () => {
+  it("summarises README prose without badges, images or markup", () => {
+    const readme = [
+      "# My Tool",
+      "",
+      "[![CI](https://example.com/badge.svg)](https://example.com)",
+      "<p align=\"center\"><img src=\"logo.png\"></p>",
+      "A tool that does things.",
+      "---",
+      "## Install",
+      "npm install my-tool",
+    ].join("\n");
+
+    expect(readmeSummary(readme)).toEqual(["My Tool", "A tool that does things.", "Install", "npm install my-tool"]);
+    expect(readmeSummary(readme, 2)).toEqual(["My Tool", "A tool that does things."]);
+  });
+
+  it("detects languages from build files, then from source extensions", async () => {
+    const base = createRoot();
+    const ts = join(base, "ts");
+    mkdirSync(ts);
+    writeFileSync(join(ts, "package.json"), "{}");
+    writeFileSync(join(ts, "tsconfig.json"), "{}");
+    const scripts = join(base, "scripts");
+    mkdirSync(join(scripts, "src"), { recursive: true });
+    writeFileSync(join(scripts, "run.sh"), "");
+    writeFileSync(join(scripts, "src", "a.py"), "");
+    writeFileSync(join(scripts, "src", "b.py"), "");
+
+    await expect(detectLanguage(ts)).resolves.toBe("TypeScript");
+    await expect(detectLanguage(scripts)).resolves.toBe("Python");
+    await expect(detectLanguage(join(base, "missing"))).resolves.toBeNull();
+  });
+
+  it("loads the README, language and recent commits of a repo", async () => {
+    const repo = join(createRoot(), "repo");
+    mkdirSync(repo);
+    writeFileSync(join(repo, "README.md"), "# Repo\nDoes repo things.\n");
+    writeFileSync(join(repo, "Cargo.toml"), "");
+    const git = (...args: string[]) => execFileSync("git", args, {
+      cwd: repo,
+      env: { ...process.env, GIT_AUTHOR_NAME: "T", GIT_AUTHOR_EMAIL: "t@e", GIT_COMMITTER_NAME: "T", GIT_COMMITTER_EMAIL: "t@e" },
+    });
+    git("init", "-q");
+    git("add", ".");
+    git("commit", "-q", "-m", "First commit");
+
+    const preview = await loadPreview(repo);
+
+    expect(preview).toMatchObject({ readme: ["Repo", "Does repo things."], language: "Rust" });
+    expect(preview.gitLog).toHaveLength(1);
+    expect(preview.gitLog[0]).toMatch(/^[0-9a-f]+ First commit$/);
+  });
+});
@@ -0,0 +1,139 @@
+import { open, readdir } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { readGitLog } from "./gitStatus.js";
+import { log } from "./logger.js";
+
+export interface ProjectPreview {
+  readme: string[];         // First lines of the README text; empty when there is none
+  language: string | null;
+  gitLog: string[];         // Latest commits, newest first
+}
+
+const README_LINES = 5;
+const GIT_LOG_COUNT = 5;
+// READMEs can be large; the first lines are all the pane shows
+const README_BYTES = 8192;
+
+const README_FILE = /^readme(\.(md|markdown|txt|rst|org|adoc))?$/i;
+
+// Checked in order, so tsconfig.json wins over package.json
+const LANGUAGE_MARKERS: [string, string][] = [
+  ["tsconfig.json", "TypeScript"],
+  ["Cargo.toml", "Rust"],
+  ["go.mod", "Go"],
+  ["pyproject.toml", "Python"],
+  ["setup.py", "Python"],
+  ["requirements.txt", "Python"],
+  ["Gemfile", "Ruby"],
+  ["composer.json", "PHP"],
+  ["pom.xml", "Java"],
+  ["build.gradle.kts", "Kotlin"],
+  ["build.gradle", "Java"],
+  ["Package.swift", "Swift"],
+  ["mix.exs", "Elixir"],
+  ["pubspec.yaml", "Dart"],
+  ["CMakeLists.txt", "C/C++"],
+  ["package.json", "JavaScript"],
+];
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ".ts": "TypeScript",
+  ".tsx": "TypeScript",
+  ".js": "JavaScript",
+  ".jsx": "JavaScript",
+  ".py": "Python",
+  ".rs": "Rust",
+  ".go": "Go",
+  ".rb": "Ruby",
+  ".java": "Java",
+  ".kt": "Kotlin",
+  ".cs": "C#",
+  ".c": "C",
+  ".cpp": "C++",
+  ".php": "PHP",
+  ".swift": "Swift",
+  ".lua": "Lua",
+  ".sh": "Shell",
+};
+
+async function listEntries(dir: string): Promise<string[]> {
+  try {
+    return await readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Detect a project's main language from its build files, falling back to the
+ * most common source extension in the project root and src/.
+ */
+export async function detectLanguage(projectPath: string, entries?: string[]): Promise<string | null> {
+  const rootEntries = entries ?? await listEntries(projectPath);
+  const names = new Set(rootEntries);
+
+  for (const [marker, language] of LANGUAGE_MARKERS) {
+    if (names.has(marker)) return language;
+  }
+  if (rootEntries.some((f) => f.endsWith(".csproj") || f.endsWith(".sln"))) return "C#";
+
+  const counts = new Map<string, number>();
+  for (const file of [...rootEntries, ...await listEntries(join(projectPath, "src"))]) {
+    const language = EXTENSION_LANGUAGES[extname(file).toLowerCase()];
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+
+  let best: string | null = null;
+  for (const [language, count] of counts) {
+    if (!best || count > counts.get(best)!) best = language;
+  }
+  return best;
+}
+
+/**
+ * The README's first lines of prose: headings lose their #s, and badges, images
+ * and HTML lines are skipped.
+ */
+export function readmeSummary(content: string, maxLines = README_LINES): string[] {
+  const lines: string[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim().replace(/^#+\s*/, "");
+    if (!line || /^(!\[|\[!\[|<|---|===)/.test(line)) continue;
+    lines.push(line);
+    if (lines.length === maxLines) break;
+  }
+  return lines;
+}
+
+async function readReadme(projectPath: string, entries: string[]): Promise<string[]> {
+  const name = entries.find((e) => README_FILE.test(e));
+  if (!name) return [];
+
+  try {
+    const handle = await open(join(projectPath, name), "r");
+    try {
+      const buffer = Buffer.alloc(README_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, README_BYTES, 0);
+      return readmeSummary(buffer.toString("utf-8", 0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load what the preview pane shows for a project. Reads only a few small files
+ * and one git command, so it is cheap enough to run for each highlighted row.
+ */
+export async function loadPreview(projectPath: string): Promise<ProjectPreview> {
+  const entries = await listEntries(projectPath);
+  const [readme, language, gitLog] = await Promise.all([
+    readReadme(projectPath, entries),
+    detectLanguage(projectPath, entries),
+    entries.includes(".git") ? readGitLog(projectPath, GIT_LOG_COUNT) : Promise.resolve([]),
+  ]);
+  log(`loadPreview: ${projectPath} language=${language} readme=${readme.length} log=${gitLog.length}`);
+  return { readme, language, gitLog };
+}
@@ -0,0 +1,210 @@
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  cdCommand,
+  detectCommandShell,
+  escapeInDoubleQuotes,
+  parseCdCommand,
+  popdCommand,
+  pushdCommand,
+  quoteArg,
+  quoteArgIfNeeded,
+  quoteContextAt,
+  splitArgs,
+  toCommandShell,
+  type CommandShell,
+} from "./quoting.js";
+
+// Directory names that break naive quoting in at least one shell
+const HOSTILE_NAMES = [
+  "plain",
+  "with space",
+  "  leading and trailing  ",
+  "it's",
+  "'single'",
+  '"double"',
+  "back\\slash",
+  "trailing\\",
+  "$HOME",
+  "${HOME}",
+  "$(touch pwned)",
+  "`touch pwned`",
+  "$env:PATH",
+  "@(touch pwned)",
+  "!!",
+  "!$",
+  "semi;colon && touch pwned",
+  "pipe | touch pwned",
+  "glob*?",
+  "[brackets]",
+  "{a,b}",
+  "~tilde",
+  "#hash",
+  "-dash",
+  "%percent%",
+  "tab\there",
+  "new\nline",
+  "‘smart’ quotes",
+  "ünïcødé ✓",
+];
+
+function hasShell(command: string): boolean {
+  return spawnSync(command, ["-c", "exit 0"], { stdio: "ignore" }).status === 0;
+}
+
+/**
+ * Reads back a PowerShell single-quoted string, failing unless the whole input is
+ * exactly one such string (so nothing outside it could be evaluated).
+ */
+function unquotePowerShell(quoted: string): string {
+  const match = /^'((?:[^'‘’‚‛]|['‘’‚‛]{2})*)'$/.exec(quoted);
+  expect(match, quoted).not.toBeNull();
+  return match![1].replace(/(['‘’‚‛])\1/g, "$1");
+}
+
+let root: string;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), "dash-quoting-"));
+  for (const name of HOSTILE_NAMES) {
+    mkdirSync(join(root, name));
+  }
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+/**
+ * Runs the generated command the way the shell wrapper does (script gets the command
+ * file in $DASH_COMMAND_FILE) and returns what the script printed.
+ */
+function runCd(shell: string, args: string[], path: string, commandShell: CommandShell): string {
+  const commandFile = join(tmpdir(), `dash-quoting-command-${process.pid}`);
+  writeFileSync(commandFile, cdCommand(path, commandShell));
+  const result = spawnSync(shell, args, {
+    cwd: root,
+    encoding: "utf-8",
+    env: { ...process.env, DASH_COMMAND_FILE: commandFile },
+  });
+  rmSync(commandFile, { force: true });
+  expect(result.stderr).toBe("");
+  return result.stdout;
+}
+
+describe("quoting", () => {
+  it.each(HOSTILE_NAMES)("bash sources the cd command for %j verbatim", (name) => {
+    const path = join(root, name);
+    const cwd = runCd("bash", ["-c", '. "$DASH_COMMAND_FILE" && printf "%s" "$PWD"'], path, "posix");
+
+    expect(cwd).toBe(path);
+    expect(existsSync(join(root, "pwned"))).toBe(false);
+  });
+
+  it.each(HOSTILE_NAMES)("PowerShell reads the cd command for %j as one literal path", (name) => {
+    const path = join(root, name);
+    const command = cdCommand(path, "powershell");
+
+    expect(command.startsWith("Set-Location -LiteralPath ")).toBe(true);
+    expect(unquotePowerShell(command.slice("Set-Location -LiteralPath ".length))).toBe(path);
+  });
+
+  it.runIf(hasShell("pwsh"))("PowerShell runs the cd commands verbatim", () => {
+    for (const name of HOSTILE_NAMES) {
+      const path = join(root, name);
+      const cwd = runCd("pwsh", ["-NoProfile", "-Command", "Invoke-Expression (Get-Content $env:DASH_COMMAND_FILE -Raw); (Get-Location).ProviderPath"], path, "powershell");
+      expect(cwd.replace(/\r?\n$/, "")).toBe(path);
+    }
+    expect(readdirSync(root)).not.toContain("pwned");
+  });
+
+  it.runIf(hasShell("zsh"))("zsh sources the posix cd commands verbatim", () => {
+    for (const name of HOSTILE_NAMES) {
+      const path = join(root, name);
+      expect(runCd("zsh", ["-fc", 'source "$DASH_COMMAND_FILE" && printf "%s" "$PWD"'], path, "posix")).toBe(path);
+    }
+    expect(readdirSync(root)).not.toContain("pwned");
+  });
+
+  it.runIf(hasShell("fish"))("fish sources the cd commands verbatim", () => {
+    for (const name of HOSTILE_NAMES) {
+      const path = join(root, name);
+      expect(runCd("fish", ["--no-config", "-c", 'source $DASH_COMMAND_FILE; and printf "%s" "$PWD"'], path, "fish")).toBe(path);
+    }
+    expect(readdirSync(root)).not.toContain("pwned");
+  });
+
+  it("quotes each shell's special characters", () => {
+    expect(quoteArg("it's", "posix")).toBe("'it'\\''s'");
+    expect(quoteArg("it's \\ here", "fish")).toBe("'it\\'s \\\\ here'");
+    expect(quoteArg("it's ‘here’", "powershell")).toBe("'it''s ‘‘here’’'");
+    expect(quoteArgIfNeeded("--force", "posix")).toBe("--force");
+    expect(quoteArgIfNeeded("", "posix")).toBe("''");
+    // An unquoted "a,b" would be an array in PowerShell
+    expect(quoteArgIfNeeded("a,b", "posix")).toBe("a,b");
+    expect(quoteArgIfNeeded("a,b", "powershell")).toBe("'a,b'");
+    expect(escapeInDoubleQuotes('say "hi" to $USER', "powershell")).toBe('say `"hi`" to `$USER');
+    expect(cdCommand("/work/$app", "posix")).toBe("cd '/work/$app'");
+    expect(cdCommand("C:\\work\\[app]", "powershell")).toBe("Set-Location -LiteralPath 'C:\\work\\[app]'");
+  });
+
+  it("bash reads quoted and double-quote-escaped values verbatim", () => {
+    const words = HOSTILE_NAMES.flatMap((name) => [quoteArgIfNeeded(name, "posix"), `"<${escapeInDoubleQuotes(name, "posix")}>"`]);
+    const result = spawnSync("bash", ["-c", `printf '%s\\0' ${words.join(" ")}`], { cwd: root, encoding: "utf-8" });
+
+    expect(result.stdout.split("\0").slice(0, -1)).toEqual(HOSTILE_NAMES.flatMap((name) => [name, `<${name}>`]));
+    expect(existsSync(join(root, "pwned"))).toBe(false);
+  });
+
+  it("bash returns to where it started after pushd and popd commands", () => {
+    const path = join(root, "with space");
+    const script = [pushdCommand(path, "posix"), 'printf "%s\\n" "$PWD"', popdCommand("posix"), 'printf "%s" "$PWD"'].join("\n");
+    const result = spawnSync("bash", ["-c", script], { cwd: root, encoding: "utf-8" });
+
+    expect(result.stdout).toBe(`${path}\n${root}`);
+  });
+
+  it("splits quoted arguments back into the values", () => {
+    for (const shell of ["posix", "fish", "powershell"] as const) {
+      const line = HOSTILE_NAMES.map((name) => quoteArgIfNeeded(name, shell)).join(" ");
+      expect(splitArgs(line, shell)).toEqual(HOSTILE_NAMES);
+    }
+    expect(splitArgs('  prod "two words" a\\ b ', "posix")).toEqual(["prod", "two words", "a b"]);
+    expect(splitArgs('"say `"hi`"" \'\'', "powershell")).toEqual(['say "hi"', ""]);
+  });
+
+  it("tells which quotes a position of a command line is inside", () => {
+    const line = `echo '{a}' "{b} \\" {c}" {d}`;
+    const contexts = ["{a}", "{b}", "{c}", "{d}"].map((p) => quoteContextAt(line, line.indexOf(p), "posix"));
+
+    expect(contexts).toEqual(["single", "double", "double", "none"]);
+    expect(quoteContextAt("echo 'it''s {x}'", 12, "powershell")).toBe("single");
+    expect(quoteContextAt("echo 'it\\'s' {x}", 14, "fish")).toBe("none");
+  });
+
+  it("reads paths back out of generated, legacy and hand-written cd commands", () => {
+    for (const shell of ["posix", "fish", "powershell"] as const) {
+      for (const name of HOSTILE_NAMES) {
+        const path = join(root, name);
+        expect(parseCdCommand(cdCommand(path, shell), shell)).toBe(path);
+      }
+    }
+    expect(parseCdCommand('cd "/work/\\"one\\""')).toBe('/work/"one"');
+    expect(parseCdCommand("cd /work/two", "powershell")).toBe("/work/two");
+    expect(parseCdCommand("cd '/work/app' && npm test", "posix")).toBeNull();
+    expect(parseCdCommand("npm test", "posix")).toBeNull();
+  });
+
+  it("detects the target shell from the wrapper, then the environment", () => {
+    expect(toCommandShell("zsh")).toBe("posix");
+    expect(toCommandShell("tcsh")).toBeNull();
+    expect(detectCommandShell({ DASH_SHELL: "fish", PSModulePath: "C:\\Modules" })).toBe("fish");
+    expect(detectCommandShell({ PSModulePath: "C:\\Modules", SHELL: "/bin/bash" })).toBe("powershell");
+    expect(detectCommandShell({ SHELL: "/usr/bin/fish" })).toBe("fish");
+    expect(detectCommandShell({ SHELL: "/bin/zsh" })).toBe("posix");
+    expect(detectCommandShell({})).toBe("posix");
+  });
+});
@@ -0,0 +1,231 @@
+// Quoting for the commands dash writes to the last-command file, which the shell
+// wrapper then sources (bash, zsh, fish) or runs with Invoke-Expression (PowerShell).
+
+/**
+ * Quoting rules a command is written for. Bash and zsh share POSIX quoting.
+ */
+export type CommandShell = "posix" | "fish" | "powershell";
+
+// PowerShell treats the typographic single quotes as ' too, so they must be doubled as well
+const POWERSHELL_QUOTES = /['‘’‚‛]/g;
+
+/**
+ * Quotes a value so the shell reads it back verbatim: no variable, command,
+ * history or wildcard expansion.
+ */
+export function quoteArg(value: string, shell: CommandShell): string {
+  switch (shell) {
+    case "posix":
+      // Nothing is special inside single quotes; a quote closes, escapes itself and reopens
+      return `'${value.replace(/'/g, "'\\''")}'`;
+    case "fish":
+      return `'${value.replace(/[\\']/g, "\\$&")}'`;
+    case "powershell":
+      return `'${value.replace(POWERSHELL_QUOTES, "$&$&")}'`;
+  }
+}
+
+// Words each shell reads back as they are, so they need no quotes. An unquoted "a,b" is
+// an array in PowerShell, passed on as separate arguments.
+const PLAIN_WORDS: Record<CommandShell, RegExp> = {
+  posix: /^[\w+:,./-]+$/,
+  fish: /^[\w+:,./-]+$/,
+  powershell: /^[\w+:./-]+$/,
+};
+
+/**
+ * Like quoteArg, but leaves plain words like "main" or "--force" unquoted.
+ */
+export function quoteArgIfNeeded(value: string, shell: CommandShell): string {
+  return PLAIN_WORDS[shell].test(value) ? value : quoteArg(value, shell);
+}
+
+/**
+ * Escapes a value for use inside double quotes, where the shell still expands variables.
+ */
+export function escapeInDoubleQuotes(value: string, shell: CommandShell): string {
+  switch (shell) {
+    case "posix":
+      return value.replace(/[\\"$`]/g, "\\$&");
+    case "fish":
+      return value.replace(/[\\"$]/g, "\\$&");
+    case "powershell":
+      return value.replace(/[`"$“”„]/g, "`$&");
+  }
+}
+
+export type QuoteContext = "none" | "single" | "double";
+
+/**
+ * The kind of quotes the shell is inside of at a position of a command line.
+ */
+export function quoteContextAt(text: string, index: number, shell: CommandShell): QuoteContext {
+  const isSingle = (ch: string | undefined) => (shell === "powershell" ? /['‘’‚‛]/.test(ch ?? "") : ch === "'");
+  const isDouble = (ch: string | undefined) => (shell === "powershell" ? /["“”„]/.test(ch ?? "") : ch === '"');
+  const escape = shell === "powershell" ? "`" : "\\";
+  let context: QuoteContext = "none";
+
+  for (let i = 0; i < index; i++) {
+    const ch = text[i];
+    if (context === "single") {
+      if (shell === "fish" && ch === "\\" && /[\\']/.test(text[i + 1] ?? "")) i++;
+      else if (shell === "powershell" && isSingle(ch) && isSingle(text[i + 1])) i++;
+      else if (isSingle(ch)) context = "none";
+    } else if (ch === escape) {
+      i++;
+    } else if (context === "double") {
+      if (isDouble(ch)) context = "none";
+    } else if (isSingle(ch)) {
+      context = "single";
+    } else if (isDouble(ch)) {
+      context = "double";
+    }
+  }
+  return context;
+}
+
+/**
+ * Splits a command line into its arguments the way the shell would, undoing
+ * quoteArg's quoting, double quotes and escapes. Nothing is expanded.
+ */
+export function splitArgs(text: string, shell: CommandShell): string[] {
+  const isQuote = (ch: string) => (shell === "powershell" ? /['‘’‚‛]/.test(ch) : ch === "'");
+  const escape = shell === "powershell" ? "`" : "\\";
+  const args: string[] = [];
+  let current: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      if (current !== null) args.push(current);
+      current = null;
+      continue;
+    }
+    current ??= "";
+
+    if (isQuote(ch)) {
+      for (i++; i < text.length; i++) {
+        if (shell === "fish" && text[i] === "\\" && /[\\']/.test(text[i + 1] ?? "")) {
+          current += text[++i];
+        } else if (isQuote(text[i])) {
+          // PowerShell writes a quote inside single quotes as two
+          if (shell !== "powershell" || !isQuote(text[i + 1] ?? "")) break;
+          current += text[++i];
+        } else {
+          current += text[i];
+        }
+      }
+    } else if (ch === '"') {
+      // Inside double quotes, bash, zsh and fish only take a backslash as an escape before these
+      const escapable = shell === "powershell" ? /[^]/ : /["\\$`]/;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        current += text[i] === escape && escapable.test(text[i + 1] ?? "") ? text[++i] : text[i];
+      }
+    } else if (ch === escape && i + 1 < text.length) {
+      current += text[++i];
+    } else {
+      current += ch;
+    }
+  }
+  if (current !== null) args.push(current);
+  return args;
+}
+
+/**
+ * Builds the command that changes to path in the given shell.
+ */
+export function cdCommand(path: string, shell: CommandShell): string {
+  // -LiteralPath keeps PowerShell from treating [ ] * ? in the path as wildcards
+  return shell === "powershell"
+    ? `Set-Location -LiteralPath ${quoteArg(path, shell)}`
+    : `cd ${quoteArg(path, shell)}`;
+}
+
+/**
+ * Builds the command that changes to path, remembering where it was for popdCommand.
+ */
+export function pushdCommand(path: string, shell: CommandShell): string {
+  switch (shell) {
+    case "posix":
+      return `pushd ${quoteArg(path, shell)} > /dev/null`;
+    case "fish":
+      return `pushd ${quoteArg(path, shell)}`;
+    case "powershell":
+      return `Push-Location -LiteralPath ${quoteArg(path, shell)}`;
+  }
+}
+
+/**
+ * Builds the command that returns to where the last pushdCommand was run.
+ */
+export function popdCommand(shell: CommandShell): string {
+  switch (shell) {
+    case "posix":
+      return "popd > /dev/null";
+    case "fish":
+      return "popd";
+    case "powershell":
+      return "Pop-Location";
+  }
+}
+
+/**
+ * Maps a shell name (as passed to --setup) to its quoting rules.
+ */
+export function toCommandShell(shell: string | undefined): CommandShell | null {
+  switch (shell) {
+    case "bash":
+    case "zsh":
+    case "posix":
+      return "posix";
+    case "fish":
+    case "powershell":
+      return shell;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Works out which shell will run our commands. The shell wrappers set DASH_SHELL;
+ * wrappers installed before that fall back to guessing from the environment.
+ */
+export function detectCommandShell(env: NodeJS.ProcessEnv = process.env): CommandShell {
+  const fromWrapper = toCommandShell(env.DASH_SHELL);
+  if (fromWrapper) return fromWrapper;
+
+  if (env.PSModulePath) return "powershell";
+  if ((env.SHELL ?? "").includes("fish")) return "fish";
+  return "posix";
+}
+
+// A hand-written `cd /some/path` needs no quoting in any shell
+const UNQUOTED_CD = /^cd\s+([^\s"'`$\\]+)$/;
+
+/**
+ * Reads the path back out of a cd command written by cdCommand for the given shell.
+ * Shortcuts without a shell predate shell-aware quoting and used `cd "path"`.
+ */
+export function parseCdCommand(command: string, shell?: CommandShell): string | null {
+  const plain = UNQUOTED_CD.exec(command);
+  if (plain) return plain[1];
+
+  switch (shell) {
+    case undefined: {
+      const match = /^cd\s+"((?:[^"\\]|\\")*)"$/.exec(command);
+      return match ? match[1].replace(/\\"/g, '"') : null;
+    }
+    case "posix": {
+      const match = /^cd '((?:[^']|'\\'')*)'$/.exec(command);
+      return match ? match[1].replace(/'\\''/g, "'") : null;
+    }
+    case "fish": {
+      const match = /^cd '((?:[^'\\]|\\[\\'])*)'$/.exec(command);
+      return match ? match[1].replace(/\\([\\'])/g, "$1") : null;
+    }
+    case "powershell": {
+      const match = /^Set-Location -LiteralPath '((?:[^'‘’‚‛]|(['‘’‚‛])\2)*)'$/.exec(command);
+      return match ? match[1].replace(/(['‘’‚‛])\1/g, "$1") : null;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { findRepoShortcut, parseRepoShortcuts, toUserShortcut } from "./repoShortcuts.js";
+import { hashContent } from "./trust.js";
+import type { Project } from "./types.js";
+
+let dir: string | null = null;
+
+afterEach(() => {
+  if (dir) {
+    rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  }
+});
+
+describe("repo shortcuts", () => {
+  it("namespaces valid entries under the project and skips invalid ones", () => {
+    const project = { name: "api", path: "/work/api" };
+    const content = JSON.stringify({
+      shortcuts: [
+        { trigger: "test", aliases: ["t"], command: "npm test", tags: ["ci"] },
+        { name: "Serve", trigger: "serve", command: ["npm install", "npm start"], caseSensitive: true },
+        { trigger: "bad trigger", command: "echo bad" },
+        { trigger: "nothing" },
+      ],
+    });
+
+    expect(parseRepoShortcuts(content, project, "/work/api/.dash.json")).toEqual([
+      {
+        id: "/work/api/.dash.json#test",
+        name: "test",
+        trigger: "api:test",
+        aliases: ["api:t"],
+        caseSensitive: false,
+        command: ["npm test"],
+        pinned: false,
+        tags: ["ci"],
+        repo: "/work/api",
+        source: { file: "/work/api/.dash.json", hash: hashContent(content) },
+        createdAt: 0,
+      },
+      expect.objectContaining({ name: "Serve", trigger: "api:serve", caseSensitive: true, command: ["npm install", "npm start"] }),
+    ]);
+    // References within the file are to its own namespaced triggers
+    const withReferences = parseRepoShortcuts(
+      JSON.stringify({ shortcuts: [{ trigger: "ci", command: ["@test --coverage", "@web:build"] }] }),
+      project,
+      "/work/api/.dash.json",
+    );
+    expect(withReferences[0].command).toEqual(["@api:test --coverage", "@web:build"]);
+    expect(parseRepoShortcuts("{", project, ".dash.json")).toEqual([]);
+    expect(parseRepoShortcuts("[]", project, ".dash.json")).toEqual([]);
+  });
+
+  it("finds namespaced triggers in the matching project's file", () => {
+    dir = mkdtempSync(join(tmpdir(), "dash-repo-"));
+    writeFileSync(join(dir, "dash.config.json"), JSON.stringify({ shortcuts: [{ trigger: "test", aliases: ["t"], command: "npm test" }] }));
+    const projects: Project[] = [
+      { name: "web", path: "/work/web", nestedProjects: [
+        { name: "api", path: dir },
+      ] },
+    ];
+
+    expect(findRepoShortcut("API:T", projects)).toMatchObject({ trigger: "api:test", repo: dir });
+    expect(findRepoShortcut("api:missing", projects)).toBeUndefined();
+    expect(findRepoShortcut("web:test", projects)).toBeUndefined();
+    expect(findRepoShortcut("test", projects)).toBeUndefined();
+
+    // Another "api" folder elsewhere: a trigger both define is ambiguous, others still resolve
+    const other = join(dir, "other-root", "api");
+    mkdirSync(other, { recursive: true });
+    writeFileSync(join(other, ".dash.json"), JSON.stringify({ shortcuts: [{ trigger: "test", command: "make test" }, { trigger: "lint", command: "make lint" }] }));
+    projects.push({ name: "api", path: other });
+    expect(() => findRepoShortcut("api:test", projects)).toThrow(`"api:test" is defined by more than one project with that name: ${dir}, ${other}`);
+    expect(findRepoShortcut("api:lint", projects)).toMatchObject({ repo: other });
+  });
+
+  it("copies a repo shortcut as user input that changes into the project first", () => {
+    const [shortcut] = parseRepoShortcuts(
+      JSON.stringify({ shortcuts: [{ trigger: "test", command: "npm test" }] }),
+      { name: "api", path: "/work/my api" },
+      ".dash.json",
+    );
+
+    expect(toUserShortcut(shortcut, "posix")).toEqual({
+      name: "test",
+      trigger: "api:test",
+      caseSensitive: false,
+      command: ["cd '/work/my api'", "npm test"],
+      shell: "posix",
+    });
+  });
+});
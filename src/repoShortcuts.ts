@@ -0,0 +1,195 @@
+import { existsSync, readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { cdCommand, detectCommandShell, type CommandShell } from "./quoting.js";
+import { matchesTrigger, validateCommand, validateTriggerFormat } from "./shortcuts.js";
+import { parseReference } from "./params.js";
+import { isPlainObject, isStringArray } from "./storage.js";
+import { hashContent } from "./trust.js";
+import { log } from "./logger.js";
+import type { Project, Shortcut, ShortcutInput, ShortcutSource } from "./types.js";
+
+// Shortcuts a project commits to its own repo. Their triggers are namespaced by the
+// project's name ("api:test"), they can't be edited in place, and they run inside the project
+// once the file is trusted.
+
+// Looked for in each project; the first one found is used
+export const REPO_SHORTCUT_FILES = [".dash.json", "dash.config.json"];
+
+type RepoProject = Pick<Project, "name" | "path" | "shortcutsFile">;
+
+/**
+ * A reference to "@test" in a repo file means the same file's "api:test"; references
+ * that name a namespace ("@web:build") are kept.
+ */
+function namespaceReference(line: string, namespace: string): string {
+  const reference = parseReference(line);
+  if (!reference || reference.trigger.includes(":")) return line;
+  return line.replace(`@${reference.trigger}`, `@${namespace}:${reference.trigger}`);
+}
+
+/**
+ * Reads one entry of a repo shortcuts file, returning the shortcut or what is wrong with it.
+ * Entries need a trigger and a command (one string or a list of them).
+ */
+function readEntry(entry: unknown, project: RepoProject, source: ShortcutSource): Shortcut | string {
+  if (!isPlainObject(entry)) return "not an object";
+  const command = typeof entry.command === "string" ? [entry.command] : entry.command;
+  const aliases = entry.aliases ?? [];
+  if (
+    typeof entry.trigger !== "string" ||
+    !isStringArray(command) ||
+    !isStringArray(aliases) ||
+    (entry.name !== undefined && typeof entry.name !== "string") ||
+    (entry.caseSensitive !== undefined && typeof entry.caseSensitive !== "boolean") ||
+    (entry.tags !== undefined && !isStringArray(entry.tags))
+  ) {
+    return "needs a trigger and a command, and fields of the right type";
+  }
+
+  for (const trigger of [entry.trigger, ...aliases]) {
+    const result = validateTriggerFormat(trigger);
+    if (!result.valid) return `"${trigger}": ${result.error}`;
+  }
+  const commandResult = validateCommand(command);
+  if (!commandResult.valid) return commandResult.error ?? "invalid command";
+
+  return {
+    id: `${source.file}#${entry.trigger}`,
+    name: entry.name?.trim() || entry.trigger,
+    trigger: `${project.name}:${entry.trigger}`,
+    ...(aliases.length > 0 ? { aliases: aliases.map((alias) => `${project.name}:${alias}`) } : {}),
+    caseSensitive: entry.caseSensitive ?? false,
+    command: command.filter((cmd) => cmd.trim() !== "").map((line) => namespaceReference(line, project.name)),
+    pinned: false,
+    ...(entry.tags ? { tags: entry.tags } : {}),
+    repo: project.path,
+    source,
+    createdAt: 0,
+  };
+}
+
+/**
+ * Turns the content of a project's repo shortcuts file into shortcuts. A file that
+ * can't be parsed gives none, and invalid entries are left out.
+ */
+export function parseRepoShortcuts(content: string, project: RepoProject, file: string): Shortcut[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    log(`parseRepoShortcuts: ${file}: invalid JSON - ${(e as Error).message}`);
+    return [];
+  }
+  if (!isPlainObject(data) || !Array.isArray(data.shortcuts)) {
+    log(`parseRepoShortcuts: ${file}: expected an object with a "shortcuts" array`);
+    return [];
+  }
+
+  const source = { file, hash: hashContent(content) };
+  const shortcuts: Shortcut[] = [];
+  for (const [index, entry] of data.shortcuts.entries()) {
+    const result = readEntry(entry, project, source);
+    if (typeof result === "string") {
+      log(`parseRepoShortcuts: ${file}: skipping shortcut ${index + 1} - ${result}`);
+    } else {
+      shortcuts.push(result);
+    }
+  }
+  return shortcuts;
+}
+
+/**
+ * The repo shortcuts of a project that has a shortcuts file.
+ */
+export function loadRepoShortcuts(project: RepoProject): Shortcut[] {
+  if (!project.shortcutsFile) return [];
+  try {
+    return parseRepoShortcuts(readFileSync(project.shortcutsFile, "utf-8"), project, project.shortcutsFile);
+  } catch (e) {
+    log(`loadRepoShortcuts: ${project.shortcutsFile} - ${e}`);
+    return [];
+  }
+}
+
+/**
+ * Async version of loadRepoShortcuts.
+ */
+export async function loadRepoShortcutsAsync(project: RepoProject): Promise<Shortcut[]> {
+  if (!project.shortcutsFile) return [];
+  try {
+    return parseRepoShortcuts(await readFile(project.shortcutsFile, "utf-8"), project, project.shortcutsFile);
+  } catch (e) {
+    log(`loadRepoShortcutsAsync: ${project.shortcutsFile} - ${e}`);
+    return [];
+  }
+}
+
+/**
+ * All the shortcuts in the file a repo shortcut was loaded from, as the file is now.
+ */
+export function loadSourceShortcuts(shortcut: Shortcut): Shortcut[] {
+  if (!shortcut.repo || !shortcut.source) return [];
+  // Projects are named after their folder, which is what namespaces the triggers
+  return loadRepoShortcuts({ name: basename(shortcut.repo), path: shortcut.repo, shortcutsFile: shortcut.source.file });
+}
+
+function* allProjects(projects: Project[]): Generator<Project> {
+  for (const project of projects) {
+    yield project;
+    if (project.nestedProjects) yield* allProjects(project.nestedProjects);
+  }
+}
+
+/**
+ * The repo shortcuts of every project (nested ones included) that has a shortcuts file.
+ */
+export function loadAllRepoShortcuts(projects: Project[]): Shortcut[] {
+  return [...allProjects(projects)].flatMap(loadRepoShortcuts);
+}
+
+/**
+ * The one repo shortcut among matches for a trigger. Projects with the same folder name
+ * (in different roots or groups) share a namespace, so when more than one of them defines
+ * the trigger it can't be told which is meant, and that is an error.
+ */
+export function pickRepoShortcut(trigger: string, matches: Shortcut[]): Shortcut | undefined {
+  const repos = [...new Set(matches.map((s) => s.repo))];
+  if (repos.length > 1) {
+    throw new Error(`"${trigger}" is defined by more than one project with that name: ${repos.join(", ")}`);
+  }
+  return matches[0];
+}
+
+/**
+ * Finds the repo shortcut for a namespaced trigger like "api:test" among the projects
+ * named by the namespace. Projects from an older cache may not list their shortcuts
+ * file, so it is looked for on disk.
+ */
+export function findRepoShortcut(trigger: string, projects: Project[]): Shortcut | undefined {
+  const separator = trigger.indexOf(":");
+  if (separator <= 0) return undefined;
+  const namespace = trigger.slice(0, separator).toLowerCase();
+
+  const matches = [...allProjects(projects)]
+    .filter((project) => project.name.toLowerCase() === namespace)
+    .flatMap((project) => {
+      const shortcutsFile = project.shortcutsFile
+        ?? REPO_SHORTCUT_FILES.map((name) => join(project.path, name)).find((file) => existsSync(file));
+      return loadRepoShortcuts({ ...project, shortcutsFile }).filter((s) => matchesTrigger(s, trigger));
+    });
+  return pickRepoShortcut(trigger, matches);
+}
+
+/**
+ * Input for copying a repo shortcut into the user's own shortcuts, where it can be
+ * edited: the same triggers and commands, after a cd into the project.
+ */
+export function toUserShortcut(shortcut: Shortcut, shell: CommandShell = detectCommandShell()): ShortcutInput {
+  const { id: _id, createdAt: _createdAt, order: _order, pinned: _pinned, repo, source: _source, ...input } = shortcut;
+  return {
+    ...input,
+    command: repo ? [cdCommand(repo, shell), ...input.command] : input.command,
+    shell,
+  };
+}
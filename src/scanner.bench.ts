@@ -0,0 +1,50 @@
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, bench, describe } from "vitest";
+import { parseProjectMarkers, walkRoot } from "./scanner.js";
+import { DEFAULT_PROJECT_MARKERS } from "./settings.js";
+import type { ProjectRoot } from "./types.js";
+
+const GROUPS = 40;
+const PROJECTS_PER_GROUP = 25;
+
+// A root of groups of git projects, each with some sources and a skipped node_modules
+function createFixture(): string {
+  const base = mkdtempSync(join(tmpdir(), "dash-bench-"));
+  const past = new Date(Date.now() - 60_000);
+
+  for (let g = 0; g < GROUPS; g++) {
+    for (let p = 0; p < PROJECTS_PER_GROUP; p++) {
+      const project = join(base, `group-${g}`, `project-${p}`);
+      mkdirSync(join(project, ".git"), { recursive: true });
+      mkdirSync(join(project, "src", "lib"), { recursive: true });
+      mkdirSync(join(project, "node_modules", "dep"), { recursive: true });
+      writeFileSync(join(project, "package.json"), "{}");
+      for (let f = 0; f < 10; f++) writeFileSync(join(project, "src", `file-${f}.ts`), "");
+      for (const dir of [join(project, "src", "lib"), join(project, "src"), project]) utimesSync(dir, past, past);
+    }
+    utimesSync(join(base, `group-${g}`), past, past);
+  }
+  utimesSync(base, past, past);
+  return base;
+}
+
+const fixture = createFixture();
+const root: ProjectRoot = { path: fixture, maxDepth: 4, skipDirs: "node_modules" };
+const markers = parseProjectMarkers(DEFAULT_PROJECT_MARKERS);
+const { records } = await walkRoot(root, markers);
+
+afterAll(() => {
+  rmSync(fixture, { recursive: true, force: true });
+});
+
+describe(`scan ${GROUPS * PROJECTS_PER_GROUP} projects`, () => {
+  bench("full scan", async () => {
+    await walkRoot(root, markers);
+  });
+
+  bench("incremental scan, nothing changed", async () => {
+    await walkRoot(root, markers, { previous: records });
+  });
+});
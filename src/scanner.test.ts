@@ -1,9 +1,19 @@
-import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, describe, expect, it } from "vitest";
-import { findProjectByPath, getAllProjectPaths, scanProjects, scanProjectsAsync } from "./scanner.js";
-import type { Settings } from "./types.js";
+import {
+  findContainingProject,
+  findProjectByPath,
+  getAllProjectPaths,
+  getDisplayName,
+  scanProjectsAsync,
+  walkRoot,
+  type ScanIndex,
+  type ScanProgress,
+} from "./scanner.js";
+import { DEFAULT_PROJECT_MARKERS } from "./settings.js";
+import type { ProjectRoot, Settings } from "./types.js";
 
 let root: string | null = null;
 
@@ -12,22 +22,31 @@ function createRoot(): string {
   return root;
 }
 
-function settings(projectsDir: string, overrides: Partial<Settings> = {}): Settings {
+function settings(projectsDir: string, overrides: Partial<ProjectRoot> = {}): Settings {
+  return withRoots([{ path: projectsDir, maxDepth: 4, skipDirs: "node_modules,dist", ...overrides }]);
+}
+
+function withRoots(roots: ProjectRoot[]): Settings {
   return {
-    projectsDir,
-    maxDepth: 4,
-    skipDirs: "node_modules,dist",
+    roots,
+    projectMarkers: DEFAULT_PROJECT_MARKERS,
     showShortcuts: true,
     showRecent: true,
     recentCount: 5,
+    recentRanking: "frecency",
     visibleRows: 12,
+    searchScope: "tree",
+    showPreview: false,
+    watchProjects: false,
+    actions: [],
     selectedColor: "#FFD700",
     shortcutColor: "#69FFBE",
     recentColor: "#6495ED",
     shortcutToggleKey: "t",
     refreshKey: "r",
     moveKey: "o",
-    ...overrides,
+    previewKey: "p",
+    actionKey: "a",
   };
 }
 
@@ -46,22 +65,20 @@ describe("scanner", () => {
     writeFileSync(join(projectsDir, "group", "beta", ".git"), "gitdir: ../.git/worktrees/beta");
     mkdirSync(join(projectsDir, "node_modules", "ignored", ".git"), { recursive: true });
 
-    const result = scanProjects(settings(projectsDir));
+    const result = await scanProjectsAsync(settings(projectsDir));
 
     expect(result.map((project) => project.name)).toEqual(["alpha", "group"]);
-    expect(result[1]).toMatchObject({ name: "group", isGitRepo: false, hasNestedProjects: true });
-    expect(result[1].nestedProjects?.[0]).toMatchObject({ name: "beta", isGitRepo: true });
-
-    await expect(scanProjectsAsync(settings(projectsDir))).resolves.toEqual(result);
+    expect(result[1]).toMatchObject({ name: "group", kind: undefined, hasNestedProjects: true });
+    expect(result[1].nestedProjects?.[0]).toMatchObject({ name: "beta", kind: "git" });
   });
 
   it("respects missing roots, depth, aborts, and project lookup helpers", async () => {
     const projectsDir = createRoot();
     mkdirSync(join(projectsDir, "deep", "child", ".git"), { recursive: true });
 
-    expect(scanProjects(settings(join(projectsDir, "missing")))).toEqual([]);
-    expect(scanProjects(settings(projectsDir, { maxDepth: 1 }))).toEqual([]);
-    await expect(scanProjectsAsync(settings(projectsDir), { aborted: true })).resolves.toEqual([]);
+    await expect(scanProjectsAsync(settings(join(projectsDir, "missing")))).resolves.toEqual([]);
+    await expect(scanProjectsAsync(settings(projectsDir, { maxDepth: 1 }))).resolves.toEqual([]);
+    await expect(scanProjectsAsync(settings(projectsDir), { signal: AbortSignal.abort() })).resolves.toEqual([]);
 
     const projects = await scanProjectsAsync(settings(projectsDir));
     const all = getAllProjectPaths(projects);
@@ -70,4 +87,161 @@ describe("scanner", () => {
     expect(findProjectByPath(projects, childPath)?.path).toBe(childPath);
     expect(findProjectByPath(projects, join(projectsDir, "none"))).toBeUndefined();
   });
+
+  it("reports progress and stops walking midway once aborted", async () => {
+    const projectsDir = createRoot();
+    for (const name of ["a", "b", "c"]) {
+      mkdirSync(join(projectsDir, name, "sub", ".git"), { recursive: true });
+    }
+
+    const reports: ScanProgress[] = [];
+    await scanProjectsAsync(settings(projectsDir), { onProgress: (progress) => reports.push(progress) });
+    expect(reports.at(-1)).toEqual({ directories: 7, projects: 3 });
+
+    const controller = new AbortController();
+    let visited = 0;
+    const walk = walkRoot(settings(projectsDir).roots[0], [".git"], {
+      signal: controller.signal,
+      onDirectory: () => {
+        visited++;
+        controller.abort();
+      },
+    });
+    await expect(walk).resolves.toMatchObject({ read: 1 });
+    expect(visited).toBe(1);
+
+    const aborted = new AbortController();
+    const scan = scanProjectsAsync(settings(projectsDir), { signal: aborted.signal, onProgress: () => aborted.abort() });
+    await expect(scan).resolves.toEqual([]);
+  });
+
+  it("groups several roots, each scanned with its own depth and skip rules", async () => {
+    const base = createRoot();
+    const work = join(base, "work");
+    const oss = join(base, "mnt", "oss");
+    mkdirSync(join(work, "api", ".git"), { recursive: true });
+    mkdirSync(join(work, "team", "web", ".git"), { recursive: true });
+    mkdirSync(join(oss, "lib", ".git"), { recursive: true });
+    mkdirSync(join(oss, "vendor", "dep", ".git"), { recursive: true });
+    mkdirSync(join(oss, "a", "b", "too-deep", ".git"), { recursive: true });
+
+    const config = withRoots([
+      { path: work, maxDepth: 4, skipDirs: "" },
+      { path: oss, label: "Open source", maxDepth: 2, skipDirs: "vendor" },
+      { path: join(base, "missing"), maxDepth: 4, skipDirs: "" },
+    ]);
+    const projects = await scanProjectsAsync(config);
+
+    expect(projects.map((p) => [p.name, p.path, p.kind])).toEqual([
+      ["work", work, undefined],
+      ["Open source", oss, undefined],
+    ]);
+    expect(projects[0].nestedProjects?.map((p) => p.name)).toEqual(["api", "team"]);
+    expect(projects[1].nestedProjects?.map((p) => p.name)).toEqual(["lib"]);
+
+    expect(getDisplayName(join(work, "team", "web"), config.roots)).toBe("work/team/web");
+    expect(getDisplayName(join(oss, "lib"), config.roots)).toBe("Open source/lib");
+    expect(getDisplayName(oss, config.roots)).toBe("Open source");
+    expect(getDisplayName(join(work, "api"), [config.roots[0]])).toBe("api");
+
+    expect(findContainingProject(join(oss, "lib", "src"), config)).toBe(join(oss, "lib"));
+    expect(findContainingProject(join(work, "team", "web"), config, projects)).toBe(join(work, "team", "web"));
+    expect(findContainingProject(join(base, "elsewhere"), config)).toBeNull();
+  });
+
+  it("finds projects by any configured marker and records the first matching kind", async () => {
+    const projectsDir = createRoot();
+    mkdirSync(join(projectsDir, "repo", ".git"), { recursive: true });
+    writeFileSync(join(projectsDir, "repo", "package.json"), "{}");
+    mkdirSync(join(projectsDir, "hg-checkout", ".hg"), { recursive: true });
+    mkdirSync(join(projectsDir, "svn-checkout", ".svn", "pristine"), { recursive: true });
+    mkdirSync(join(projectsDir, "tools", "cli"), { recursive: true });
+    writeFileSync(join(projectsDir, "tools", "cli", "Cargo.toml"), "");
+    mkdirSync(join(projectsDir, "notes"), { recursive: true });
+    writeFileSync(join(projectsDir, "notes", "README.md"), "");
+
+    const config = settings(projectsDir, { skipDirs: "node_modules,.svn" });
+    const projects = await scanProjectsAsync(config);
+
+    expect(projects.map((p) => [p.name, p.kind])).toEqual([
+      ["hg-checkout", "hg"],
+      ["repo", "git"],
+      ["svn-checkout", "svn"],
+      ["tools", undefined],
+    ]);
+    expect(projects[3].nestedProjects?.map((p) => [p.name, p.kind])).toEqual([["cli", "rust"]]);
+
+    // Marker order decides the kind, and only listed markers count
+    const reordered = await scanProjectsAsync({ ...config, projectMarkers: "package.json, .git" });
+    expect(reordered.map((p) => [p.name, p.kind])).toEqual([["repo", "node"]]);
+
+    expect(findContainingProject(join(projectsDir, "tools", "cli", "src"), config)).toBe(join(projectsDir, "tools", "cli"));
+    expect(findContainingProject(join(projectsDir, "notes"), config)).toBeNull();
+  });
+
+  it("records the repo shortcuts file of each project", async () => {
+    const projectsDir = createRoot();
+    mkdirSync(join(projectsDir, "api", ".git"), { recursive: true });
+    writeFileSync(join(projectsDir, "api", "dash.config.json"), "{}");
+    writeFileSync(join(projectsDir, "api", ".dash.json"), "{}");
+    mkdirSync(join(projectsDir, "web", ".git"), { recursive: true });
+    mkdirSync(join(projectsDir, "notes"), { recursive: true });
+    writeFileSync(join(projectsDir, "notes", ".dash.json"), "{}");
+
+    const projects = await scanProjectsAsync(settings(projectsDir));
+
+    // A shortcuts file alone doesn't make a project, and .dash.json wins over dash.config.json
+    expect(projects.map((p) => [p.name, p.shortcutsFile])).toEqual([
+      ["api", join(projectsDir, "api", ".dash.json")],
+      ["web", undefined],
+    ]);
+  });
+
+  it("only reads directories that changed since the indexed scan", async () => {
+    const projectsDir = createRoot();
+    mkdirSync(join(projectsDir, "alpha", ".git"), { recursive: true });
+    mkdirSync(join(projectsDir, "group", "beta", ".git"), { recursive: true });
+    mkdirSync(join(projectsDir, "group", "gamma"), { recursive: true });
+    writeFileSync(join(projectsDir, "group", "gamma", "package.json"), "{}");
+    mkdirSync(join(projectsDir, "node_modules", "dep"), { recursive: true });
+    backdate(projectsDir);
+    const config = settings(projectsDir);
+    const root = config.roots[0];
+    const markers = DEFAULT_PROJECT_MARKERS.split(",");
+
+    const index: ScanIndex = {};
+    const first = await scanProjectsAsync(config, { index });
+    expect(Object.keys(index[projectsDir]).sort()).toEqual(
+      [projectsDir, "alpha", "group", "group/beta", "group/gamma"].map((dir) => dir === projectsDir ? dir : join(projectsDir, dir)).sort()
+    );
+
+    // Nothing changed: every directory is reused
+    const unchanged = await walkRoot(root, markers, { previous: index[projectsDir] });
+    expect(unchanged).toMatchObject({ read: 0, reused: 5 });
+
+    // A project added deep in the tree only touches its parent's mtime
+    mkdirSync(join(projectsDir, "group", "beta", "nested", ".hg"), { recursive: true });
+    const changed = await walkRoot(root, markers, { previous: index[projectsDir] });
+    expect(changed).toMatchObject({ read: 2, reused: 4 });
+
+    const second = await scanProjectsAsync(config, { index });
+    // The same projects as a scan without the index
+    expect(second).toEqual(await scanProjectsAsync(config));
+    expect(second).not.toEqual(first);
+    expect(second[1].nestedProjects?.[0]).toMatchObject({ name: "beta", kind: "git", hasNestedProjects: true });
+
+    // Removed directories drop out of the index
+    rmSync(join(projectsDir, "alpha"), { recursive: true });
+    await scanProjectsAsync(config, { index });
+    expect(index[projectsDir][join(projectsDir, "alpha")]).toBeUndefined();
+  });
 });
+
+// Moves directory mtimes into the past, so an indexed scan trusts them
+function backdate(dir: string): void {
+  const past = new Date(Date.now() - 60_000);
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) backdate(join(dir, entry.name));
+  }
+  utimesSync(dir, past, past);
+}
@@ -1,15 +1,52 @@
 import { existsSync, readFileSync } from "node:fs";
-import fg from "fast-glob";
-import { join, basename, dirname, relative, resolve } from "node:path";
-import type { Project, Settings } from "./types.js";
+import { readdir, stat } from "node:fs/promises";
+import micromatch from "micromatch";
+import { join, basename, dirname, relative, resolve, isAbsolute, sep } from "node:path";
+import type { Project, ProjectRoot, Settings } from "./types.js";
 import { DEFAULT_SETTINGS } from "./settings.js";
 import { log } from "./logger.js";
+import { REPO_SHORTCUT_FILES } from "./repoShortcuts.js";
 
-// Abort signal for cancelling scans
-export interface ScanAbortSignal {
-  aborted: boolean;
+// How far a scan has got, across all roots
+export interface ScanProgress {
+  directories: number;  // Directories visited so far
+  projects: number;  // Projects found so far
 }
 
+export interface ScanOptions {
+  signal?: AbortSignal;  // Stops the walk at the next directory
+  index?: ScanIndex;  // Directory index from an earlier scan, updated to what this scan saw
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+export interface WalkOptions {
+  previous?: Record<string, DirRecord>;
+  signal?: AbortSignal;
+  onDirectory?: (isProject: boolean) => void;
+}
+
+// What a scan saw in one directory: the markers in it and the subdirectories it walked into
+export interface DirRecord {
+  mtime: number;
+  markers: string[];
+  dirs: string[];
+  shortcutsFile?: string;  // Name of the repo shortcuts file in it, if any
+}
+
+// Directory records by absolute path, per root path. Kept between scans so that
+// directories whose mtime hasn't changed don't have to be read again.
+export type ScanIndex = Record<string, Record<string, DirRecord>>;
+
+// Directories read at most this long after being modified are read again next
+// time, since a change within the same mtime tick wouldn't show
+const RACY_MTIME_MS = 2000;
+
+// Directories read at the same time
+const WALK_CONCURRENCY = 8;
+
+// Progress is reported at most this often
+const PROGRESS_INTERVAL_MS = 100;
+
 // Detect if running in WSL
 let isWSL: boolean | null = null;
 function detectWSL(): boolean {
@@ -25,7 +62,7 @@ function detectWSL(): boolean {
 }
 
 // Convert Windows path to WSL path if needed (D:\projects -> /mnt/d/projects)
-function toNativePath(windowsPath: string): string {
+export function toNativePath(windowsPath: string): string {
   if (!detectWSL()) return windowsPath;
 
   // Check if it's a Windows-style path (e.g., D:\projects or D:/projects)
@@ -40,33 +77,79 @@ function toNativePath(windowsPath: string): string {
   return windowsPath;
 }
 
+function parseSkipDirs(skipDirs: string): string[] {
+  return skipDirs
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+}
+
+// Glob patterns for the root's skipped directories, matched against paths relative to the root
+function skipPatterns(root: ProjectRoot): string[] {
+  return parseSkipDirs(root.skipDirs).map((p) => `**/${p}`);
+}
+
+function isSkipped(rootDir: string, path: string, skip: string[]): boolean {
+  return micromatch.isMatch(relative(rootDir, path).replace(/\\/g, "/"), skip);
+}
+
 /**
- * Parse skip patterns from comma-separated string into glob ignore patterns
+ * Whether a walk of the root goes into the subdirectory name of dir (a directory inside
+ * the root): it isn't hidden or skipped, and dir is within the root's depth.
  */
-function parseSkipPatterns(skipDirs: string): string[] {
-  const patterns = skipDirs
+export function walksInto(root: ProjectRoot, dir: string, name: string): boolean {
+  const rootDir = resolve(toNativePath(root.path));
+  const rel = relative(rootDir, dir);
+  const depth = rel === "" ? 0 : rel.split(/[/\\]/).length;
+  return !name.startsWith(".") && depth < root.maxDepth && !isSkipped(rootDir, join(dir, name), skipPatterns(root));
+}
+
+/**
+ * Parse the comma-separated projectMarkers setting, in priority order
+ */
+export function parseProjectMarkers(projectMarkers: string): string[] {
+  return projectMarkers
     .split(",")
-    .map((p) => p.trim())
-    .filter((p) => p.length > 0)
-    .map((p) => `**/${p}/**`);  // Convert to glob ignore format
+    .map((m) => m.trim())
+    .filter((m) => m.length > 0);
+}
+
+// Short badge names for the default markers; other markers use their own name
+const MARKER_KINDS: Record<string, string> = {
+  ".git": "git",
+  ".hg": "hg",
+  ".svn": "svn",
+  "package.json": "node",
+  "Cargo.toml": "rust",
+  "go.mod": "go",
+  "pyproject.toml": "python",
+};
 
-  return patterns;
+/**
+ * Kind of project a marker identifies (e.g. "package.json" -> "node")
+ */
+export function getMarkerKind(marker: string): string {
+  return MARKER_KINDS[marker] ?? marker.replace(/^\./, "");
 }
 
 /**
- * Build a nested project tree from flat list of project paths.
- * Creates intermediate folder nodes for non-git-repo directories that contain repos.
+ * Build a nested project tree from the found project paths and their kinds.
+ * Creates intermediate folder nodes (without a kind) for directories that contain projects.
  */
-function buildProjectTree(projectPaths: string[], projectsDir: string): Project[] {
+function buildProjectTree(
+  projectKinds: Map<string, string>,
+  projectsDir: string,
+  shortcutFiles: Map<string, string> = new Map()
+): Project[] {
   // Normalize projectsDir using resolve for consistent comparisons
   const normalizedProjectsDir = resolve(projectsDir);
   log(`buildProjectTree: projectsDir="${projectsDir}" -> normalized="${normalizedProjectsDir}"`);
-  log(`buildProjectTree: processing ${projectPaths.length} paths`);
+  log(`buildProjectTree: processing ${projectKinds.size} paths`);
 
   // Map to store all nodes by their full path
   const nodeMap = new Map<string, Project>();
 
-  for (const fullPath of projectPaths) {
+  for (const [fullPath, kind] of projectKinds) {
     // Get path relative to projectsDir and split into segments
     const relativePath = relative(normalizedProjectsDir, fullPath);
     const segments = relativePath.split(/[/\\]/);
@@ -85,10 +168,12 @@ function buildProjectTree(projectPaths: string[], projectsDir: string): Project[
         node = {
           name: segment,
           path: currentFullPath,
-          isGitRepo: isLastSegment, // Only the actual project path is a git repo
+          kind: isLastSegment ? kind : undefined, // Only the actual project path has a kind
           hasNestedProjects: false,
           nestedProjects: undefined,
         };
+        const shortcutsFile = isLastSegment ? shortcutFiles.get(currentFullPath) : undefined;
+        if (shortcutsFile) node.shortcutsFile = shortcutsFile;
         nodeMap.set(currentFullPath, node);
 
         if (parentNode) {
@@ -99,8 +184,10 @@ function buildProjectTree(projectPaths: string[], projectsDir: string): Project[
           parentNode.hasNestedProjects = true;
         }
       } else if (isLastSegment) {
-        // Node already exists (as intermediate folder), mark it as a git repo too
-        node.isGitRepo = true;
+        // Node already exists (as intermediate folder), mark it as a project too
+        node.kind = kind;
+        const shortcutsFile = shortcutFiles.get(currentFullPath);
+        if (shortcutsFile) node.shortcutsFile = shortcutsFile;
       }
 
       parentNode = node;
@@ -129,87 +216,185 @@ function buildProjectTree(projectPaths: string[], projectsDir: string): Project[
   return sortProjects(rootProjects);
 }
 
+interface RootWalk {
+  projectKinds: Map<string, string>;
+  shortcutFiles: Map<string, string>;  // Repo shortcut files of the projects found
+  records: Record<string, DirRecord>;
+  read: number;
+  reused: number;
+}
+
 /**
- * Scan the root projects directory (sync version using fast-glob sync)
+ * Read a directory's markers and the subdirectories to walk into (not hidden, skipped or symlinked).
  */
-export function scanProjects(settings?: Settings): Project[] {
-  const config = settings ?? DEFAULT_SETTINGS;
-  const projectsDir = toNativePath(config.projectsDir);
-  const maxDepth = config.maxDepth;
-  const ignorePatterns = parseSkipPatterns(config.skipDirs);
+async function readDirRecord(
+  dir: string,
+  rootDir: string,
+  markers: string[],
+  skip: string[],
+  mtime: number
+): Promise<DirRecord> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const names = new Set(entries.map((entry) => entry.name));
+  const dirs = entries
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .filter((name) => !isSkipped(rootDir, join(dir, name), skip))
+    .sort();
+
+  const shortcutsFile = REPO_SHORTCUT_FILES.find((name) => names.has(name));
+  return {
+    mtime,
+    markers: markers.filter((marker) => names.has(marker)),
+    dirs,
+    ...(shortcutsFile ? { shortcutsFile } : {}),
+  };
+}
 
-  if (!existsSync(projectsDir)) {
-    return [];
-  }
+/**
+ * Walk a root level by level, finding directories that contain a marker. Directories
+ * whose mtime matches their record from the last scan reuse it instead of being read;
+ * their subdirectories are still visited, since deeper changes don't touch the mtime.
+ */
+export async function walkRoot(
+  root: ProjectRoot,
+  markers: string[],
+  { previous = {}, signal, onDirectory }: WalkOptions = {}
+): Promise<RootWalk> {
+  const rootDir = resolve(toNativePath(root.path));
+  const skip = skipPatterns(root);
+  const walk: RootWalk = { projectKinds: new Map(), shortcutFiles: new Map(), records: {}, read: 0, reused: 0 };
+  const racyAfter = Date.now() - RACY_MTIME_MS;
+
+  const visit = async (dir: string, depth: number): Promise<string[]> => {
+    let record: DirRecord;
+    try {
+      const { mtimeMs } = await stat(dir);
+      const cached = previous[dir];
+      if (cached && cached.mtime === mtimeMs) {
+        record = cached;
+        walk.reused++;
+      } else {
+        record = await readDirRecord(dir, rootDir, markers, skip, mtimeMs < racyAfter ? mtimeMs : 0);
+        walk.read++;
+      }
+    } catch {
+      return [];  // Removed or unreadable
+    }
 
-  try {
-    // Find all .git directories AND files (worktrees use .git files)
-    const gitDirs = fg.sync("**/.git", {
-      cwd: projectsDir,
-      onlyFiles: false,  // Find both files and directories
-      deep: maxDepth + 1,  // +1 because .git is inside the project
-      ignore: ignorePatterns,
-      followSymbolicLinks: false,
-      suppressErrors: true,
-    });
-
-    // Convert to full paths (parent of .git)
-    const projectPaths = gitDirs.map((g) => join(projectsDir, dirname(g)));
-
-    return buildProjectTree(projectPaths, projectsDir);
-  } catch {
-    return [];
+    walk.records[dir] = record;
+    // The root itself isn't a project, and markers are listed in priority order
+    const isProject = depth > 0 && record.markers.length > 0;
+    if (isProject) {
+      walk.projectKinds.set(dir, getMarkerKind(record.markers[0]));
+      if (record.shortcutsFile) walk.shortcutFiles.set(dir, join(dir, record.shortcutsFile));
+    }
+    onDirectory?.(isProject);
+    return depth < root.maxDepth ? record.dirs.map((name) => join(dir, name)) : [];
+  };
+
+  let level = [rootDir];
+  for (let depth = 0; level.length > 0 && !signal?.aborted; depth++) {
+    const next: string[][] = [];
+    let index = 0;
+    const worker = async () => {
+      while (index < level.length && !signal?.aborted) {
+        const i = index++;
+        next[i] = await visit(level[i], depth);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(WALK_CONCURRENCY, level.length) }, worker));
+    level = next.flat();
   }
+
+  return walk;
 }
 
 /**
- * Scan the root projects directory (async version with fast-glob)
+ * Display name for a root: its label, or the directory name.
  */
-export async function scanProjectsAsync(settings?: Settings, signal?: ScanAbortSignal): Promise<Project[]> {
-  const config = settings ?? DEFAULT_SETTINGS;
-  const projectsDir = toNativePath(config.projectsDir);
-  const maxDepth = config.maxDepth;
-  const ignorePatterns = parseSkipPatterns(config.skipDirs);
-  const abortSignal = signal ?? { aborted: false };
+export function getRootLabel(root: ProjectRoot): string {
+  return root.label || basename(resolve(toNativePath(root.path))) || root.path;
+}
 
-  log(`scanProjectsAsync: starting glob scan of ${projectsDir}, maxDepth=${maxDepth}`);
+/**
+ * Combines the per-root trees. A single root is the whole tree; with several, each
+ * root that has projects becomes a top-level group named by its label.
+ */
+function mergeRoots(roots: ProjectRoot[], trees: Project[][]): Project[] {
+  if (roots.length === 1) return trees[0];
+
+  return roots.flatMap((root, i) => trees[i].length === 0 ? [] : [{
+    name: getRootLabel(root),
+    path: resolve(toNativePath(root.path)),
+    hasNestedProjects: true,
+    nestedProjects: trees[i],
+  }]);
+}
 
-  if (!existsSync(projectsDir)) {
-    log(`scanProjectsAsync: projectsDir does not exist`);
-    return [];
+async function scanRootAsync(
+  root: ProjectRoot,
+  markers: string[],
+  options: WalkOptions
+): Promise<{ projects: Project[]; records: Record<string, DirRecord> }> {
+  const rootDir = toNativePath(root.path);
+  log(`scanRootAsync: starting scan of ${rootDir}, maxDepth=${root.maxDepth}`);
+
+  if (!root.path || !existsSync(rootDir)) {
+    log(`scanRootAsync: ${rootDir} does not exist`);
+    return { projects: [], records: {} };
   }
 
-  try {
-    // Find all .git directories AND files (worktrees use .git files)
-    log(`scanProjectsAsync: running fast-glob for **/.git`);
-    const gitDirs = await fg("**/.git", {
-      cwd: projectsDir,
-      onlyFiles: false,  // Find both files and directories
-      deep: maxDepth + 1,  // +1 because .git is inside the project
-      ignore: ignorePatterns,
-      followSymbolicLinks: false,
-      suppressErrors: true,
-    });
-
-    log(`scanProjectsAsync: found ${gitDirs.length} git repos`);
-
-    if (abortSignal.aborted) {
-      log(`scanProjectsAsync: scan was aborted`);
-      return [];
-    }
+  const started = Date.now();
+  const walk = await walkRoot(root, markers, options);
+  const visited = walk.read + walk.reused;
+  const skipped = visited === 0 ? 0 : Math.round((walk.reused / visited) * 100);
+  log(`scanRootAsync: ${rootDir}: ${walk.projectKinds.size} projects, read ${walk.read} of ${visited} directories, reused ${walk.reused} unchanged (${skipped}%) in ${Date.now() - started}ms`);
+
+  return { projects: buildProjectTree(walk.projectKinds, rootDir, walk.shortcutFiles), records: walk.records };
+}
 
-    // Convert to full paths (parent of .git)
-    const projectPaths = gitDirs.map((g) => join(projectsDir, dirname(g)));
+/**
+ * Scan every project root. Roots are scanned in parallel. When given
+ * the index from an earlier scan, unchanged directories are not read again, and the
+ * index is updated to what this scan saw. An aborted scan returns no projects.
+ */
+export async function scanProjectsAsync(
+  settings?: Settings,
+  { signal, index, onProgress }: ScanOptions = {}
+): Promise<Project[]> {
+  const { roots, projectMarkers } = settings ?? DEFAULT_SETTINGS;
+  const markers = parseProjectMarkers(projectMarkers);
+
+  const progress: ScanProgress = { directories: 0, projects: 0 };
+  let reportedAt = 0;
+  const onDirectory = (isProject: boolean) => {
+    progress.directories++;
+    if (isProject) progress.projects++;
+    if (onProgress && Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+      reportedAt = Date.now();
+      onProgress({ ...progress });
+    }
+  };
 
-    // Build nested tree structure
-    const projects = buildProjectTree(projectPaths, projectsDir);
-    log(`scanProjectsAsync: built tree with ${projects.length} root projects`);
+  const results = await Promise.all(roots.map((root) =>
+    scanRootAsync(root, markers, { previous: index?.[root.path], signal, onDirectory })
+  ));
 
-    return projects;
-  } catch (e) {
-    log(`scanProjectsAsync: error - ${e}`);
+  if (signal?.aborted) {
+    log(`scanProjectsAsync: scan was aborted after ${progress.directories} directories`);
     return [];
   }
+  onProgress?.({ ...progress });
+
+  if (index) {
+    for (const key of Object.keys(index)) delete index[key];
+    roots.forEach((root, i) => { index[root.path] = results[i].records; });
+  }
+
+  const projects = mergeRoots(roots, results.map((result) => result.projects));
+  log(`scanProjectsAsync: built tree with ${projects.length} top-level entries from ${roots.length} roots`);
+  return projects;
 }
 
 /**
@@ -244,3 +429,66 @@ export function findProjectByPath(projects: Project[], path: string): Project |
   }
   return undefined;
 }
+
+/**
+ * Find the root a path is in (the innermost one, if roots are nested).
+ */
+export function findRoot(path: string, roots: ProjectRoot[]): ProjectRoot | undefined {
+  const target = resolve(path);
+  let best: ProjectRoot | undefined;
+  let bestLength = -1;
+
+  for (const root of roots) {
+    if (!root.path) continue;
+    const rootDir = resolve(toNativePath(root.path));
+    const rel = relative(rootDir, target);
+    const inside = rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+    if (inside && rootDir.length > bestLength) {
+      best = root;
+      bestLength = rootDir.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Display name for a project path: relative to its root, prefixed with the root's
+ * label when there are several roots.
+ */
+export function getDisplayName(path: string, roots: ProjectRoot[]): string {
+  const root = findRoot(path, roots);
+  if (!root) return basename(path);
+
+  // Backslashes become forward slashes for consistent display
+  const rel = relative(resolve(toNativePath(root.path)), resolve(path)).replace(/\\/g, "/");
+  if (roots.length === 1) return rel || basename(path);
+  return rel ? `${getRootLabel(root)}/${rel}` : getRootLabel(root);
+}
+
+/**
+ * Find the project containing a path: the deepest project at or above it, inside
+ * one of the project roots. Uses the scanned tree when given, otherwise checks
+ * the filesystem for project markers while walking up.
+ */
+export function findContainingProject(
+  path: string,
+  settings: Settings,
+  projects?: Project[] | null
+): string | null {
+  const target = resolve(path);
+  const root = findRoot(target, settings.roots);
+  if (!root) return null;
+
+  const rootDir = resolve(toNativePath(root.path));
+  const known = projects ? getAllProjectPaths(projects) : null;
+  const markers = parseProjectMarkers(settings.projectMarkers);
+
+  for (let dir = target; dir !== rootDir && dirname(dir) !== dir; dir = dirname(dir)) {
+    const isProject = known
+      ? known.get(dir)?.kind !== undefined
+      : markers.some((marker) => existsSync(join(dir, marker)));
+    if (isProject) return dir;
+  }
+
+  return null;
+}
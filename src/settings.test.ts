@@ -33,8 +33,12 @@ describe("settings", () => {
   });
 
   it("saves settings and merges missing fields with defaults", async () => {
-    const { DEFAULT_SETTINGS, loadSettings, loadSettingsAsync, saveSettings } = await importSettings();
-    const saved = { ...DEFAULT_SETTINGS, projectsDir: "/work", visibleRows: 8 };
+    const { DEFAULT_SETTINGS, createRoot, loadSettings, loadSettingsAsync, saveSettings } = await importSettings();
+    const saved = {
+      ...DEFAULT_SETTINGS,
+      roots: [createRoot("/work"), { path: "/mnt/oss", label: "OSS", maxDepth: 2, skipDirs: "vendor" }],
+      visibleRows: 8,
+    };
 
     saveSettings(saved);
 
@@ -43,13 +47,70 @@ describe("settings", () => {
     await expect(loadSettingsAsync()).resolves.toEqual(saved);
   });
 
+  it("migrates a single projects directory to a roots list", async () => {
+    const { DEFAULT_SETTINGS, DEFAULT_SKIP_DIRS, loadSettings, loadSettingsAsync } = await importSettings();
+    const { mkdirSync, writeFileSync } = await import("node:fs");
+    const file = join(home!, ".dash-cli", "settings.json");
+    mkdirSync(join(home!, ".dash-cli"), { recursive: true });
+    writeFileSync(file, JSON.stringify({ projectsDir: "/work", maxDepth: 6, skipDirs: "dist", showRecent: false }));
+
+    const expected = {
+      ...DEFAULT_SETTINGS,
+      roots: [{ path: "/work", maxDepth: 6, skipDirs: "dist" }],
+      showRecent: false,
+    };
+    expect(loadSettings()).toEqual(expected);
+    await expect(loadSettingsAsync()).resolves.toEqual(expected);
+
+    // Roots missing their depth or skip list get the defaults; an unset projectsDir means no roots
+    writeFileSync(file, JSON.stringify({ roots: [{ path: "/oss" }] }));
+    expect(loadSettings().roots).toEqual([{ path: "/oss", maxDepth: 4, skipDirs: DEFAULT_SKIP_DIRS }]);
+    writeFileSync(file, JSON.stringify({ projectsDir: "" }));
+    expect(loadSettings().roots).toEqual([]);
+  });
+
   it("falls back to defaults for invalid JSON", async () => {
     const { DEFAULT_SETTINGS, loadSettings, loadSettingsAsync } = await importSettings();
     const { mkdirSync, writeFileSync } = await import("node:fs");
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
     mkdirSync(join(home!, ".dash-cli"), { recursive: true });
     writeFileSync(join(home!, ".dash-cli", "settings.json"), "{bad");
 
     expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
     await expect(loadSettingsAsync()).resolves.toEqual(DEFAULT_SETTINGS);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("settings.json is corrupt (invalid JSON"));
+    error.mockRestore();
+  });
+
+  it("treats an action with an unknown type as corrupt", async () => {
+    const { DEFAULT_SETTINGS, loadSettings } = await importSettings();
+    const { mkdirSync, writeFileSync } = await import("node:fs");
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    mkdirSync(join(home!, ".dash-cli"), { recursive: true });
+    writeFileSync(join(home!, ".dash-cli", "settings.json"), JSON.stringify({
+      actions: [{ type: "cd", label: "Go" }, { type: "launch", label: "Rocket" }],
+    }));
+
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("action 2 needs a label"));
+    error.mockRestore();
+  });
+
+  it("treats roots or actions that aren't lists as corrupt", async () => {
+    const { DEFAULT_SETTINGS, loadSettings, loadSettingsAsync } = await importSettings();
+    const { mkdirSync, readdirSync, writeFileSync } = await import("node:fs");
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const dir = join(home!, ".dash-cli");
+    mkdirSync(dir, { recursive: true });
+
+    writeFileSync(join(dir, "settings.json"), JSON.stringify({ roots: {} }));
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('"roots" should be a list'));
+
+    writeFileSync(join(dir, "settings.json"), JSON.stringify({ actions: { type: "cd" } }));
+    await expect(loadSettingsAsync()).resolves.toEqual(DEFAULT_SETTINGS);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('"actions" should be a list'));
+    expect(readdirSync(dir).filter((name) => name.endsWith(".corrupt"))).toHaveLength(2);
+    error.mockRestore();
   });
 });
@@ -1,73 +1,123 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
 import { readFile, mkdir, access } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import type { RecentRanking } from "./types.js";
+import { assertWritable, isPlainObject, loadStore, writeFileAtomic, type JsonStore } from "./storage.js";
 
 const CONFIG_DIR = join(homedir(), ".dash-cli");
 const SETTINGS_FILE = join(CONFIG_DIR, "settings.json");
 
-export interface Settings {
-  projectsDir: string;
+/**
+ * A directory scanned for projects. Each root has its own scan depth and skip patterns;
+ * with several roots, the project list shows one top-level group per root.
+ */
+export interface ProjectRoot {
+  path: string;
+  label?: string;    // Group name in the project list; defaults to the directory name
   maxDepth: number;
   skipDirs: string;
+}
+
+/**
+ * An entry in the project action menu. "command" actions (and an "editor" action with a
+ * command) run a template after dash exits, with {path} and {name} filled in and quoted.
+ */
+export type ProjectActionType = "cd" | "editor" | "reveal" | "copy" | "runShortcut" | "addShortcut" | "command";
+
+export interface ProjectAction {
+  type: ProjectActionType;
+  label: string;
+  command?: string;  // Template for "command", optional editor command for "editor"
+}
+
+export interface Settings {
+  roots: ProjectRoot[];
+  projectMarkers: string;
   showShortcuts: boolean;
   showRecent: boolean;
   recentCount: number;
+  recentRanking: RecentRanking;
   visibleRows: number;
+  searchScope: "level" | "tree";
+  showPreview: boolean;
+  watchProjects: boolean;
+  actions: ProjectAction[];
   selectedColor: string;
   shortcutColor: string;
   recentColor: string;
   shortcutToggleKey: string;
   refreshKey: string;
   moveKey: string;
+  previewKey: string;
+  actionKey: string;
 }
 
+export const DEFAULT_MAX_DEPTH = 4;
+export const DEFAULT_SKIP_DIRS = "node_modules,vendor,dist,build,.next,__pycache__,target,.svn,.expo,.gradle,wp-admin,wp-includes,wp-content,*.app,release,incremental,pristine,tags";
+
+export const DEFAULT_PROJECT_MARKERS = ".git,.hg,.svn,package.json,Cargo.toml,go.mod,pyproject.toml";
+
+export const ACTION_TYPES: ProjectActionType[] = ["cd", "editor", "reveal", "copy", "runShortcut", "addShortcut", "command"];
+
+export const DEFAULT_ACTIONS: ProjectAction[] = [
+  { type: "cd", label: "Go to project" },
+  { type: "editor", label: "Open in editor" },
+  { type: "reveal", label: "Open in file manager" },
+  { type: "copy", label: "Copy path" },
+  { type: "runShortcut", label: "Run a shortcut here" },
+  { type: "addShortcut", label: "Create shortcut" },
+];
+
 export const DEFAULT_SETTINGS: Settings = {
-  projectsDir: "",
-  maxDepth: 4,
-  skipDirs: "node_modules,vendor,dist,build,.next,__pycache__,target,.svn,.expo,.gradle,wp-admin,wp-includes,wp-content,*.app,release,incremental,pristine,tags",
+  roots: [],
+  projectMarkers: DEFAULT_PROJECT_MARKERS,
   showShortcuts: true,
   showRecent: true,
   recentCount: 5,
+  recentRanking: "frecency",
   visibleRows: 12,
+  searchScope: "tree",
+  showPreview: false,
+  watchProjects: false,
+  actions: DEFAULT_ACTIONS,
   selectedColor: "#FFD700",
   shortcutColor: "#69FFBE",
   recentColor: "#6495ED",
   shortcutToggleKey: "t",
   refreshKey: "r",
   moveKey: "o",
+  previewKey: "p",
+  actionKey: "a",
 };
 
+export function createRoot(path: string): ProjectRoot {
+  return { path, maxDepth: DEFAULT_MAX_DEPTH, skipDirs: DEFAULT_SKIP_DIRS };
+}
+
 export interface SettingField {
   key: keyof Settings;
   label: string;
-  type: "path" | "number" | "text" | "color" | "key" | "toggle";
+  type: "roots" | "actions" | "number" | "text" | "color" | "key" | "toggle" | "select";
   min?: number;
   max?: number;
+  options?: { value: string; label: string }[];  // For select fields (enter cycles through them)
   description: string;
   showIf?: (settings: Settings) => boolean;
 }
 
 export const SETTING_FIELDS: SettingField[] = [
   {
-    key: "projectsDir",
-    label: "Projects Directory",
-    type: "path",
-    description: "Root directory to scan for projects",
+    key: "roots",
+    label: "Project Roots",
+    type: "roots",
+    description: "Directories to scan for projects, each with its own depth and skip patterns",
   },
   {
-    key: "maxDepth",
-    label: "Scan Depth",
-    type: "number",
-    min: 1,
-    max: 10,
-    description: "How deep to scan for nested projects",
-  },
-  {
-    key: "skipDirs",
-    label: "Skip Directories",
+    key: "projectMarkers",
+    label: "Project Markers",
     type: "text",
-    description: "Comma-separated patterns (supports globs like *.test)",
+    description: "Comma-separated files or folders that mark a project; the first match sets its type",
   },
   {
     key: "showShortcuts",
@@ -90,6 +140,17 @@ export const SETTING_FIELDS: SettingField[] = [
     description: "Number of recent projects to show",
     showIf: (s) => s.showRecent,
   },
+  {
+    key: "recentRanking",
+    label: "Recent Ranking",
+    type: "select",
+    options: [
+      { value: "frecency", label: "Frecency" },
+      { value: "recency", label: "Recency only" },
+    ],
+    description: "Rank recent projects by visit frequency and recency, or by last use only",
+    showIf: (s) => s.showRecent,
+  },
   {
     key: "visibleRows",
     label: "Visible Rows",
@@ -98,6 +159,34 @@ export const SETTING_FIELDS: SettingField[] = [
     max: 30,
     description: "Number of rows visible in the list",
   },
+  {
+    key: "searchScope",
+    label: "Search Scope",
+    type: "select",
+    options: [
+      { value: "tree", label: "Whole tree" },
+      { value: "level", label: "Current level" },
+    ],
+    description: "Search all nested projects from the root, or only the current level",
+  },
+  {
+    key: "showPreview",
+    label: "Show Preview",
+    type: "toggle",
+    description: "Show details of the highlighted project beside or below the list",
+  },
+  {
+    key: "watchProjects",
+    label: "Watch for Changes",
+    type: "toggle",
+    description: "Add and remove projects as they appear on disk while dash is open",
+  },
+  {
+    key: "actions",
+    label: "Project Actions",
+    type: "actions",
+    description: "Entries in the action menu; commands can use {path} and {name}",
+  },
   {
     key: "selectedColor",
     label: "Selected Color",
@@ -134,6 +223,18 @@ export const SETTING_FIELDS: SettingField[] = [
     type: "key",
     description: "Key for Ctrl+? to reorder shortcuts (letter or number)",
   },
+  {
+    key: "previewKey",
+    label: "Preview Key",
+    type: "key",
+    description: "Key for Ctrl+? to show or hide the preview pane (letter or number)",
+  },
+  {
+    key: "actionKey",
+    label: "Action Menu Key",
+    type: "key",
+    description: "Key for Ctrl+? to open the action menu on a project (letter or number)",
+  },
 ];
 
 function ensureConfigDir(): void {
@@ -142,26 +243,97 @@ function ensureConfigDir(): void {
   }
 }
 
+function validateSettings(data: unknown): string | null {
+  if (!isPlainObject(data)) {
+    return "expected an object";
+  }
+
+  // Arrays pass the typeof check below, but so would any other object
+  for (const key of ["roots", "actions"]) {
+    if (data[key] !== undefined && !Array.isArray(data[key])) {
+      return `"${key}" should be a list`;
+    }
+  }
+
+  if (Array.isArray(data.roots)) {
+    const bad = data.roots.findIndex((root: unknown) => !isPlainObject(root) || typeof root.path !== "string");
+    if (bad !== -1) {
+      return `root ${bad + 1} is missing its path`;
+    }
+  }
+
+  if (Array.isArray(data.actions)) {
+    const bad = data.actions.findIndex((action: unknown) =>
+      !isPlainObject(action)
+      || !ACTION_TYPES.includes(action.type as ProjectActionType)
+      || typeof action.label !== "string"
+      || (action.command !== undefined && typeof action.command !== "string"));
+    if (bad !== -1) {
+      return `action ${bad + 1} needs a label, a text command and one of the types ${ACTION_TYPES.join(", ")}`;
+    }
+  }
+
+  // Missing fields fall back to defaults, but a present field must have the default's type
+  for (const [key, value] of Object.entries(data)) {
+    const expected = DEFAULT_SETTINGS[key as keyof Settings];
+    if (expected !== undefined && typeof value !== typeof expected) {
+      return `"${key}" should be a ${typeof expected}`;
+    }
+  }
+  return null;
+}
+
+export const settingsStore: JsonStore<Partial<Settings>> = {
+  file: SETTINGS_FILE,
+  validate: validateSettings,
+  empty: () => ({}),
+};
+
+// Settings files from before multiple roots had a single projectsDir with its depth and skip list
+interface LegacySettings {
+  projectsDir?: string;
+  maxDepth?: number;
+  skipDirs?: string;
+}
+
+/**
+ * Merges stored settings over the defaults, turning a single-root settings file into
+ * a roots list and filling in per-root fields an older or hand-edited file left out.
+ */
+function migrateSettings(stored: Partial<Settings> & LegacySettings): Settings {
+  const { projectsDir, maxDepth, skipDirs, ...rest } = stored;
+  const roots = stored.roots ?? (projectsDir ? [{ path: projectsDir, maxDepth, skipDirs }] : []);
+
+  return {
+    ...DEFAULT_SETTINGS,
+    ...rest,
+    roots: roots.map((root) => ({
+      ...root,
+      maxDepth: typeof root.maxDepth === "number" ? root.maxDepth : DEFAULT_MAX_DEPTH,
+      skipDirs: typeof root.skipDirs === "string" ? root.skipDirs : DEFAULT_SKIP_DIRS,
+    })),
+  };
+}
+
 export function loadSettings(): Settings {
   ensureConfigDir();
 
   if (!existsSync(SETTINGS_FILE)) {
-    return { ...DEFAULT_SETTINGS };
+    return { ...DEFAULT_SETTINGS, roots: [] };
   }
 
+  let content: string;
   try {
-    const content = readFileSync(SETTINGS_FILE, "utf-8");
-    const loaded = JSON.parse(content) as Partial<Settings>;
-    // Merge with defaults to handle missing fields
-    return { ...DEFAULT_SETTINGS, ...loaded };
+    content = readFileSync(SETTINGS_FILE, "utf-8");
   } catch {
-    return { ...DEFAULT_SETTINGS };
+    return { ...DEFAULT_SETTINGS, roots: [] };
   }
+  return migrateSettings(loadStore(settingsStore, content));
 }
 
 export function saveSettings(settings: Settings): void {
-  ensureConfigDir();
-  writeFileSync(SETTINGS_FILE, JSON.stringify(settings, null, 2));
+  assertWritable(SETTINGS_FILE);
+  writeFileAtomic(SETTINGS_FILE, JSON.stringify(settings, null, 2));
 }
 
 async function pathExists(path: string): Promise<boolean> {
@@ -183,14 +355,14 @@ export async function loadSettingsAsync(): Promise<Settings> {
   await ensureConfigDirAsync();
 
   if (!await pathExists(SETTINGS_FILE)) {
-    return { ...DEFAULT_SETTINGS };
+    return { ...DEFAULT_SETTINGS, roots: [] };
   }
 
+  let content: string;
   try {
-    const content = await readFile(SETTINGS_FILE, "utf-8");
-    const loaded = JSON.parse(content) as Partial<Settings>;
-    return { ...DEFAULT_SETTINGS, ...loaded };
+    content = await readFile(SETTINGS_FILE, "utf-8");
   } catch {
-    return { ...DEFAULT_SETTINGS };
+    return { ...DEFAULT_SETTINGS, roots: [] };
   }
+  return migrateSettings(loadStore(settingsStore, content));
 }
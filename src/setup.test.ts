@@ -56,7 +56,7 @@ describe("setup", () => {
     expect(readFileSync(bashrc, "utf-8")).toContain("dash-cli");
     expect(readFileSync(bashrc, "utf-8")).toContain("alias d=dash");
     expect(JSON.parse(readFileSync(join(home, ".dash-cli", "settings.json"), "utf-8"))).toMatchObject({
-      projectsDir,
+      roots: [{ path: projectsDir, maxDepth: 4 }],
     });
     expect(close).toHaveBeenCalledTimes(1);
 
@@ -80,20 +80,146 @@ describe("setup", () => {
       : join(home, ".config", "powershell", "Microsoft.PowerShell_profile.ps1");
     const profile = readFileSync(profilePath, "utf-8");
     expect(profile).toContain("function dash");
+    expect(profile).toContain('$env:DASH_SHELL = "powershell"');
     expect(profile).not.toContain("Set-Alias -Name d -Value dash");
+    expect(profile).not.toContain("__DashTrack");
 
     await runUninstall("powershell");
 
     expect(readFileSync(profilePath, "utf-8")).not.toContain("# Dash CLI:");
   });
 
+  it("installs the directory tracking hook only when asked and removes it on uninstall", async () => {
+    const projectsDir = join(home, "projects");
+    const { mkdirSync, writeFileSync } = await import("node:fs");
+    mkdirSync(projectsDir);
+    const bashrc = join(home, ".bashrc");
+    writeFileSync(bashrc, "export KEEP=1\n");
+    answers = [projectsDir];
+    const { runSetup, runUninstall } = await importSetup();
+
+    await runSetup("bash", "--alias", "--track");
+
+    const content = readFileSync(bashrc, "utf-8");
+    expect(content).toContain("__dash_track()");
+    expect(content).toContain('dash-cli -- track "$PWD"');
+    expect(content).toContain("PROMPT_COMMAND=");
+
+    await runUninstall("bash");
+
+    const cleaned = readFileSync(bashrc, "utf-8");
+    expect(cleaned).not.toContain("__dash_track");
+    expect(cleaned).not.toContain("alias d=dash");
+    expect(cleaned).toContain("export KEEP=1");
+  });
+
+  it("starts the PowerShell tracking hook in the background", async () => {
+    const projectsDir = join(home, "projects");
+    const { mkdirSync } = await import("node:fs");
+    mkdirSync(projectsDir);
+    answers = [projectsDir, "n"];
+    const { runSetup, runUninstall } = await importSetup();
+
+    await runSetup("powershell", "--track");
+
+    const profilePath = process.platform === "win32"
+      ? join(home, "Documents", "WindowsPowerShell", "Microsoft.PowerShell_profile.ps1")
+      : join(home, ".config", "powershell", "Microsoft.PowerShell_profile.ps1");
+    const profile = readFileSync(profilePath, "utf-8");
+    expect(profile).toContain("Start-Process -FilePath $dashCli.Source -ArgumentList @('--', 'track', ('\"' + ($cwd -replace '\\\\$', '\\\\') + '\"')) -NoNewWindow");
+    expect(profile).toContain("function global:prompt { __DashTrack; & $global:__DashPrompt }");
+
+    await runUninstall("powershell");
+
+    expect(readFileSync(profilePath, "utf-8")).not.toContain("__DashTrack");
+  });
+
+  it("installs tab completion with --completions and removes it on uninstall", async () => {
+    const projectsDir = join(home, "projects");
+    const { mkdirSync, writeFileSync } = await import("node:fs");
+    mkdirSync(projectsDir);
+    const bashrc = join(home, ".bashrc");
+    writeFileSync(bashrc, "export KEEP=1\n");
+    answers = [projectsDir];
+    const { runSetup, runUninstall } = await importSetup();
+
+    await runSetup("bash", "--alias", "--completions");
+
+    const content = readFileSync(bashrc, "utf-8");
+    expect(content).toContain("_dash_complete() {");
+    expect(content).toContain("complete -F _dash_complete dash d dash-cli");
+
+    answers = [projectsDir];
+    await runSetup("fish", "--alias", "--completions");
+    const fishCompletions = join(home, ".config", "fish", "completions", "dash.fish");
+    expect(readFileSync(fishCompletions, "utf-8")).toContain("complete -c dash -f -a '(__dash_complete)'");
+
+    await runUninstall("bash");
+    await runUninstall("fish");
+
+    const cleaned = readFileSync(bashrc, "utf-8");
+    expect(cleaned).not.toContain("_dash_complete");
+    expect(cleaned).toContain("export KEEP=1");
+    expect(existsSync(fishCompletions)).toBe(false);
+  });
+
+  it("sets up and uninstalls native zsh integration", async () => {
+    const projectsDir = join(home, "projects");
+    const { mkdirSync, writeFileSync } = await import("node:fs");
+    mkdirSync(projectsDir);
+    const zshrc = join(home, ".zshrc");
+    writeFileSync(zshrc, "setopt autocd\n");
+    answers = [projectsDir];
+    const { runSetup, runUninstall } = await importSetup();
+
+    await runSetup("zsh", "--alias", "--track");
+
+    const content = readFileSync(zshrc, "utf-8");
+    expect(content).toContain("dash() {");
+    expect(content).toContain("alias d=dash");
+    expect(content).toContain("add-zsh-hook precmd __dash_track");
+    expect(existsSync(join(home, ".bashrc"))).toBe(false);
+
+    await runUninstall("zsh");
+
+    const cleaned = readFileSync(zshrc, "utf-8");
+    expect(cleaned).not.toContain("# Dash CLI:");
+    expect(cleaned).not.toContain("__dash_track");
+    expect(cleaned).toContain("setopt autocd");
+  });
+
+  it("sets up and uninstalls fish functions", async () => {
+    const projectsDir = join(home, "projects");
+    const { mkdirSync } = await import("node:fs");
+    mkdirSync(projectsDir);
+    answers = [projectsDir];
+    const { runSetup, runUninstall } = await importSetup();
+    const fishDir = join(home, ".config", "fish");
+
+    await runSetup("fish", "--alias", "--track");
+
+    expect(readFileSync(join(fishDir, "functions", "dash.fish"), "utf-8")).toContain("set -lx DASH_SHELL fish");
+    expect(readFileSync(join(fishDir, "functions", "d.fish"), "utf-8")).toContain("function d --wraps dash");
+    expect(readFileSync(join(fishDir, "conf.d", "dash.fish"), "utf-8")).toContain("--on-variable PWD");
+
+    // Re-running without the optional pieces drops them
+    answers = [projectsDir, "n"];
+    await runSetup("fish");
+    expect(existsSync(join(fishDir, "functions", "d.fish"))).toBe(false);
+    expect(existsSync(join(fishDir, "conf.d", "dash.fish"))).toBe(false);
+
+    await runUninstall("fish");
+
+    expect(existsSync(join(fishDir, "functions", "dash.fish"))).toBe(false);
+  });
+
   it("rejects unknown shells", async () => {
     const { runUninstall } = await importSetup();
     const exit = vi.spyOn(process, "exit").mockImplementation((() => {
       throw new Error("exit");
     }) as never);
 
-    await expect(runUninstall("fish")).rejects.toThrow("exit");
+    await expect(runUninstall("tcsh")).rejects.toThrow("exit");
     expect(exit).toHaveBeenCalledWith(1);
   });
 });
@@ -1,10 +1,12 @@
-import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync, copyFileSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync, copyFileSync, rmSync } from "node:fs";
 import { execFileSync } from "node:child_process";
 import { join, dirname, resolve } from "node:path";
 import { homedir } from "node:os";
 import { createInterface, Interface as ReadlineInterface } from "node:readline";
 import { getCommandFile } from "./history.js";
-import { loadSettings, saveSettings } from "./settings.js";
+import { createRoot, loadSettings, saveSettings } from "./settings.js";
+import { getCompletionScript } from "./completions.js";
+import { getCompletionCommands } from "./cli/commands.js";
 
 const COMMAND_FILE = getCommandFile();
 
@@ -80,11 +82,17 @@ async function promptYesNo(rl: ReadlineInterface, prompt: string, defaultYes = t
 }
 
 // Shell wrapper scripts
-function getBashWrapper(withAlias: boolean): string {
+interface WrapperOptions {
+  alias: boolean;
+  track: boolean;        // Prompt hook that reports directory changes to `dash-cli -- track`
+  completions: boolean;  // Tab completion for triggers and CLI commands
+}
+
+function getBashWrapper(options: WrapperOptions): string {
   let wrapper = `
 # Dash CLI: Navigate to projects
 dash() {
-    dash-cli "$@"
+    DASH_SHELL=bash dash-cli "$@"
     local cmd_file="${toBashPath(COMMAND_FILE)}"
     if [ -f "$cmd_file" ]; then
         . "$cmd_file"
@@ -92,20 +100,106 @@ dash() {
     fi
 }
 `;
-  if (withAlias) {
+  if (options.alias) {
     wrapper += `alias d=dash
 `;
   }
+  if (options.track) {
+    // Only spawn dash-cli when the directory changed, in the background so prompts stay fast.
+    // The registration stays on one line so removeExistingConfig can drop it with the function.
+    wrapper += `# Dash CLI: record directory changes as recent projects
+__dash_track() {
+    if [ "$PWD" != "\${__dash_last_pwd:-}" ]; then
+        __dash_last_pwd="$PWD"
+        (dash-cli -- track "$PWD" >/dev/null 2>&1 &)
+    fi
+}
+case ";\${PROMPT_COMMAND:-};" in *";__dash_track;"*) ;; *) PROMPT_COMMAND="__dash_track\${PROMPT_COMMAND:+;$PROMPT_COMMAND}" ;; esac
+`;
+  }
+  if (options.completions) {
+    wrapper += getCompletionScript("bash", getCompletionCommands());
+  }
   return wrapper;
 }
 
-function getPowerShellWrapper(withAlias: boolean): string {
+function getZshWrapper(options: WrapperOptions): string {
+  let wrapper = `
+# Dash CLI: Navigate to projects
+dash() {
+    DASH_SHELL=zsh dash-cli "$@"
+    local cmd_file="${toBashPath(COMMAND_FILE)}"
+    if [[ -f "$cmd_file" ]]; then
+        source "$cmd_file"
+        rm -f "$cmd_file"
+    fi
+}
+`;
+  if (options.alias) {
+    wrapper += `alias d=dash
+`;
+  }
+  if (options.track) {
+    // Same as Bash, registered through add-zsh-hook (which ignores duplicates) on a single line
+    wrapper += `# Dash CLI: record directory changes as recent projects
+__dash_track() {
+    if [[ "$PWD" != "\${__dash_last_pwd:-}" ]]; then
+        __dash_last_pwd="$PWD"
+        (dash-cli -- track "$PWD" >/dev/null 2>&1 &)
+    fi
+}
+autoload -Uz add-zsh-hook && add-zsh-hook precmd __dash_track
+`;
+  }
+  if (options.completions) {
+    wrapper += getCompletionScript("zsh", getCompletionCommands());
+  }
+  return wrapper;
+}
+
+/**
+ * Fish autoloads functions/<name>.fish on first use, so the 'd' alias needs its own
+ * file and the tracking hook has to live in conf.d to be defined at startup.
+ */
+function getFishFunction(): string {
+  return `# Dash CLI: Navigate to projects
+function dash
+    set -lx DASH_SHELL fish
+    dash-cli $argv
+    set -l cmd_file "${toBashPath(COMMAND_FILE)}"
+    if test -f "$cmd_file"
+        source "$cmd_file"
+        rm -f "$cmd_file"
+    end
+end
+`;
+}
+
+function getFishAlias(): string {
+  return `# Dash CLI: 'd' alias for dash
+function d --wraps dash --description 'alias d=dash'
+    dash $argv
+end
+`;
+}
+
+function getFishTrackHook(): string {
+  return `# Dash CLI: record directory changes as recent projects
+function __dash_track --on-variable PWD
+    command dash-cli -- track "$PWD" >/dev/null 2>&1 &
+    disown
+end
+`;
+}
+
+function getPowerShellWrapper(options: WrapperOptions): string {
   const cmdFile = COMMAND_FILE.replace(/\\/g, "\\\\");
   // Build PowerShell script - use regular string to avoid template literal backtick issues
   const lines = [
     "",
     "# Dash CLI: Navigate to projects",
     "function dash {",
+    '    $env:DASH_SHELL = "powershell"',
     "    $rawLine = $MyInvocation.Line",
     '    $rawArgs = ""',
     "    if ($rawLine -match '\\b(d|dash)\\s+(.*)$') {",
@@ -129,13 +223,40 @@ function getPowerShellWrapper(withAlias: boolean): string {
     "}",
   ];
   let wrapper = lines.join("\n");
-  if (withAlias) {
+  if (options.alias) {
     wrapper += "\nSet-Alias -Name d -Value dash\n";
   }
+  if (options.track) {
+    // Runs dash-cli only when the location changed, started in the background like the other
+    // shells' hooks so the prompt doesn't wait for it; the prompt hook stays on one line for removal.
+    // The path is passed in quotes, with a trailing backslash (C:\) doubled so it doesn't escape them.
+    const trackLines = [
+      "",
+      "# Dash CLI: record directory changes as recent projects",
+      "function __DashTrack {",
+      "    $cwd = (Get-Location).ProviderPath",
+      "    if ($cwd -ne $global:__DashLastPwd) {",
+      "        $global:__DashLastPwd = $cwd",
+      "        $dashCli = Get-Command dash-cli -CommandType Application -ErrorAction SilentlyContinue | Select-Object -First 1",
+      "        if ($dashCli) {",
+      "            Start-Process -FilePath $dashCli.Source -ArgumentList @('--', 'track', ('\"' + ($cwd -replace '\\\\$', '\\\\') + '\"')) -NoNewWindow",
+      "        }",
+      "    }",
+      "}",
+      "if (-not $global:__DashPrompt) { $global:__DashPrompt = $function:prompt; function global:prompt { __DashTrack; & $global:__DashPrompt } }",
+      "",
+    ];
+    wrapper += trackLines.join("\n");
+  }
+  if (options.completions) {
+    wrapper += `\n${getCompletionScript("powershell", getCompletionCommands())}`;
+  }
   return wrapper;
 }
 
-type Shell = "bash" | "powershell";
+type Shell = "bash" | "zsh" | "fish" | "powershell";
+
+const SHELL_NAMES = "bash|zsh|fish|powershell";
 
 function detectShell(): Shell {
   const shell = process.env.SHELL || "";
@@ -144,7 +265,13 @@ function detectShell(): Shell {
   if (psModulePath) {
     return "powershell";
   }
-  if (shell.includes("bash") || shell.includes("zsh")) {
+  if (shell.includes("zsh")) {
+    return "zsh";
+  }
+  if (shell.includes("fish")) {
+    return "fish";
+  }
+  if (shell.includes("bash")) {
     return "bash";
   }
 
@@ -154,17 +281,6 @@ function detectShell(): Shell {
 
 function getBashConfigFile(): string {
   const home = homedir();
-  const shell = process.env.SHELL || "";
-
-  // Check if using zsh
-  if (shell.includes("zsh")) {
-    const zshrc = join(home, ".zshrc");
-    if (existsSync(zshrc)) {
-      return zshrc;
-    }
-    // Create .zshrc if it doesn't exist
-    return zshrc;
-  }
 
   // Prefer .bashrc, fall back to .bash_profile
   const bashrc = join(home, ".bashrc");
@@ -181,6 +297,21 @@ function getBashConfigFile(): string {
   return bashrc;
 }
 
+function getZshConfigFile(): string {
+  // zsh reads its startup files from ZDOTDIR when set
+  return join(process.env.ZDOTDIR || homedir(), ".zshrc");
+}
+
+function getFishConfigFiles() {
+  const fishDir = join(homedir(), ".config", "fish");
+  return {
+    functionFile: join(fishDir, "functions", "dash.fish"),
+    aliasFile: join(fishDir, "functions", "d.fish"),
+    trackFile: join(fishDir, "conf.d", "dash.fish"),
+    completionFile: join(fishDir, "completions", "dash.fish"),
+  };
+}
+
 function uniquePaths(paths: string[]): string[] {
   const seen = new Set<string>();
   const result: string[] = [];
@@ -260,8 +391,8 @@ function getPowerShellProfile(): string {
 }
 
 function parseShellArg(shellArg: string | undefined, usage: string): Shell {
-  if (shellArg === "bash") {
-    return "bash";
+  if (shellArg === "bash" || shellArg === "zsh" || shellArg === "fish") {
+    return shellArg;
   }
   if (shellArg === "powershell" || shellArg === "pwsh") {
     return "powershell";
@@ -312,10 +443,17 @@ function removeExistingConfig(content: string): string {
       continue;
     }
 
-    // Skip alias line right after function
+    // Skip alias or hook registration line right after function
     if (skipNextAlias) {
       skipNextAlias = false;
-      if (line.trim().startsWith("alias d=") || line.trim().startsWith("Set-Alias")) {
+      const trimmed = line.trim();
+      if (
+        trimmed.startsWith("alias d=") ||
+        trimmed.startsWith("Set-Alias") ||
+        trimmed.includes("__dash_track") ||
+        trimmed.includes("__DashTrack") ||
+        trimmed.includes("_dash_complete")
+      ) {
         continue;
       }
     }
@@ -326,8 +464,53 @@ function removeExistingConfig(content: string): string {
   return result.join("\n");
 }
 
-function setupBash(withAlias: boolean): void {
-  const configFile = getBashConfigFile();
+const FISH_BLOCK_START = /^(function|if|for|while|begin|switch)\b/;
+const FISH_BLOCK_END = /^end\b/;
+
+function removeExistingFishConfig(content: string): string {
+  // Fish closes blocks with `end` rather than braces, so track keyword depth instead
+  const marker = "# Dash CLI:";
+  if (!content.includes(marker)) return content;
+
+  const result: string[] = [];
+  let inBlock = false;
+  let depth = 0;
+  let afterBlock = false;
+
+  for (const line of content.split("\n")) {
+    if (line.includes(marker)) {
+      inBlock = true;
+      depth = 0;
+      continue;
+    }
+
+    if (inBlock) {
+      const trimmed = line.trim();
+      if (FISH_BLOCK_START.test(trimmed)) depth++;
+      if (FISH_BLOCK_END.test(trimmed)) {
+        depth--;
+        if (depth <= 0) {
+          inBlock = false;
+          afterBlock = true;
+        }
+      }
+      continue;
+    }
+
+    // Completion registrations follow the function they call
+    if (afterBlock && line.includes("__dash_complete")) {
+      continue;
+    }
+    afterBlock = false;
+
+    result.push(line);
+  }
+
+  return result.join("\n");
+}
+
+function setupBash(shell: "bash" | "zsh", options: WrapperOptions): void {
+  const configFile = shell === "zsh" ? getZshConfigFile() : getBashConfigFile();
   const bashConfigFile = toBashPath(configFile);
   const sourceCmd = `source ${bashConfigFile}`;
   let isUpdate = false;
@@ -349,16 +532,75 @@ function setupBash(withAlias: boolean): void {
   }
 
   // Append wrapper
-  appendFileSync(configFile, getBashWrapper(withAlias));
+  const wrapper = shell === "zsh" ? getZshWrapper(options) : getBashWrapper(options);
+  appendFileSync(configFile, wrapper);
   console.log(`✓ ${isUpdate ? "Updated" : "Added to"} ${bashConfigFile}`);
-  if (withAlias) {
+  if (options.alias) {
     console.log("  Added 'd' alias for quick access.");
   }
+  if (options.track) {
+    console.log("  Added prompt hook to record directory changes.");
+  }
+  if (options.completions) {
+    console.log("  Added tab completion for triggers and commands.");
+  }
   console.log(`\n  Reload with: ${sourceCmd}`);
   console.log("  Or restart your terminal.");
 }
 
-function setupPowerShell(withAlias: boolean): void {
+/**
+ * Write (or clear) one Dash-owned fish file, keeping anything else the user put in it.
+ * Returns true when the file already held Dash CLI config.
+ */
+function writeFishFile(filePath: string, block: string | null): boolean {
+  let content = existsSync(filePath) ? readFileSync(filePath, "utf-8") : "";
+  const hadDash = content.includes("# Dash CLI:");
+
+  if (hadDash) {
+    const backupPath = backupFile(filePath);
+    if (backupPath) {
+      console.log(`  Backup created: ${backupPath}`);
+    }
+    content = removeExistingFishConfig(content);
+  }
+
+  if (block) {
+    content = content.trim() ? `${content.trimEnd()}\n\n${block}` : block;
+  }
+
+  if (!content.trim()) {
+    if (existsSync(filePath)) rmSync(filePath);
+    return hadDash;
+  }
+
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content);
+  return hadDash;
+}
+
+function setupFish(options: WrapperOptions): void {
+  const { functionFile, aliasFile, trackFile, completionFile } = getFishConfigFiles();
+
+  const isUpdate = writeFishFile(functionFile, getFishFunction());
+  writeFishFile(aliasFile, options.alias ? getFishAlias() : null);
+  writeFishFile(trackFile, options.track ? getFishTrackHook() : null);
+  writeFishFile(completionFile, options.completions ? getCompletionScript("fish", getCompletionCommands()) : null);
+
+  console.log(`✓ ${isUpdate ? "Updated" : "Added"} ${functionFile}`);
+  if (options.alias) {
+    console.log(`  Added 'd' alias for quick access (${aliasFile}).`);
+  }
+  if (options.track) {
+    console.log(`  Added hook to record directory changes (${trackFile}).`);
+  }
+  if (options.completions) {
+    console.log(`  Added tab completion (${completionFile}).`);
+  }
+  console.log("\n  Reload with: exec fish");
+  console.log("  Or restart your terminal.");
+}
+
+function setupPowerShell(options: WrapperOptions): void {
   const profilePath = getPowerShellProfile();
   let isUpdate = false;
 
@@ -385,21 +627,27 @@ function setupPowerShell(withAlias: boolean): void {
   }
 
   // Append wrapper
-  appendFileSync(profilePath, getPowerShellWrapper(withAlias));
+  appendFileSync(profilePath, getPowerShellWrapper(options));
   console.log(`✓ ${isUpdate ? "Updated" : "Added to"} ${profilePath}`);
-  if (withAlias) {
+  if (options.alias) {
     console.log("  Added 'd' alias for quick access.");
   }
+  if (options.track) {
+    console.log("  Added prompt hook to record directory changes.");
+  }
+  if (options.completions) {
+    console.log("  Added tab completion for triggers and commands.");
+  }
   console.log("\n  Reload with: . $PROFILE");
   console.log("  Or restart PowerShell.");
 }
 
-function uninstallBash(): void {
-  const configFile = getBashConfigFile();
+function uninstallBash(shell: "bash" | "zsh"): void {
+  const configFile = shell === "zsh" ? getZshConfigFile() : getBashConfigFile();
   const bashConfigFile = toBashPath(configFile);
 
   if (!existsSync(configFile)) {
-    console.log(`No Bash config found at ${bashConfigFile}.`);
+    console.log(`No ${shell === "zsh" ? "Zsh" : "Bash"} config found at ${bashConfigFile}.`);
     console.log("Nothing to remove.");
     return;
   }
@@ -422,6 +670,25 @@ function uninstallBash(): void {
   console.log("  Or restart your terminal.");
 }
 
+function uninstallFish(): void {
+  const files = Object.values(getFishConfigFiles()).filter((filePath) => {
+    return existsSync(filePath) && readFileSync(filePath, "utf-8").includes("# Dash CLI:");
+  });
+
+  if (files.length === 0) {
+    console.log("No Dash CLI shell integration found in fish config.");
+    console.log("Nothing to remove.");
+    return;
+  }
+
+  for (const filePath of files) {
+    writeFishFile(filePath, null);
+    console.log(`✓ Removed Dash CLI shell integration from ${filePath}`);
+  }
+  console.log("\n  Reload with: exec fish");
+  console.log("  Or restart your terminal.");
+}
+
 function uninstallPowerShell(): void {
   const profilesWithDash = getPowerShellProfileCandidates().filter((profilePath) => {
     return existsSync(profilePath) && readFileSync(profilePath, "utf-8").includes("# Dash CLI:");
@@ -448,12 +715,14 @@ function uninstallPowerShell(): void {
   console.log("  Or restart PowerShell.");
 }
 
-export async function runSetup(shellArg?: string, aliasArg?: string): Promise<void> {
+export async function runSetup(...args: Array<string | undefined>): Promise<void> {
   console.log("Setting up Dash CLI...\n");
 
-  // Check for --alias flag
-  const aliasProvided = shellArg === "--alias" || aliasArg === "--alias";
-  const actualShellArg = shellArg === "--alias" ? undefined : shellArg;
+  // Check for --alias, --track and --completions flags (the shell is the first non-flag argument)
+  const aliasProvided = args.includes("--alias");
+  const withTrack = args.includes("--track");
+  const completionsProvided = args.includes("--completions");
+  const actualShellArg = args.find((arg) => arg !== undefined && !arg.startsWith("--"));
 
   // Create readline interface for interactive prompts
   const rl = createInterface({
@@ -465,10 +734,16 @@ export async function runSetup(shellArg?: string, aliasArg?: string): Promise<vo
   const projectsDir = await promptForPath(rl, process.cwd());
 
   // Save settings
+  // The prompted directory becomes the first root; any other roots are kept
   const settings = loadSettings();
-  settings.projectsDir = projectsDir;
+  const [primary, ...others] = settings.roots;
+  settings.roots = [
+    primary ? { ...primary, path: projectsDir } : createRoot(projectsDir),
+    ...others.filter((root) => root.path !== projectsDir),
+  ];
   saveSettings(settings);
-  console.log(`\n✓ Projects directory set to: ${formatPathForDisplay(projectsDir)}\n`);
+  console.log(`\n✓ Projects directory set to: ${formatPathForDisplay(projectsDir)}`);
+  console.log("  (Add more project roots in the Settings tab)\n");
 
   // Prompt for alias if not already specified via flag
   let withAlias = aliasProvided;
@@ -477,14 +752,24 @@ export async function runSetup(shellArg?: string, aliasArg?: string): Promise<vo
     console.log();
   }
 
+  // Only offer completions interactively; piped setups (scripts, CI) opt in with the flag
+  let withCompletions = completionsProvided;
+  if (!completionsProvided && process.stdin.isTTY) {
+    withCompletions = await promptYesNo(rl, "Install tab completion for triggers?");
+    console.log();
+  }
+
   rl.close();
 
-  const shell = parseShellArg(actualShellArg, "Usage: dash-cli --setup [bash|powershell] [--alias]");
+  const shell = parseShellArg(actualShellArg, `Usage: dash-cli --setup [${SHELL_NAMES}] [--alias] [--track] [--completions]`);
+  const options: WrapperOptions = { alias: withAlias, track: withTrack, completions: withCompletions };
 
-  if (shell === "bash") {
-    setupBash(withAlias);
+  if (shell === "bash" || shell === "zsh") {
+    setupBash(shell, options);
+  } else if (shell === "fish") {
+    setupFish(options);
   } else {
-    setupPowerShell(withAlias);
+    setupPowerShell(options);
   }
 
   console.log("\nDone! You can now use 'dash' to navigate to your projects.");
@@ -492,17 +777,19 @@ export async function runSetup(shellArg?: string, aliasArg?: string): Promise<vo
     console.log("You can also use 'd' as a shortcut.");
   }
   console.log("\nImportant: To remove the shell function and aliases later, run:");
-  console.log("  dash-cli --uninstall [bash|powershell]");
+  console.log(`  dash-cli --uninstall [${SHELL_NAMES}]`);
   console.log("Run that before uninstalling the npm package so Dash can clean up your shell profile.");
 }
 
 export async function runUninstall(shellArg?: string): Promise<void> {
   console.log("Removing Dash CLI shell integration...\n");
 
-  const shell = parseShellArg(shellArg, "Usage: dash-cli --uninstall [bash|powershell]");
+  const shell = parseShellArg(shellArg, `Usage: dash-cli --uninstall [${SHELL_NAMES}]`);
 
-  if (shell === "bash") {
-    uninstallBash();
+  if (shell === "bash" || shell === "zsh") {
+    uninstallBash(shell);
+  } else if (shell === "fish") {
+    uninstallFish();
   } else {
     uninstallPowerShell();
   }
@@ -42,7 +42,8 @@ describe("shortcuts", () => {
       name: "One",
       trigger: "one",
       caseSensitive: false,
-      command: shortcuts.generateCommand('/work/"one"'),
+      command: shortcuts.generateCommand('/work/"one"', "posix"),
+      shell: "posix",
     });
     const two = shortcuts.addShortcut({
       name: "Two",
@@ -52,7 +53,7 @@ describe("shortcuts", () => {
       pinned: false,
     });
 
-    expect(one.command).toEqual(['cd "/work/\\"one\\""']);
+    expect(one).toMatchObject({ command: [`cd '/work/"one"'`], shell: "posix" });
     expect(shortcuts.getShortcutByTrigger("ONE")?.id).toBe(one.id);
     expect(shortcuts.getShortcutByTrigger("two")).toBeUndefined();
     await expect(shortcuts.getShortcutByTriggerAsync("Two")).resolves.toMatchObject({ id: two.id });
@@ -81,6 +82,53 @@ describe("shortcuts", () => {
     expect(shortcuts.getShortcuts().map((shortcut) => shortcut.trigger)).toEqual(["second"]);
   });
 
+  it("resolves aliases and checks them for collisions", async () => {
+    const shortcuts = await importShortcuts();
+
+    const api = shortcuts.addShortcut({
+      name: "API",
+      trigger: "api",
+      aliases: ["a", "backend"],
+      caseSensitive: false,
+      command: ["cd /work/api"],
+    });
+
+    expect(shortcuts.getShortcutByTrigger("Backend")?.id).toBe(api.id);
+    await expect(shortcuts.getShortcutByTriggerAsync("A")).resolves.toMatchObject({ id: api.id });
+    expect(shortcuts.shortcutTriggers(api)).toEqual(["api", "a", "backend"]);
+    expect(shortcuts.validateTrigger("BACKEND", true)).toEqual({
+      valid: false,
+      error: 'Trigger "BACKEND" collides with "backend" (case-insensitive) on "API"',
+    });
+    expect(() => shortcuts.addShortcut({
+      name: "Web",
+      trigger: "web",
+      aliases: ["w", "a"],
+      caseSensitive: false,
+      command: ["cd /work/web"],
+    })).toThrow(/collides with "a"/);
+    expect(() => shortcuts.updateShortcut(api.id, { aliases: ["API"] })).toThrow('Alias "API" repeats "api"');
+
+    // An empty alias list removes the field, like on shortcuts saved before aliases existed
+    expect(shortcuts.updateShortcut(api.id, { aliases: [] })).not.toHaveProperty("aliases");
+    expect(shortcuts.getShortcutByTrigger("a")).toBeUndefined();
+  });
+
+  it("renames references when a shortcut's trigger changes", async () => {
+    const shortcuts = await importShortcuts();
+
+    const build = shortcuts.addShortcut({ name: "Build", trigger: "build", aliases: ["b"], caseSensitive: false, command: ["npm run build"] });
+    const release = shortcuts.addShortcut({ name: "Release", trigger: "release", caseSensitive: false, command: ["@Build --prod", "npm publish"] });
+    const check = shortcuts.addShortcut({ name: "Check", trigger: "check", caseSensitive: false, command: ["@b", "npm test"] });
+
+    expect(shortcuts.findReferencing(build, shortcuts.getShortcuts()).map((s) => s.id)).toEqual([release.id, check.id]);
+
+    // "@b" still matches the alias, so only the reference to the old trigger changes
+    shortcuts.updateShortcut(build.id, { trigger: "compile" });
+    expect(shortcuts.getShortcutByTrigger("release")?.command).toEqual(["@compile --prod", "npm publish"]);
+    expect(shortcuts.getShortcutByTrigger("check")?.command).toEqual(["@b", "npm test"]);
+  });
+
   it("generates numeric triggers and finds exact path shortcuts", async () => {
     const shortcuts = await importShortcuts();
     const existing = [
@@ -100,6 +148,23 @@ describe("shortcuts", () => {
 
     expect(shortcuts.generateUniqueTrigger(existing)).toBe("3");
     expect(shortcuts.findShortcutByPath("/work/two")?.trigger).toBe("2");
+
+    // Matches the quoting the shortcut was created with, including the old double-quoted form
+    shortcuts.addShortcut({
+      name: "Win",
+      trigger: "win",
+      caseSensitive: false,
+      command: shortcuts.generateCommand("C:\\work\\it's", "powershell"),
+      shell: "powershell",
+    });
+    const { writeFileSync, readFileSync } = await import("node:fs");
+    const file = join(home!, ".dash-cli", "shortcuts.json");
+    const data = JSON.parse(readFileSync(file, "utf-8"));
+    data.shortcuts.push({ id: "old", name: "Old", trigger: "old", caseSensitive: false, command: ['cd "/work/\\"old\\""'], createdAt: 0 });
+    writeFileSync(file, JSON.stringify(data));
+    expect(shortcuts.findShortcutByPath("C:\\work\\it's")?.trigger).toBe("win");
+    expect(shortcuts.findShortcutByPath('/work/"old"')?.trigger).toBe("old");
+
     shortcuts.clearShortcuts();
     expect(shortcuts.getShortcuts()).toEqual([]);
   });
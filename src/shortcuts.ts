@@ -1,10 +1,22 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
 import { readFile, mkdir, access } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import { randomUUID } from "node:crypto";
+import {
+  assertWritable,
+  isPlainObject,
+  isStringArray,
+  loadStore,
+  withFileLock,
+  writeFileAtomic,
+  type JsonStore,
+} from "./storage.js";
+import { cdCommand, detectCommandShell, parseCdCommand, type CommandShell } from "./quoting.js";
+import { parseReference } from "./params.js";
 import type {
   Shortcut,
+  ShortcutGroup,
   ShortcutInput,
   ShortcutUpdate,
   ShortcutsData,
@@ -24,6 +36,30 @@ function ensureConfigDir(): void {
   }
 }
 
+function validateShortcutsData(data: unknown): string | null {
+  if (!isPlainObject(data) || !Array.isArray(data.shortcuts)) {
+    return 'expected an object with a "shortcuts" array';
+  }
+
+  const bad = data.shortcuts.findIndex((shortcut: unknown) =>
+    !isPlainObject(shortcut) ||
+    typeof shortcut.id !== "string" ||
+    typeof shortcut.name !== "string" ||
+    typeof shortcut.trigger !== "string" ||
+    (shortcut.aliases !== undefined && !isStringArray(shortcut.aliases)) ||
+    !Array.isArray(shortcut.command) ||
+    (shortcut.group !== undefined && typeof shortcut.group !== "string") ||
+    (shortcut.tags !== undefined && !isStringArray(shortcut.tags))
+  );
+  return bad === -1 ? null : `shortcut ${bad + 1} is missing its id, name, trigger or command, or has bad aliases, group or tags`;
+}
+
+export const shortcutsStore: JsonStore<ShortcutsData> = {
+  file: SHORTCUTS_FILE,
+  validate: validateShortcutsData,
+  empty: () => ({ shortcuts: [] }),
+};
+
 function loadShortcutsData(): ShortcutsData {
   ensureConfigDir();
 
@@ -31,17 +67,19 @@ function loadShortcutsData(): ShortcutsData {
     return { shortcuts: [] };
   }
 
+  let content: string;
   try {
-    const content = readFileSync(SHORTCUTS_FILE, "utf-8");
-    return JSON.parse(content) as ShortcutsData;
+    content = readFileSync(SHORTCUTS_FILE, "utf-8");
   } catch {
     return { shortcuts: [] };
   }
+  return loadStore(shortcutsStore, content);
 }
 
 function saveShortcutsData(data: ShortcutsData): void {
   ensureConfigDir();
-  writeFileSync(SHORTCUTS_FILE, JSON.stringify(data, null, 2));
+  assertWritable(SHORTCUTS_FILE);
+  writeFileAtomic(SHORTCUTS_FILE, JSON.stringify(data, null, 2));
 }
 
 /**
@@ -71,6 +109,69 @@ function normalizeOrder(shortcuts: Shortcut[]): Shortcut[] {
   }));
 }
 
+/**
+ * Cleans up tags: splits comma-separated entries, drops a leading # and empty or
+ * repeated (ignoring case) tags.
+ */
+function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags.flatMap((t) => t.split(",")).map((t) => t.trim().replace(/^#/, ""))) {
+    if (tag && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+/**
+ * Group and tags fields for a stored shortcut, leaving out empty ones.
+ */
+function groupAndTags(group: string | undefined, tags: string[] | undefined): Pick<Shortcut, "group" | "tags"> {
+  const name = group?.trim();
+  const cleaned = normalizeTags(tags ?? []);
+  return {
+    ...(name ? { group: name } : {}),
+    ...(cleaned.length > 0 ? { tags: cleaned } : {}),
+  };
+}
+
+/**
+ * Aliases field for a stored shortcut, left out when there are none.
+ */
+function aliasesField(aliases: string[] | undefined): Pick<Shortcut, "aliases"> {
+  return aliases && aliases.length > 0 ? { aliases } : {};
+}
+
+/**
+ * Builds a stored shortcut from validated input.
+ */
+function createShortcut(input: ShortcutInput, order: number): Shortcut {
+  return {
+    id: randomUUID(),
+    name: input.name.trim(),
+    trigger: input.trigger,
+    ...aliasesField(input.aliases),
+    caseSensitive: input.caseSensitive,
+    command: input.command.filter((cmd) => cmd.trim() !== ""),
+    pinned: input.pinned ?? true,
+    shell: input.shell ?? detectCommandShell(),
+    order,
+    ...groupAndTags(input.group, input.tags),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Checks if a shortcut's trigger or one of its aliases matches the given text.
+ */
+export function matchesTrigger(shortcut: Shortcut, trigger: string): boolean {
+  return shortcutTriggers(shortcut).some((t) =>
+    shortcut.caseSensitive ? t === trigger : t.toLowerCase() === trigger.toLowerCase()
+  );
+}
+
 /**
  * Checks if two triggers collide considering case-sensitivity rules.
  *
@@ -117,39 +218,35 @@ export function validateTriggerFormat(trigger: string): ValidationResult {
 }
 
 /**
- * Validates that a trigger is unique among existing shortcuts.
+ * Validates that a trigger is unique among the triggers and aliases of existing shortcuts
+ * (the saved ones unless a list is given).
  */
 export function validateTrigger(
   trigger: string,
   caseSensitive: boolean,
-  excludeId?: string
+  excludeId?: string,
+  shortcuts: Shortcut[] = loadShortcutsData().shortcuts
 ): ValidationResult {
   const formatResult = validateTriggerFormat(trigger);
   if (!formatResult.valid) {
     return formatResult;
   }
 
-  const data = loadShortcutsData();
-
-  for (const shortcut of data.shortcuts) {
+  for (const shortcut of shortcuts) {
     if (excludeId && shortcut.id === excludeId) {
       continue;
     }
 
-    if (
-      triggersCollide(
-        trigger,
-        caseSensitive,
-        shortcut.trigger,
-        shortcut.caseSensitive
-      )
-    ) {
+    const existing = shortcutTriggers(shortcut).find((t) =>
+      triggersCollide(trigger, caseSensitive, t, shortcut.caseSensitive)
+    );
+    if (existing !== undefined) {
       const sensitivity = shortcut.caseSensitive
         ? "case-sensitive"
         : "case-insensitive";
       return {
         valid: false,
-        error: `Trigger "${trigger}" collides with "${shortcut.trigger}" (${sensitivity}) on "${shortcut.name}"`,
+        error: `Trigger "${trigger}" collides with "${existing}" (${sensitivity}) on "${shortcut.name}"`,
       };
     }
   }
@@ -185,19 +282,26 @@ export function validateCommand(command: string[]): ValidationResult {
  */
 export function validateShortcutInput(
   input: ShortcutInput,
-  excludeId?: string
+  excludeId?: string,
+  shortcuts?: Shortcut[]
 ): ValidationResult {
   if (!input.name || input.name.trim() === "") {
     return { valid: false, error: "Name cannot be empty" };
   }
 
-  const triggerResult = validateTrigger(
-    input.trigger,
-    input.caseSensitive,
-    excludeId
-  );
-  if (!triggerResult.valid) {
-    return triggerResult;
+  const triggers = shortcutTriggers(input);
+  for (const [index, trigger] of triggers.entries()) {
+    const triggerResult = validateTrigger(trigger, input.caseSensitive, excludeId, shortcuts);
+    if (!triggerResult.valid) {
+      return triggerResult;
+    }
+
+    const repeated = triggers.slice(0, index).find((t) =>
+      triggersCollide(trigger, input.caseSensitive, t, input.caseSensitive)
+    );
+    if (repeated !== undefined) {
+      return { valid: false, error: `Alias "${trigger}" repeats "${repeated}"` };
+    }
   }
 
   const commandResult = validateCommand(input.command);
@@ -230,112 +334,172 @@ export function getShortcutById(id: string): Shortcut | undefined {
 }
 
 /**
- * Retrieves a shortcut by its trigger.
+ * Retrieves a shortcut by its trigger or one of its aliases.
  * Handles case-sensitivity according to each shortcut's setting.
  */
 export function getShortcutByTrigger(trigger: string): Shortcut | undefined {
   const data = loadShortcutsData();
-  const lowerTrigger = trigger.toLowerCase();
+  return data.shortcuts.find((shortcut) => matchesTrigger(shortcut, trigger));
+}
 
-  return data.shortcuts.find((shortcut) => {
-    if (shortcut.caseSensitive) {
-      return shortcut.trigger === trigger;
-    } else {
-      return shortcut.trigger.toLowerCase() === lowerTrigger;
-    }
-  });
+/**
+ * All triggers that run a shortcut: the primary trigger, then its aliases.
+ */
+export function shortcutTriggers(shortcut: Pick<Shortcut, "trigger" | "aliases">): string[] {
+  return [shortcut.trigger, ...(shortcut.aliases ?? [])];
 }
 
 /**
  * Adds a new shortcut.
  */
 export function addShortcut(input: ShortcutInput): Shortcut {
-  const validation = validateShortcutInput(input);
-  if (!validation.valid) {
-    throw new Error(validation.error);
-  }
+  // Validation reads the file too, so the collision check happens under the lock
+  return withFileLock(SHORTCUTS_FILE, () => {
+    const validation = validateShortcutInput(input);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
 
-  const data = loadShortcutsData();
-  data.shortcuts = ensureOrderField(data.shortcuts);
+    const data = loadShortcutsData();
+    data.shortcuts = ensureOrderField(data.shortcuts);
 
-  // New shortcut gets last position
-  const maxOrder = data.shortcuts.reduce((max, s) => Math.max(max, s.order ?? 0), -1);
+    // New shortcut gets last position
+    const maxOrder = data.shortcuts.reduce((max, s) => Math.max(max, s.order ?? 0), -1);
+    const newShortcut = createShortcut(input, maxOrder + 1);
 
-  const newShortcut: Shortcut = {
-    id: randomUUID(),
-    name: input.name.trim(),
-    trigger: input.trigger,
-    caseSensitive: input.caseSensitive,
-    command: input.command.filter((cmd) => cmd.trim() !== ""),
-    pinned: input.pinned ?? true,
-    order: maxOrder + 1,
-    createdAt: Date.now(),
-  };
+    data.shortcuts.push(newShortcut);
+    data.shortcuts = normalizeOrder(data.shortcuts);
+    saveShortcutsData(data);
+
+    return newShortcut;
+  });
+}
 
-  data.shortcuts.push(newShortcut);
-  data.shortcuts = normalizeOrder(data.shortcuts);
-  saveShortcutsData(data);
+/**
+ * Adds several shortcuts at once, after the existing ones or (with replace) instead of
+ * them. Throws without saving anything if any of them is invalid or collides.
+ */
+export function importShortcuts(inputs: ShortcutInput[], replace = false): Shortcut[] {
+  return withFileLock(SHORTCUTS_FILE, () => {
+    const data = loadShortcutsData();
+    const shortcuts = replace ? [] : ensureOrderField(data.shortcuts);
+    const maxOrder = shortcuts.reduce((max, s) => Math.max(max, s.order ?? 0), -1);
+
+    const added = inputs.map((input, index) => {
+      const validation = validateShortcutInput(input, undefined, shortcuts);
+      if (!validation.valid) {
+        throw new Error(`${input.trigger}: ${validation.error}`);
+      }
+      const shortcut = createShortcut(input, maxOrder + 1 + index);
+      shortcuts.push(shortcut);
+      return shortcut;
+    });
+
+    data.shortcuts = normalizeOrder(shortcuts);
+    saveShortcutsData(data);
+
+    return added;
+  });
+}
+
+/**
+ * Shortcuts with a command line referencing the shortcut ("@trigger", or one of its aliases).
+ */
+export function findReferencing(shortcut: Shortcut, shortcuts: Shortcut[]): Shortcut[] {
+  return shortcuts.filter((s) => s.id !== shortcut.id && s.command.some((line) => {
+    const reference = parseReference(line);
+    return reference !== null && matchesTrigger(shortcut, reference.trigger);
+  }));
+}
 
-  return newShortcut;
+/**
+ * Points references that matched a shortcut before an update, but don't anymore, at its
+ * new trigger. Shortcuts without such references are returned as they were.
+ */
+export function renameReferences(shortcuts: Shortcut[], before: Shortcut, after: Shortcut): Shortcut[] {
+  return shortcuts.map((s) => {
+    if (s.id === after.id) return s;
+    let renamed = false;
+    const command = s.command.map((line) => {
+      const reference = parseReference(line);
+      if (!reference || !matchesTrigger(before, reference.trigger) || matchesTrigger(after, reference.trigger)) {
+        return line;
+      }
+      renamed = true;
+      return line.replace(`@${reference.trigger}`, `@${after.trigger}`);
+    });
+    return renamed ? { ...s, command } : s;
+  });
 }
 
 /**
- * Updates an existing shortcut.
+ * Updates an existing shortcut. References to a trigger or alias it no longer has are
+ * renamed to its new trigger.
  */
 export function updateShortcut(id: string, updates: ShortcutUpdate): Shortcut {
-  const data = loadShortcutsData();
-  const index = data.shortcuts.findIndex((s) => s.id === id);
+  return withFileLock(SHORTCUTS_FILE, () => {
+    const data = loadShortcutsData();
+    const index = data.shortcuts.findIndex((s) => s.id === id);
 
-  if (index === -1) {
-    throw new Error(`Shortcut with ID "${id}" not found`);
-  }
+    if (index === -1) {
+      throw new Error(`Shortcut with ID "${id}" not found`);
+    }
 
-  const existing = data.shortcuts[index];
+    const existing = data.shortcuts[index];
 
-  const merged: ShortcutInput = {
-    name: updates.name ?? existing.name,
-    trigger: updates.trigger ?? existing.trigger,
-    caseSensitive: updates.caseSensitive ?? existing.caseSensitive,
-    command: updates.command ?? existing.command,
-    pinned: updates.pinned ?? existing.pinned,
-  };
+    const merged: ShortcutInput = {
+      name: updates.name ?? existing.name,
+      trigger: updates.trigger ?? existing.trigger,
+      aliases: updates.aliases ?? existing.aliases,
+      caseSensitive: updates.caseSensitive ?? existing.caseSensitive,
+      command: updates.command ?? existing.command,
+      pinned: updates.pinned ?? existing.pinned,
+    };
 
-  const validation = validateShortcutInput(merged, id);
-  if (!validation.valid) {
-    throw new Error(validation.error);
-  }
+    const validation = validateShortcutInput(merged, id);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
 
-  const updated: Shortcut = {
-    ...existing,
-    name: merged.name.trim(),
-    trigger: merged.trigger,
-    caseSensitive: merged.caseSensitive,
-    command: merged.command.filter((cmd) => cmd.trim() !== ""),
-    pinned: merged.pinned ?? true,
-  };
+    // An empty alias list, group or tag list in the updates clears it
+    const { aliases: _aliases, group: _group, tags: _tags, ...rest } = existing;
+    const updated: Shortcut = {
+      ...rest,
+      name: merged.name.trim(),
+      trigger: merged.trigger,
+      ...aliasesField(merged.aliases),
+      caseSensitive: merged.caseSensitive,
+      command: merged.command.filter((cmd) => cmd.trim() !== ""),
+      pinned: merged.pinned ?? true,
+      ...groupAndTags(updates.group ?? existing.group, updates.tags ?? existing.tags),
+    };
 
-  data.shortcuts[index] = updated;
-  saveShortcutsData(data);
+    data.shortcuts[index] = updated;
+    data.shortcuts = renameReferences(data.shortcuts, existing, updated);
+    saveShortcutsData(data);
 
-  return updated;
+    return updated;
+  });
 }
 
 /**
  * Removes a shortcut by its ID.
  */
 export function removeShortcut(id: string): boolean {
-  const data = loadShortcutsData();
-  const initialLength = data.shortcuts.length;
+  return withFileLock(SHORTCUTS_FILE, () => {
+    const data = loadShortcutsData();
+    const initialLength = data.shortcuts.length;
 
-  data.shortcuts = data.shortcuts.filter((s) => s.id !== id);
+    data.shortcuts = data.shortcuts.filter((s) => s.id !== id);
 
-  if (data.shortcuts.length < initialLength) {
-    data.shortcuts = normalizeOrder(data.shortcuts);
-    saveShortcutsData(data);
-    return true;
-  }
+    if (data.shortcuts.length < initialLength) {
+      data.shortcuts = normalizeOrder(data.shortcuts);
+      saveShortcutsData(data);
+      return true;
+    }
 
-  return false;
+    return false;
+  });
 }
 
 /**
@@ -346,35 +510,42 @@ export function clearShortcuts(): void {
 }
 
 /**
- * Moves a shortcut to a new position in the order.
+ * Moves a shortcut to a new position in the grouped order (see groupShortcuts),
+ * optionally into another group (null for ungrouped).
  */
-export function moveShortcut(id: string, targetIndex: number): Shortcut[] {
-  const data = loadShortcutsData();
-  data.shortcuts = ensureOrderField(data.shortcuts);
+export function moveShortcut(id: string, targetIndex: number, group?: string | null): Shortcut[] {
+  return withFileLock(SHORTCUTS_FILE, () => {
+    const data = loadShortcutsData();
+    data.shortcuts = ensureOrderField(data.shortcuts);
 
-  // Sort by current order
-  const sorted = data.shortcuts.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    // Sort by current display order
+    const sorted = groupShortcuts(data.shortcuts).flatMap((g) => g.shortcuts);
 
-  const currentIndex = sorted.findIndex((s) => s.id === id);
-  if (currentIndex === -1) {
-    throw new Error(`Shortcut with ID "${id}" not found`);
-  }
+    const currentIndex = sorted.findIndex((s) => s.id === id);
+    if (currentIndex === -1) {
+      throw new Error(`Shortcut with ID "${id}" not found`);
+    }
 
-  // Bounds check
-  const clampedTarget = Math.max(0, Math.min(targetIndex, sorted.length - 1));
+    // Bounds check
+    const clampedTarget = Math.max(0, Math.min(targetIndex, sorted.length - 1));
 
-  // Remove from current position and insert at new position
-  const [moved] = sorted.splice(currentIndex, 1);
-  sorted.splice(clampedTarget, 0, moved);
+    // Remove from current position and insert at new position
+    let [moved] = sorted.splice(currentIndex, 1);
+    if (group !== undefined) {
+      const { group: _group, ...rest } = moved;
+      moved = group ? { ...rest, group } : rest;
+    }
+    sorted.splice(clampedTarget, 0, moved);
 
-  // Assign new order values (don't use normalizeOrder - it re-sorts by old order)
-  data.shortcuts = sorted.map((shortcut, index) => ({
-    ...shortcut,
-    order: index,
-  }));
-  saveShortcutsData(data);
+    // Assign new order values (don't use normalizeOrder - it re-sorts by old order)
+    data.shortcuts = sorted.map((shortcut, index) => ({
+      ...shortcut,
+      order: index,
+    }));
+    saveShortcutsData(data);
 
-  return data.shortcuts;
+    return data.shortcuts;
+  });
 }
 
 // ============================================================================
@@ -382,19 +553,42 @@ export function moveShortcut(id: string, targetIndex: number): Shortcut[] {
 // ============================================================================
 
 /**
- * Generates a default command array from a path.
+ * Splits shortcuts into their groups for display: ungrouped ones first, then the
+ * named groups alphabetically, each in shortcut order.
+ */
+export function groupShortcuts(shortcuts: Shortcut[]): ShortcutGroup[] {
+  const byGroup = new Map<string | null, Shortcut[]>([[null, []]]);
+  for (const shortcut of [...shortcuts].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))) {
+    const name = shortcut.group ?? null;
+    byGroup.set(name, [...(byGroup.get(name) ?? []), shortcut]);
+  }
+
+  const names = [...byGroup.keys()].filter((name): name is string => name !== null).sort((a, b) => a.localeCompare(b));
+  return [null, ...names]
+    .map((name) => ({ name, shortcuts: byGroup.get(name) ?? [] }))
+    .filter((group) => group.name !== null || group.shortcuts.length > 0);
+}
+
+/**
+ * Whether a shortcut has a tag, ignoring case and a leading #.
  */
-export function generateCommand(path: string): string[] {
-  // Escape quotes in path for shell safety
-  const escapedPath = path.replace(/"/g, '\\"');
-  return [`cd "${escapedPath}"`];
+export function hasTag(shortcut: Shortcut, tag: string): boolean {
+  const wanted = tag.replace(/^#/, "").toLowerCase();
+  return (shortcut.tags ?? []).some((t) => t.toLowerCase() === wanted);
+}
+
+/**
+ * Generates a default command array from a path, quoted for the given shell.
+ */
+export function generateCommand(path: string, shell: CommandShell = detectCommandShell()): string[] {
+  return [cdCommand(path, shell)];
 }
 
 /**
  * Generates a unique trigger (next available number).
  */
 export function generateUniqueTrigger(shortcuts: Shortcut[]): string {
-  const existing = new Set(shortcuts.map((s) => s.trigger.toLowerCase()));
+  const existing = new Set(shortcuts.flatMap((s) => shortcutTriggers(s)).map((t) => t.toLowerCase()));
   let num = 1;
   while (existing.has(String(num))) {
     num++;
@@ -407,9 +601,8 @@ export function generateUniqueTrigger(shortcuts: Shortcut[]): string {
  */
 export function findShortcutByPath(path: string): Shortcut | undefined {
   const shortcuts = getShortcuts();
-  const expectedCmd = generateCommand(path)[0];
 
-  return shortcuts.find((s) => s.command.some((cmd) => cmd === expectedCmd));
+  return shortcuts.find((s) => s.command.some((cmd) => parseCdCommand(cmd, s.shell) === path));
 }
 
 // ============================================================================
@@ -438,12 +631,13 @@ async function loadShortcutsDataAsync(): Promise<ShortcutsData> {
     return { shortcuts: [] };
   }
 
+  let content: string;
   try {
-    const content = await readFile(SHORTCUTS_FILE, "utf-8");
-    return JSON.parse(content) as ShortcutsData;
+    content = await readFile(SHORTCUTS_FILE, "utf-8");
   } catch {
     return { shortcuts: [] };
   }
+  return loadStore(shortcutsStore, content);
 }
 
 /**
@@ -462,13 +656,5 @@ export async function getShortcutByTriggerAsync(
   trigger: string
 ): Promise<Shortcut | undefined> {
   const data = await loadShortcutsDataAsync();
-  const lowerTrigger = trigger.toLowerCase();
-
-  return data.shortcuts.find((shortcut) => {
-    if (shortcut.caseSensitive) {
-      return shortcut.trigger === trigger;
-    } else {
-      return shortcut.trigger.toLowerCase() === lowerTrigger;
-    }
-  });
+  return data.shortcuts.find((shortcut) => matchesTrigger(shortcut, trigger));
 }
@@ -0,0 +1,185 @@
+import { spawn } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+let home: string | null = null;
+
+async function importShortcuts() {
+  home = mkdtempSync(join(tmpdir(), "dash-storage-"));
+  vi.resetModules();
+  vi.doMock("node:os", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("node:os")>()),
+    homedir: () => home,
+  }));
+  return import("./shortcuts.js");
+}
+
+// Another dash process doing read-modify-write cycles under the same lock-file protocol.
+// It reads, pauses, then writes, so without the lock its updates and ours would clobber each other.
+const WRITER_SCRIPT = `
+const fs = require("node:fs");
+const [file, prefix, count] = process.argv.slice(1);
+const sleep = (ms) => Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+for (let i = 0; i < Number(count); i++) {
+  for (;;) {
+    try { fs.writeFileSync(file + ".lock", String(process.pid), { flag: "wx" }); break; } catch { sleep(3); }
+  }
+  const data = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : { shortcuts: [] };
+  sleep(5);
+  const trigger = prefix + i;
+  data.shortcuts.push({ id: trigger, name: trigger, trigger, caseSensitive: false, command: ["echo"], createdAt: Date.now() });
+  fs.writeFileSync(file, JSON.stringify(data));
+  fs.rmSync(file + ".lock");
+  sleep(1);
+}
+`;
+
+function startWriter(file: string, prefix: string, count: number): Promise<number | null> {
+  const child = spawn(process.execPath, ["-e", WRITER_SCRIPT, file, prefix, String(count)], { stdio: "ignore" });
+  return new Promise((resolve) => child.on("exit", resolve));
+}
+
+afterEach(() => {
+  vi.doUnmock("node:os");
+  vi.doUnmock("node:fs");
+  vi.resetModules();
+  if (home) {
+    rmSync(home, { recursive: true, force: true });
+    home = null;
+  }
+});
+
+describe("storage", () => {
+  it("writes atomically and cleans up the temp file when the rename fails", async () => {
+    const { writeFileAtomic } = await import("./storage.js");
+    home = mkdtempSync(join(tmpdir(), "dash-storage-"));
+    const file = join(home, "nested", "data.json");
+
+    writeFileAtomic(file, "one");
+    writeFileAtomic(file, "two");
+    expect(readFileSync(file, "utf-8")).toBe("two");
+    expect(readdirSync(join(home, "nested"))).toEqual(["data.json"]);
+
+    // A non-empty directory can't be replaced by rename
+    const blocked = join(home, "blocked");
+    mkdirSync(blocked);
+    writeFileSync(join(blocked, "keep"), "");
+    expect(() => writeFileAtomic(blocked, "data")).toThrow();
+    expect(readdirSync(home).sort()).toEqual(["blocked", "nested"]);
+  });
+
+  it("does not lose updates when other processes write concurrently", async () => {
+    const shortcuts = await importShortcuts();
+    const file = join(home!, ".dash-cli", "shortcuts.json");
+    mkdirSync(join(home!, ".dash-cli"));
+
+    const writers = [startWriter(file, "a", 8), startWriter(file, "b", 8)];
+    // Start once the writers are running so our cycles interleave with theirs
+    while (!existsSync(file)) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    for (let i = 0; i < 8; i++) {
+      shortcuts.addShortcut({ name: `p${i}`, trigger: `p${i}`, caseSensitive: false, command: ["echo"] });
+      await new Promise((resolve) => setTimeout(resolve, 4));
+    }
+    await expect(Promise.all(writers)).resolves.toEqual([0, 0]);
+
+    const triggers = JSON.parse(readFileSync(file, "utf-8")).shortcuts.map((s: { trigger: string }) => s.trigger);
+    expect(triggers).toHaveLength(24);
+    expect(new Set(triggers).size).toBe(24);
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  }, 20000);
+
+  it("breaks a lock left behind by a process that no longer exists", async () => {
+    const shortcuts = await importShortcuts();
+    const file = join(home!, ".dash-cli", "shortcuts.json");
+    mkdirSync(join(home!, ".dash-cli"));
+
+    const child = spawn(process.execPath, ["-e", ""]);
+    const deadPid = await new Promise<number>((resolve) => child.on("exit", () => resolve(child.pid!)));
+    writeFileSync(`${file}.lock`, String(deadPid));
+
+    shortcuts.addShortcut({ name: "proj", trigger: "proj", caseSensitive: false, command: ["cd /work"] });
+
+    expect(shortcuts.getShortcuts().map((s) => s.trigger)).toEqual(["proj"]);
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it("leaves a lock alone when another waiter broke the stale one first", async () => {
+    home = mkdtempSync(join(tmpdir(), "dash-storage-"));
+    const lock = join(home, "data.json.lock");
+    const deadChild = spawn(process.execPath, ["-e", ""]);
+    const deadPid = await new Promise<number>((resolve) => deadChild.on("exit", () => resolve(deadChild.pid!)));
+    writeFileSync(lock, String(deadPid));
+
+    // The other waiter holds its fresh lock briefly, then releases it (failing if it is gone)
+    const holder = spawn(process.execPath, ["-e", `setTimeout(() => require("node:fs").rmSync(${JSON.stringify(lock)}), 300)`]);
+    const holderExit = new Promise<number | null>((resolve) => holder.on("exit", resolve));
+    // It breaks the stale lock and takes its own right after we read the dead pid
+    let raced = false;
+    vi.doMock("node:fs", async (importOriginal) => {
+      const fs = await importOriginal<typeof import("node:fs")>();
+      return {
+        ...fs,
+        readFileSync: ((path: string, options?: BufferEncoding) => {
+          const content = fs.readFileSync(path, options);
+          if (path === lock && !raced) {
+            raced = true;
+            fs.rmSync(lock);
+            fs.writeFileSync(lock, String(holder.pid));
+          }
+          return content;
+        }) as typeof fs.readFileSync,
+      };
+    });
+    vi.resetModules();
+    const { withFileLock } = await import("./storage.js");
+
+    const ran = withFileLock(join(home, "data.json"), () => raced && existsSync(lock));
+
+    expect(ran).toBe(true);
+    await expect(holderExit).resolves.toBe(0);
+    expect(readdirSync(home)).toEqual([]);
+  });
+
+  it("leaves the lock alone when it was broken and taken while we held it", async () => {
+    const { withFileLock } = await import("./storage.js");
+    home = mkdtempSync(join(tmpdir(), "dash-storage-"));
+    const file = join(home, "data.json");
+
+    withFileLock(file, () => {
+      // Another process found our lock stale and took its own
+      rmSync(`${file}.lock`);
+      writeFileSync(`${file}.lock`, "12345 other");
+    });
+    expect(readFileSync(`${file}.lock`, "utf-8")).toBe("12345 other");
+
+    rmSync(`${file}.lock`);
+    withFileLock(file, () => expect(readFileSync(`${file}.lock`, "utf-8")).toMatch(new RegExp(`^${process.pid} `)));
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it("quarantines a corrupt store and refuses writes until it is repaired", async () => {
+    const shortcuts = await importShortcuts();
+    const { getStorageWarnings } = await import("./storage.js");
+    const dir = join(home!, ".dash-cli");
+    const file = join(dir, "shortcuts.json");
+    mkdirSync(dir);
+    writeFileSync(file, JSON.stringify({ shortcuts: [{ id: "1", name: "Proj", trigger: "proj" }] }));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(shortcuts.getShortcuts()).toEqual([]);
+    const copies = readdirSync(dir).filter((name) => name.endsWith(".corrupt"));
+    expect(copies).toEqual([expect.stringMatching(/^shortcuts\.json\..+\.corrupt$/)]);
+    expect(readFileSync(join(dir, copies[0]), "utf-8")).toContain('"proj"');
+    expect(getStorageWarnings()).toEqual([expect.stringContaining("shortcuts.json is corrupt (shortcut 1 ")]);
+    expect(error).toHaveBeenCalledTimes(1);
+
+    expect(() => shortcuts.addShortcut({ name: "New", trigger: "new", caseSensitive: false, command: ["cd /new"] }))
+      .toThrow(/^Not writing shortcuts\.json/);
+    expect(existsSync(file)).toBe(false);
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { randomBytes } from "node:crypto";
+
+// Shared persistence helpers for the config stores in ~/.dash-cli.
+// Writes go to a temp file that is renamed over the target, so readers (and a crash
+// mid-write) never see a truncated file. Read-modify-write cycles take an advisory lock
+// file next to the target so two dash processes don't lose each other's updates.
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 10000;  // A lock this old is from a hung or crashed process
+const LOCK_RETRY_MS = 15;
+
+// Lock depth per lock path, so nested withFileLock calls in one process don't deadlock
+const heldLocks = new Map<string, number>();
+
+// Quarantine messages from this process, shown by the TUI
+const storageWarnings: string[] = [];
+
+/**
+ * A JSON config store. validate returns a description of the first shape problem,
+ * or null when the data is usable.
+ */
+export interface JsonStore<T> {
+  file: string;
+  validate: (data: unknown) => string | null;
+  empty: () => T;
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM means the process exists but belongs to someone else
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function isStaleLock(lockPath: string): boolean {
+  try {
+    if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+      return true;
+    }
+    const pid = Number.parseInt(readFileSync(lockPath, "utf-8"), 10);
+    return Number.isInteger(pid) && pid !== process.pid && !isProcessAlive(pid);
+  } catch {
+    // Lock disappeared (or is half-written); just retry
+    return false;
+  }
+}
+
+/**
+ * Removes a stale lock by renaming it aside first, then checking the moved file is still
+ * stale. Two waiters can both see the same stale lock; without this, the slower one would
+ * delete the fresh lock the faster one just took.
+ */
+function breakStaleLock(lockPath: string): void {
+  const asidePath = `${lockPath}.${process.pid}.${randomBytes(4).toString("hex")}.stale`;
+  try {
+    renameSync(lockPath, asidePath);
+  } catch {
+    // Another waiter moved it first
+    return;
+  }
+  if (!isStaleLock(asidePath)) {
+    try {
+      // Put back the lock taken since we looked, unless a newer one already replaced it
+      linkSync(asidePath, lockPath);
+    } catch {
+      // Nothing left to hand back
+    }
+  }
+  rmSync(asidePath, { force: true });
+}
+
+function tryAcquireLock(lockPath: string, token: string): boolean {
+  try {
+    const fd = openSync(lockPath, "wx");
+    writeSync(fd, token);
+    closeSync(fd);
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Removes the lock if it is still ours. A holder that stalled past LOCK_STALE_MS may have
+ * had its lock broken and taken by another process, whose lock must be left alone.
+ */
+function releaseLock(lockPath: string, token: string): void {
+  try {
+    if (readFileSync(lockPath, "utf-8") === token) {
+      rmSync(lockPath, { force: true });
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Writes a file atomically: data goes to a temp file in the same directory,
+ * is flushed to disk, then renamed over the target.
+ */
+export function writeFileAtomic(filePath: string, data: string): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+
+  try {
+    const fd = openSync(tempPath, "w");
+    try {
+      writeSync(fd, data);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, filePath);
+  } catch (e) {
+    rmSync(tempPath, { force: true });
+    throw e;
+  }
+}
+
+/**
+ * Runs fn while holding an advisory lock on filePath (a `<file>.lock` file holding our pid
+ * and a random token, so we only ever remove our own lock).
+ * Waits for other holders, breaks locks left by dead or hung processes, and throws if the
+ * lock can't be taken within a few seconds.
+ */
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  const depth = heldLocks.get(lockPath) ?? 0;
+
+  if (depth > 0) {
+    heldLocks.set(lockPath, depth + 1);
+    try {
+      return fn();
+    } finally {
+      heldLocks.set(lockPath, depth);
+    }
+  }
+
+  mkdirSync(dirname(filePath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const token = `${process.pid} ${randomBytes(4).toString("hex")}`;
+  while (!tryAcquireLock(lockPath, token)) {
+    if (isStaleLock(lockPath)) {
+      breakStaleLock(lockPath);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${filePath}. If no other dash is running, delete ${lockPath}`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+
+  heldLocks.set(lockPath, 1);
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(lockPath);
+    releaseLock(lockPath, token);
+  }
+}
+
+// ============================================================================
+// Corruption handling
+// ============================================================================
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Parses store content, returning the data or what is wrong with it.
+ */
+export function parseStore<T>(store: JsonStore<T>, content: string): { data: T } | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    return { error: `invalid JSON: ${(e as Error).message}` };
+  }
+
+  const problem = store.validate(data);
+  return problem ? { error: problem } : { data: data as T };
+}
+
+/**
+ * Lists quarantined copies of a store, oldest first.
+ */
+export function findCorruptCopies(filePath: string): string[] {
+  const dir = dirname(filePath);
+  const prefix = `${basename(filePath)}.`;
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((name) => name.startsWith(prefix) && name.endsWith(".corrupt"))
+    .sort()
+    .map((name) => join(dir, name));
+}
+
+/**
+ * Moves a corrupt store aside to `<file>.<timestamp>.corrupt` and warns on stderr.
+ * The store then reads as empty but refuses writes until `dash-cli -- doctor --fix`.
+ */
+export function quarantineFile(filePath: string, reason: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const corruptPath = `${filePath}.${stamp}.corrupt`;
+
+  try {
+    renameSync(filePath, corruptPath);
+  } catch (e) {
+    // Another dash process got there first
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+    return findCorruptCopies(filePath).at(-1) ?? corruptPath;
+  }
+
+  const message = `${basename(filePath)} is corrupt (${reason}). Moved it to ${corruptPath}; run "dash-cli -- doctor" to repair.`;
+  storageWarnings.push(message);
+  console.error(`Warning: ${message}`);
+  return corruptPath;
+}
+
+/**
+ * Loads a store, quarantining the file and returning the empty value if it is corrupt.
+ */
+export function loadStore<T>(store: JsonStore<T>, content: string): T {
+  const result = parseStore(store, content);
+  if ("error" in result) {
+    quarantineFile(store.file, result.error);
+    return store.empty();
+  }
+  return result.data;
+}
+
+/**
+ * Throws if the store was quarantined and not repaired yet: writing now would
+ * replace everything in the corrupt copy with whatever little we loaded.
+ */
+export function assertWritable(filePath: string): void {
+  if (existsSync(filePath)) return;
+
+  const latest = findCorruptCopies(filePath).at(-1);
+  if (latest) {
+    throw new Error(
+      `Not writing ${basename(filePath)}: the last copy was corrupt and is saved at ${latest}. ` +
+        `Run "dash-cli -- doctor" to review it, then "dash-cli -- doctor --fix" to continue.`
+    );
+  }
+}
+
+export function getStorageWarnings(): string[] {
+  return [...storageWarnings];
+}
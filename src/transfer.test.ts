@@ -0,0 +1,72 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+let home: string | null = null;
+
+async function importModules() {
+  home = mkdtempSync(join(tmpdir(), "dash-transfer-"));
+  vi.resetModules();
+  vi.doMock("node:os", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("node:os")>()),
+    homedir: () => home,
+  }));
+  return { shortcuts: await import("./shortcuts.js"), transfer: await import("./transfer.js") };
+}
+
+afterEach(() => {
+  vi.doUnmock("node:os");
+  vi.resetModules();
+  if (home) {
+    rmSync(home, { recursive: true, force: true });
+    home = null;
+  }
+});
+
+describe("transfer", () => {
+  it("exports shortcut inputs without ids or order", async () => {
+    const { shortcuts, transfer } = await importModules();
+    shortcuts.addShortcut({ name: "API", trigger: "api", caseSensitive: false, command: ["cd /api"], shell: "posix", tags: ["work"] });
+    shortcuts.addShortcut({ name: "Notes", trigger: "notes", caseSensitive: false, command: ["cd /notes"], shell: "posix" });
+
+    expect(transfer.exportShortcuts("#Work")).toEqual({
+      shortcuts: [{ name: "API", trigger: "api", caseSensitive: false, command: ["cd /api"], pinned: true, shell: "posix", tags: ["work"] }],
+    });
+    expect(() => transfer.parseImportFile("[]")).toThrow('expected an object with a "shortcuts" array');
+  });
+
+  it("plans imports, resolving collisions with the chosen strategy", async () => {
+    const { shortcuts, transfer } = await importModules();
+    shortcuts.addShortcut({ name: "API", trigger: "api", aliases: ["a"], caseSensitive: false, command: ["cd /api"] });
+    const entries = [
+      { name: "Web", trigger: "web", command: ["cd /web"] },
+      { name: "New API", trigger: "API", aliases: ["a", "b"], command: ["cd /new-api"] },
+      { name: "", trigger: "empty", command: ["cd /empty"] },
+      { name: "Bad", trigger: "bad", command: "cd /bad" },
+      { name: "Web again", trigger: "web", command: ["cd /web2"] },
+    ];
+
+    const skipped = await transfer.planImport(entries, { resolveConflict: async () => "skip" });
+    expect(skipped.inputs.map((input) => input.trigger)).toEqual(["web"]);
+    expect(skipped.report).toMatchObject({
+      added: ["web"],
+      skipped: [
+        { trigger: "API", reason: expect.stringContaining('collides with "api"') },
+        { trigger: "web", reason: expect.stringContaining('collides with "web"') },
+      ],
+      invalid: [{ entry: 3, error: "Name cannot be empty" }, { entry: 4, error: expect.stringContaining("wrong type") }],
+      removed: [],
+    });
+
+    const renamed = await transfer.planImport(entries, { resolveConflict: async () => "rename" });
+    expect(renamed.inputs[1]).toMatchObject({ trigger: "API-2", aliases: ["a-2", "b"], caseSensitive: false });
+    expect(renamed.report.renamed).toEqual([{ from: "API", to: "API-2" }, { from: "a", to: "a-2" }, { from: "web", to: "web-2" }]);
+
+    // Replacing drops the existing shortcuts, so only entries collide with each other
+    const replaced = await transfer.planImport(entries, { replace: true, resolveConflict: async () => "skip" });
+    expect(replaced.report).toMatchObject({ added: ["web", "API"], removed: ["api"] });
+    shortcuts.importShortcuts(replaced.inputs, true);
+    expect(shortcuts.getShortcuts().map((s) => s.name)).toEqual(["Web", "New API"]);
+  });
+});
@@ -0,0 +1,171 @@
+import { getShortcuts, hasTag, shortcutTriggers, validateShortcutInput, validateTrigger } from "./shortcuts.js";
+import { isPlainObject, isStringArray } from "./storage.js";
+import type { CommandShell } from "./quoting.js";
+import type { Shortcut, ShortcutInput } from "./types.js";
+
+// Sharing shortcuts between machines: export files hold shortcut inputs, without the
+// ids, order and timestamps that only mean something in one shortcuts.json
+
+export interface ShortcutsExport {
+  shortcuts: ShortcutInput[];
+}
+
+export type ConflictStrategy = "prompt" | "skip" | "rename";
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ["prompt", "skip", "rename"];
+
+export interface ImportReport {
+  added: string[];                             // Triggers of the shortcuts imported, after renaming
+  commands: { trigger: string; command: string[] }[];  // What each of them runs, for review
+  renamed: { from: string; to: string }[];     // Triggers or aliases changed to avoid a collision
+  skipped: { trigger: string; reason: string }[];
+  invalid: { entry: number; error: string }[];  // Entries numbered from 1
+  removed: string[];                           // Existing shortcuts dropped by replace
+}
+
+export interface ImportPlan {
+  inputs: ShortcutInput[];
+  report: ImportReport;
+}
+
+export interface ImportOptions {
+  replace?: boolean;
+  // Decides what happens to an entry whose triggers are taken; error says by what
+  resolveConflict: (input: ShortcutInput, error: string) => Promise<"skip" | "rename">;
+}
+
+const SHELLS: CommandShell[] = ["posix", "fish", "powershell"];
+
+function toInput({ id: _id, order: _order, createdAt: _createdAt, ...input }: Shortcut): ShortcutInput {
+  return input;
+}
+
+/**
+ * Shortcuts to export, in display order, optionally only those with a tag.
+ */
+export function exportShortcuts(tag?: string): ShortcutsExport {
+  const shortcuts = getShortcuts().filter((s) => tag === undefined || hasTag(s, tag));
+  return { shortcuts: shortcuts.map(toInput) };
+}
+
+/**
+ * Reads the entries of an export file. Also accepts a whole shortcuts.json.
+ */
+export function parseImportFile(content: string): unknown[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    throw new Error(`invalid JSON: ${(e as Error).message}`);
+  }
+  if (!isPlainObject(data) || !Array.isArray(data.shortcuts)) {
+    throw new Error('expected an object with a "shortcuts" array');
+  }
+  return data.shortcuts;
+}
+
+/**
+ * Checks the shape of an entry, returning it as shortcut input or what is wrong with it.
+ */
+function readEntry(entry: unknown): ShortcutInput | string {
+  if (
+    !isPlainObject(entry) ||
+    typeof entry.name !== "string" ||
+    typeof entry.trigger !== "string" ||
+    !isStringArray(entry.command) ||
+    (entry.caseSensitive !== undefined && typeof entry.caseSensitive !== "boolean") ||
+    (entry.pinned !== undefined && typeof entry.pinned !== "boolean") ||
+    (entry.aliases !== undefined && !isStringArray(entry.aliases)) ||
+    (entry.group !== undefined && typeof entry.group !== "string") ||
+    (entry.tags !== undefined && !isStringArray(entry.tags)) ||
+    (entry.shell !== undefined && !SHELLS.includes(entry.shell as CommandShell))
+  ) {
+    return "missing its name, trigger or command, or has a field of the wrong type";
+  }
+
+  return {
+    name: entry.name,
+    trigger: entry.trigger,
+    ...(entry.aliases ? { aliases: entry.aliases } : {}),
+    caseSensitive: entry.caseSensitive ?? false,
+    command: entry.command,
+    ...(entry.pinned !== undefined ? { pinned: entry.pinned } : {}),
+    ...(entry.shell ? { shell: entry.shell as CommandShell } : {}),
+    ...(entry.group ? { group: entry.group } : {}),
+    ...(entry.tags ? { tags: entry.tags } : {}),
+  };
+}
+
+/**
+ * Gives each taken trigger or alias of an input the first free "-2", "-3", ... suffix.
+ */
+function renameTaken(input: ShortcutInput, planned: Shortcut[]): { input: ShortcutInput; renamed: { from: string; to: string }[] } {
+  const renamed: { from: string; to: string }[] = [];
+  const triggers: string[] = [];
+
+  for (const trigger of shortcutTriggers(input)) {
+    const isFree = (candidate: string) =>
+      validateTrigger(candidate, input.caseSensitive, undefined, planned).valid &&
+      !triggers.some((t) => t.toLowerCase() === candidate.toLowerCase());
+
+    let candidate = trigger;
+    for (let n = 2; !isFree(candidate); n++) {
+      candidate = `${trigger}-${n}`;
+    }
+    if (candidate !== trigger) renamed.push({ from: trigger, to: candidate });
+    triggers.push(candidate);
+  }
+
+  const [trigger, ...aliases] = triggers;
+  return { input: { ...input, trigger, ...(aliases.length > 0 ? { aliases } : {}) }, renamed };
+}
+
+/**
+ * Works out what importing entries would do: which are invalid, which collide with existing
+ * shortcuts (or earlier entries) and how those collisions are resolved. Nothing is saved.
+ */
+export async function planImport(entries: unknown[], options: ImportOptions): Promise<ImportPlan> {
+  const existing = getShortcuts();
+  const planned: Shortcut[] = options.replace ? [] : [...existing];
+  const inputs: ShortcutInput[] = [];
+  const report: ImportReport = {
+    added: [],
+    commands: [],
+    renamed: [],
+    skipped: [],
+    invalid: [],
+    removed: options.replace ? existing.map((s) => s.trigger) : [],
+  };
+
+  for (const [index, entry] of entries.entries()) {
+    const read = readEntry(entry);
+    // Checked against no shortcuts first, so only a collision fails the second check
+    const validation = typeof read === "string"
+      ? { valid: false, error: read }
+      : validateShortcutInput(read, undefined, []);
+    if (typeof read === "string" || !validation.valid) {
+      report.invalid.push({ entry: index + 1, error: validation.error ?? "invalid" });
+      continue;
+    }
+
+    let input = read;
+    const collision = validateShortcutInput(input, undefined, planned);
+    if (!collision.valid) {
+      const error = collision.error ?? "collides";
+      if ((await options.resolveConflict(input, error)) === "skip") {
+        report.skipped.push({ trigger: input.trigger, reason: error });
+        continue;
+      }
+      const result = renameTaken(input, planned);
+      input = result.input;
+      report.renamed.push(...result.renamed);
+    }
+
+    inputs.push(input);
+    planned.push({ ...input, id: `import-${index}`, createdAt: 0 });
+    report.added.push(input.trigger);
+    report.commands.push({ trigger: input.trigger, command: input.command });
+  }
+
+  return { inputs, report };
+}
@@ -0,0 +1,65 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Shortcut } from "./types.js";
+
+let home: string | null = null;
+
+async function importTrust() {
+  home = mkdtempSync(join(tmpdir(), "dash-trust-"));
+  vi.resetModules();
+  vi.doMock("node:os", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("node:os")>()),
+    homedir: () => home,
+  }));
+  return import("./trust.js");
+}
+
+afterEach(() => {
+  vi.doUnmock("node:os");
+  vi.resetModules();
+  if (home) {
+    rmSync(home, { recursive: true, force: true });
+    home = null;
+  }
+});
+
+function fromFile(file: string, content: string, hash: string): Shortcut {
+  return { id: `${file}#test`, name: "test", trigger: "api:test", caseSensitive: false, command: [content], source: { file, hash }, createdAt: 0 };
+}
+
+describe("trust", () => {
+  it("trusts a file only for the content that was reviewed", async () => {
+    const trust = await importTrust();
+    const hash = trust.hashContent('{"shortcuts":[]}');
+    const api = fromFile("/work/api/.dash.json", "npm test", hash);
+    const own: Shortcut = { id: "own", name: "Own", trigger: "own", caseSensitive: false, command: ["ls"], createdAt: 1 };
+
+    expect(trust.untrustedSources([own, api, api])).toEqual([api.source]);
+
+    trust.trustSource(api.source!);
+    expect(trust.isTrusted(api.source!)).toBe(true);
+    expect(trust.untrustedSources([own, api])).toEqual([]);
+
+    // Changing the file needs a new review; trusting it again replaces the old entry
+    const changed = { file: "/work/api/.dash.json", hash: trust.hashContent('{"shortcuts":[{}]}') };
+    expect(trust.isTrusted(changed)).toBe(false);
+    trust.trustSource(changed);
+    expect(trust.getTrusted()).toEqual([{ ...changed, trustedAt: expect.any(Number) }]);
+
+    expect(trust.revokeTrust("/work/api/.dash.json")).toBe(true);
+    expect(trust.revokeTrust("/work/api/.dash.json")).toBe(false);
+    expect(trust.isTrusted(changed)).toBe(false);
+  });
+
+  it("describes what a file defines for review", async () => {
+    const trust = await importTrust();
+
+    expect(trust.describeSource("/work/api/.dash.json", [fromFile("/work/api/.dash.json", "npm test", "x")])).toEqual([
+      "/work/api/.dash.json defines:",
+      "  api:test",
+      "    npm test",
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { existsSync, readFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { join, resolve } from "node:path";
+import { homedir } from "node:os";
+import type { Shortcut, ShortcutSource, TrustData, TrustEntry } from "./types.js";
+import {
+  assertWritable,
+  isPlainObject,
+  loadStore,
+  withFileLock,
+  writeFileAtomic,
+  type JsonStore,
+} from "./storage.js";
+
+// Commands from files the user didn't write themselves (a project's .dash.json) only run
+// once that file is trusted, like direnv's allow. Trust is for the content that was
+// reviewed: any change to the file needs a new review.
+
+const CONFIG_DIR = join(homedir(), ".dash-cli");
+const TRUST_FILE = join(CONFIG_DIR, "trust.json");
+
+function validateTrustData(data: unknown): string | null {
+  if (!isPlainObject(data) || !Array.isArray(data.trusted)) {
+    return 'expected an object with a "trusted" array';
+  }
+
+  const bad = data.trusted.findIndex((entry: unknown) =>
+    !isPlainObject(entry) ||
+    typeof entry.file !== "string" ||
+    typeof entry.hash !== "string" ||
+    typeof entry.trustedAt !== "number"
+  );
+  return bad === -1 ? null : `entry ${bad + 1} is missing its file, hash or trustedAt`;
+}
+
+export const trustStore: JsonStore<TrustData> = {
+  file: TRUST_FILE,
+  validate: validateTrustData,
+  empty: () => ({ trusted: [] }),
+};
+
+/**
+ * Hash of a shortcut file's content, as recorded in the trust database.
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export function loadTrust(): TrustData {
+  if (!existsSync(TRUST_FILE)) {
+    return { trusted: [] };
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(TRUST_FILE, "utf-8");
+  } catch {
+    return { trusted: [] };
+  }
+  return loadStore(trustStore, content);
+}
+
+function saveTrust(data: TrustData): void {
+  assertWritable(TRUST_FILE);
+  writeFileAtomic(TRUST_FILE, JSON.stringify(data, null, 2));
+}
+
+export function getTrusted(): TrustEntry[] {
+  return loadTrust().trusted;
+}
+
+export function isTrusted(source: ShortcutSource): boolean {
+  const file = resolve(source.file);
+  return loadTrust().trusted.some((entry) => entry.file === file && entry.hash === source.hash);
+}
+
+/**
+ * Trusts a file's content, replacing any earlier trust in the same file.
+ */
+export function trustSource(source: ShortcutSource): TrustEntry {
+  return withFileLock(TRUST_FILE, () => {
+    const data = loadTrust();
+    const entry: TrustEntry = { file: resolve(source.file), hash: source.hash, trustedAt: Date.now() };
+    data.trusted = [...data.trusted.filter((e) => e.file !== entry.file), entry];
+    saveTrust(data);
+    return entry;
+  });
+}
+
+/**
+ * Forgets a trusted file, so its shortcuts need a review again. Returns false if it wasn't trusted.
+ */
+export function revokeTrust(file: string): boolean {
+  return withFileLock(TRUST_FILE, () => {
+    const data = loadTrust();
+    const path = resolve(file);
+    const remaining = data.trusted.filter((entry) => entry.file !== path);
+    if (remaining.length === data.trusted.length) return false;
+    saveTrust({ trusted: remaining });
+    return true;
+  });
+}
+
+/**
+ * The files of the given shortcuts that aren't trusted with their current content, once each.
+ * The user's own shortcuts have no source and are always trusted.
+ */
+export function untrustedSources(shortcuts: Shortcut[]): ShortcutSource[] {
+  const sources = new Map<string, ShortcutSource>();
+  for (const { source } of shortcuts) {
+    if (source && !sources.has(source.file) && !isTrusted(source)) sources.set(source.file, source);
+  }
+  return [...sources.values()];
+}
+
+/**
+ * What trusting a file lets run, one line per trigger and command, for review.
+ */
+export function describeSource(file: string, shortcuts: Shortcut[]): string[] {
+  return [
+    `${file} defines:`,
+    ...shortcuts.flatMap((s) => [`  ${s.trigger}`, ...s.command.map((cmd) => `    ${cmd}`)]),
+  ];
+}
@@ -1,17 +1,33 @@
+import type { CommandShell } from "./quoting.js";
+
 export interface Project {
   name: string;
   path: string;
-  isGitRepo: boolean;
+  kind?: string;  // Kind of project from the marker found in it (git, node, ...); missing on plain folders
+  git?: GitStatus;  // Filled in by a background pass after the scan
+  shortcutsFile?: string;  // Repo shortcuts file (.dash.json) found in the project
   hasNestedProjects?: boolean;
   nestedProjects?: Project[];
 }
 
+export interface GitStatus {
+  branch: string;       // Branch name, or the short commit hash when detached
+  dirty?: boolean;      // Uncommitted changes; missing when git is not installed
+  ahead?: number;       // Commits ahead of / behind the upstream; missing without one
+  behind?: number;
+  lastCommit?: number;  // Timestamp (ms)
+}
+
 export interface HistoryEntry {
   path: string;
   displayName: string;
   lastUsed: number;
+  firstUsed?: number;  // Missing on entries written before frecency tracking
+  visits?: number;     // Aged visit count (may be fractional); missing means 1
 }
 
+export type RecentRanking = "recency" | "frecency";
+
 export interface HistoryData {
   recent: HistoryEntry[];
 }
@@ -21,13 +37,30 @@ export interface Shortcut {
   id: string;
   name: string;
   trigger: string;
+  aliases?: string[];  // Other triggers that run the shortcut; missing means none
   caseSensitive: boolean;
   command: string[];
   pinned?: boolean;  // Default: true (backwards compat)
+  shell?: CommandShell;  // Shell the commands were written for; missing on shortcuts from older versions
   order?: number;    // Display order (0-indexed, normalized)
+  group?: string;    // Section of the Shortcuts tab; missing means ungrouped
+  tags?: string[];   // Labels to filter by with #tag
+  repo?: string;     // Project whose .dash.json the shortcut was loaded from; read-only and runs inside it
+  source?: ShortcutSource;  // Set on repo shortcuts; they only run once their file is trusted
   createdAt: number;
 }
 
+// A file shortcuts were read from, and a hash of the content they were read from
+export interface ShortcutSource {
+  file: string;
+  hash: string;
+}
+
+export interface ShortcutGroup {
+  name: string | null;  // null for the ungrouped shortcuts
+  shortcuts: Shortcut[];
+}
+
 export type ShortcutInput = Omit<Shortcut, "id" | "createdAt">;
 export type ShortcutUpdate = Partial<ShortcutInput>;
 
@@ -40,6 +73,15 @@ export interface ShortcutsData {
   shortcuts: Shortcut[];
 }
 
+// Trust database: shortcut files approved to run, each for the content it had when approved
+export interface TrustEntry extends ShortcutSource {
+  trustedAt: number;
+}
+
+export interface TrustData {
+  trusted: TrustEntry[];
+}
+
 export interface SelectItem {
   label: string;
   value: string;
@@ -47,5 +89,5 @@ export interface SelectItem {
 }
 
 // Re-export settings types
-export type { Settings, SettingField } from "./settings.js";
+export type { Settings, SettingField, ProjectRoot, ProjectAction, ProjectActionType } from "./settings.js";
 export { DEFAULT_SETTINGS, SETTING_FIELDS } from "./settings.js";
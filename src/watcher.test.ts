@@ -0,0 +1,61 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { walkRoot } from "./scanner.js";
+import { createProjectWatcher, type ProjectWatcher } from "./watcher.js";
+
+let root: string | null = null;
+let watcher: ProjectWatcher | null = null;
+
+function createRoot(): string {
+  root = mkdtempSync(join(tmpdir(), "dash-watch-"));
+  return root;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+afterEach(() => {
+  watcher?.close();
+  watcher = null;
+  if (root) {
+    rmSync(root, { recursive: true, force: true });
+    root = null;
+  }
+});
+
+describe("watcher", () => {
+  it("reports added and removed projects within the scanned directories", async () => {
+    const projectsDir = createRoot();
+    mkdirSync(join(projectsDir, "alpha", ".git"), { recursive: true });
+    mkdirSync(join(projectsDir, "node_modules", "dep"), { recursive: true });
+    mkdirSync(join(projectsDir, "group", "deep"), { recursive: true });
+    const markers = [".git"];
+    const projectRoot = { path: projectsDir, maxDepth: 2, skipDirs: "node_modules" };
+    const { records } = await walkRoot(projectRoot, markers);
+
+    const onChange = vi.fn();
+    watcher = createProjectWatcher([projectRoot], markers, onChange, 50);
+    watcher.update({ [projectsDir]: records });
+
+    // Files, skipped directories (wherever they appear) and directories past the
+    // depth limit don't affect projects
+    writeFileSync(join(projectsDir, "notes.txt"), "");
+    mkdirSync(join(projectsDir, "node_modules", "other"));
+    mkdirSync(join(projectsDir, "alpha", "node_modules"));
+    mkdirSync(join(projectsDir, "group", "deep", "deeper"));
+    await sleep(200);
+    expect(onChange).not.toHaveBeenCalled();
+
+    mkdirSync(join(projectsDir, "beta", ".git"), { recursive: true });
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+
+    rmSync(join(projectsDir, "alpha", ".git"), { recursive: true });
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2));
+
+    watcher.close();
+    mkdirSync(join(projectsDir, "gamma"));
+    await sleep(200);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,125 @@
+import { watch, type FSWatcher } from "node:fs";
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
+import { walksInto, type DirRecord, type ScanIndex } from "./scanner.js";
+import type { ProjectRoot } from "./types.js";
+import { log } from "./logger.js";
+import { REPO_SHORTCUT_FILES } from "./repoShortcuts.js";
+
+// Directories watched at most; inotify watches are a limited resource on Linux
+const MAX_WATCHED_DIRS = 4000;
+
+// Wait for a burst of changes (like a clone) to settle before reporting it
+const DEBOUNCE_MS = 300;
+
+export interface ProjectWatcher {
+  update: (index: ScanIndex) => void;  // Watch the directories of a new scan
+  close: () => void;
+}
+
+// A watched directory's record from the last scan, and the root it was walked from
+interface WatchedDir {
+  record: DirRecord;
+  root: ProjectRoot;
+}
+
+/**
+ * Whether an entry that appeared or disappeared in a watched directory can change
+ * the project tree: a marker, a repo shortcuts file, a directory the scan walked
+ * into, or a new directory the next scan would walk into.
+ */
+async function affectsProjects(dir: string, name: string, { record, root }: WatchedDir, markers: string[]): Promise<boolean> {
+  if (markers.includes(name) || REPO_SHORTCUT_FILES.includes(name) || record.dirs.includes(name)) return true;
+  if (!walksInto(root, dir, name)) return false;
+  try {
+    return (await stat(join(dir, name))).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Watch the directories a scan walked (so within each root's depth and skip rules) and
+ * call onChange when projects may have been added or removed. Watches don't keep the
+ * process alive, but should still be closed on exit.
+ */
+export function createProjectWatcher(
+  roots: ProjectRoot[],
+  markers: string[],
+  onChange: () => void,
+  debounceMs = DEBOUNCE_MS
+): ProjectWatcher {
+  const watchers = new Map<string, FSWatcher>();
+  let watched: Record<string, WatchedDir> = {};
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const schedule = () => {
+    if (closed) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      if (!closed) onChange();
+    }, debounceMs);
+  };
+
+  const watchDir = (dir: string) => {
+    try {
+      const watcher = watch(dir, { persistent: false }, (eventType, filename) => {
+        const entry = watched[dir];
+        // Only entries appearing or disappearing matter, not file contents
+        if (eventType !== "rename" || !entry) return;
+        if (!filename) {
+          schedule();
+          return;
+        }
+        affectsProjects(dir, filename.toString(), entry, markers).then((affects) => {
+          if (affects) schedule();
+        });
+      });
+      watcher.on("error", () => {
+        watcher.close();
+        watchers.delete(dir);
+      });
+      watchers.set(dir, watcher);
+    } catch (e) {
+      log(`createProjectWatcher: can't watch ${dir} - ${e}`);
+    }
+  };
+
+  return {
+    update(index: ScanIndex) {
+      if (closed) return;
+      watched = {};
+      for (const root of roots) {
+        for (const [dir, record] of Object.entries(index[root.path] ?? {})) {
+          watched[dir] = { record, root };
+        }
+      }
+
+      // Shallow directories first, so a capped watch still sees new top-level projects
+      const dirs = Object.keys(watched)
+        .sort((a, b) => a.split(/[/\\]/).length - b.split(/[/\\]/).length)
+        .slice(0, MAX_WATCHED_DIRS);
+      const wanted = new Set(dirs);
+
+      for (const [dir, watcher] of watchers) {
+        if (!wanted.has(dir)) {
+          watcher.close();
+          watchers.delete(dir);
+        }
+      }
+      for (const dir of dirs) {
+        if (!watchers.has(dir)) watchDir(dir);
+      }
+      log(`createProjectWatcher: watching ${watchers.size} of ${Object.keys(watched).length} directories`);
+    },
+
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}